@@ -0,0 +1,121 @@
+// Exports or imports a project archive straight against Postgres, so
+// projects can be moved between environments, including a local database
+// with no Supabase API in front of it.
+//
+//   npx tsx scripts/project-archive.ts export <projectId> <archive.zip> [--files <dir>]
+//   npx tsx scripts/project-archive.ts import <archive.zip> --user <clerkUserId> [--files <dir>]
+//
+// Stored files go to and come from the Supabase `documents` bucket when
+// NEXT_PUBLIC_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY are set, or from a
+// local directory with --files.
+
+import { mkdir, readFile, rm, writeFile } from 'node:fs/promises'
+import { dirname, join } from 'node:path'
+import { createClient } from '@supabase/supabase-js'
+import dotenv from 'dotenv'
+import postgres from 'postgres'
+import { exportProjectArchive, importProjectArchive, type ArchiveDatabase, type ArchiveStorage } from '../src/lib/archive'
+import { supabaseArchiveStorage } from '../src/lib/archive/supabase'
+
+dotenv.config({ path: '.env.local' })
+
+// postgres parses `timestamp` columns as local time; pin it so rows keep
+// their values on the way through
+process.env.TZ = 'UTC'
+
+function postgresArchiveDatabase(sql: postgres.Sql): ArchiveDatabase {
+  return {
+    async select(table, column, values, orderBy) {
+      const rows = await sql`
+        select * from ${sql(table)}
+        where ${sql(column)} in ${sql(values)}
+        order by ${sql.unsafe(orderBy.map((key) => `"${key}"`).join(', '))}
+      `
+      return [...rows]
+    },
+
+    async insert(table, rows) {
+      await sql`insert into ${sql(table)} ${sql(rows as Record<string, postgres.SerializableParameter>[])}`
+    },
+
+    async deleteProject(projectId) {
+      await sql`delete from projects where id = ${projectId}`
+    },
+  }
+}
+
+// Files laid out as in the bucket, under `root`
+function directoryArchiveStorage(root: string): ArchiveStorage {
+  return {
+    async download(path) {
+      try {
+        return new Uint8Array(await readFile(join(root, path)))
+      } catch {
+        return null
+      }
+    },
+
+    async upload(path, data) {
+      await mkdir(dirname(join(root, path)), { recursive: true })
+      await writeFile(join(root, path), data)
+    },
+
+    async remove(paths) {
+      await Promise.all(paths.map((path) => rm(join(root, path), { force: true })))
+    },
+  }
+}
+
+function createStorage(filesDir: string | undefined): ArchiveStorage {
+  if (filesDir) return directoryArchiveStorage(filesDir)
+
+  if (!process.env.NEXT_PUBLIC_SUPABASE_URL || !process.env.SUPABASE_SERVICE_ROLE_KEY) {
+    throw new Error('Set NEXT_PUBLIC_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY, or pass --files <dir>')
+  }
+  return supabaseArchiveStorage(
+    createClient(process.env.NEXT_PUBLIC_SUPABASE_URL, process.env.SUPABASE_SERVICE_ROLE_KEY)
+  )
+}
+
+function option(args: string[], name: string): string | undefined {
+  const index = args.indexOf(name)
+  return index === -1 ? undefined : args[index + 1]
+}
+
+async function main() {
+  const [command, ...args] = process.argv.slice(2)
+  const databaseUrl = process.env.DIRECT_URL || process.env.DATABASE_URL
+  if (!databaseUrl) {
+    throw new Error('Set DIRECT_URL or DATABASE_URL')
+  }
+
+  const storage = createStorage(option(args, '--files'))
+  const sql = postgres(databaseUrl, { max: 1 })
+  const db = postgresArchiveDatabase(sql)
+
+  try {
+    if (command === 'export' && args[0] && args[1]) {
+      const { data, missingFiles } = await exportProjectArchive(db, storage, args[0])
+      await writeFile(args[1], data)
+      console.log(`Wrote ${args[1]} (${(data.byteLength / 1024 / 1024).toFixed(1)}MB)`)
+      for (const file of missingFiles) {
+        console.warn(`No file archived for ${file.name} (${file.dataSourceId}): ${file.reason}`)
+      }
+    } else if (command === 'import' && args[0] && option(args, '--user')) {
+      const projectId = await importProjectArchive(db, storage, await readFile(args[0]), { userId: option(args, '--user')! })
+      console.log(`Imported project ${projectId}`)
+    } else {
+      console.error('Usage:')
+      console.error('  project-archive.ts export <projectId> <archive.zip> [--files <dir>]')
+      console.error('  project-archive.ts import <archive.zip> --user <clerkUserId> [--files <dir>]')
+      process.exitCode = 1
+    }
+  } finally {
+    await sql.end()
+  }
+}
+
+main().catch((error) => {
+  console.error('Project archive failed:', error instanceof Error ? error.message : error)
+  process.exitCode = 1
+})
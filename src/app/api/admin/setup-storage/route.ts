@@ -1,57 +1,60 @@
-import { NextRequest, NextResponse } from "next/server";
-import { createClient as createServiceClient } from "@supabase/supabase-js";
+import { auth } from "@clerk/nextjs/server";
+import { NextResponse } from "next/server";
+import { createServiceClient } from "@/lib/supabase/service";
+import { isAdmin } from "@/lib/admin/access";
+import { getSetupReport } from "@/lib/admin/setup";
 
-export async function POST(request: NextRequest) {
+async function requireAdmin(): Promise<NextResponse | null> {
+  const { userId } = await auth();
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+  if (!(await isAdmin())) {
+    return NextResponse.json({ error: "Admin access required" }, { status: 403 });
+  }
+  return null;
+}
+
+function serviceClientOrNull() {
+  try {
+    return createServiceClient();
+  } catch {
+    // Reported as missing env vars
+    return null;
+  }
+}
+
+// GET /api/admin/setup-storage - health report: env vars, storage buckets,
+// extensions, RLS and migration state. Changes nothing.
+export async function GET() {
   try {
-    if (!process.env.NEXT_PUBLIC_SUPABASE_URL || !process.env.SUPABASE_SERVICE_ROLE_KEY) {
-      return NextResponse.json({ 
-        error: "Supabase configuration missing" 
-      }, { status: 500 });
-    }
-
-    const serviceClient = createServiceClient(
-      process.env.NEXT_PUBLIC_SUPABASE_URL,
-      process.env.SUPABASE_SERVICE_ROLE_KEY
-    );
-
-    // Create documents bucket
-    const { data, error } = await serviceClient.storage
-      .createBucket('documents', {
-        public: true,
-        allowedMimeTypes: [
-          'application/pdf',
-          'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
-          'application/vnd.openxmlformats-officedocument.presentationml.presentation',
-          'text/plain',
-          'audio/mpeg',
-          'audio/mp4',
-          'audio/wav'
-        ],
-        fileSizeLimit: 50 * 1024 * 1024 // 50MB
-      });
-
-    if (error && !error.message.includes('already exists')) {
-      console.error("Storage bucket creation error:", error);
-      return NextResponse.json({ 
-        error: `Failed to create storage bucket: ${error.message}` 
-      }, { status: 500 });
-    }
-
-    // List existing buckets to verify
-    const { data: buckets, error: listError } = await serviceClient.storage.listBuckets();
-    
+    const denied = await requireAdmin();
+    if (denied) return denied;
+
+    return NextResponse.json(await getSetupReport(serviceClientOrNull()));
+
+  } catch (error) {
+    console.error("Setup check error:", error);
     return NextResponse.json({
-      success: true,
-      message: error?.message.includes('already exists') 
-        ? "Documents bucket already exists" 
-        : "Documents bucket created successfully",
-      buckets: buckets?.map(b => b.name) || []
-    });
+      error: error instanceof Error ? error.message : "Setup check failed"
+    }, { status: 500 });
+  }
+}
+
+// POST /api/admin/setup-storage - creates missing storage buckets and
+// resets the settings of existing ones, then returns the health report.
+// Extensions and RLS come from the migrations, so they are only reported.
+export async function POST() {
+  try {
+    const denied = await requireAdmin();
+    if (denied) return denied;
+
+    return NextResponse.json(await getSetupReport(serviceClientOrNull(), { provision: true }));
 
   } catch (error) {
     console.error("Setup error:", error);
-    return NextResponse.json({ 
-      error: error instanceof Error ? error.message : "Setup failed" 
+    return NextResponse.json({
+      error: error instanceof Error ? error.message : "Setup failed"
     }, { status: 500 });
   }
-}
\ No newline at end of file
+}
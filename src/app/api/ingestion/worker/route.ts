@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from "next/server";
+import { runIngestionWorker } from "@/lib/ingestion/worker";
+
+// Long documents and audio can take minutes to extract and summarize
+export const maxDuration = 300;
+
+// Drains the ingestion queue. Uploads kick the worker directly; this route is
+// for a scheduler (cron) to pick up retries once their backoff has elapsed.
+// Requests must carry `Authorization: Bearer $CRON_SECRET`.
+export async function POST(request: NextRequest) {
+  try {
+    if (!process.env.CRON_SECRET) {
+      return NextResponse.json({ error: "CRON_SECRET is not set" }, { status: 500 });
+    }
+
+    if (request.headers.get("authorization") !== `Bearer ${process.env.CRON_SECRET}`) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const result = await runIngestionWorker();
+
+    return NextResponse.json({
+      success: true,
+      ...result
+    });
+
+  } catch (error) {
+    console.error("Ingestion worker error:", error);
+    return NextResponse.json({ 
+      error: error instanceof Error ? error.message : "Worker run failed" 
+    }, { status: 500 });
+  }
+}
+
+export const GET = POST;
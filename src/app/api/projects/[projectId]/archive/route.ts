@@ -0,0 +1,62 @@
+import { auth } from "@clerk/nextjs/server";
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { getProjectAccess } from "@/lib/projects/access";
+import { createServiceClient } from "@/lib/supabase/service";
+import { exportProjectArchive } from "@/lib/archive";
+import { supabaseArchiveDatabase, supabaseArchiveStorage } from "@/lib/archive/supabase";
+
+interface ArchiveRouteContext {
+  params: Promise<{ projectId: string }>;
+}
+
+// Large projects mean many rows and files to collect
+export const maxDuration = 300;
+
+// GET /api/projects/:projectId/archive
+export async function GET(request: NextRequest, { params }: ArchiveRouteContext) {
+  try {
+    const { userId, getToken } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { projectId } = await params;
+    const token = await getToken();
+    const supabase = await createClient(token);
+
+    // Verify project access
+    const access = await getProjectAccess(supabase, projectId, userId);
+    if (!access) {
+      return NextResponse.json({ error: "Project not found" }, { status: 404 });
+    }
+
+    const { data, missingFiles } = await exportProjectArchive(
+      supabaseArchiveDatabase(supabase),
+      supabaseArchiveStorage(createServiceClient()),
+      projectId
+    );
+
+    if (missingFiles.length > 0) {
+      console.warn(`Archive of project ${projectId} is missing ${missingFiles.length} file(s):`, missingFiles);
+    }
+
+    const slug = access.project.name.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "") || "project";
+
+    return new NextResponse(new Uint8Array(data), {
+      headers: {
+        "Content-Type": "application/zip",
+        "Content-Disposition": `attachment; filename="${slug}-${new Date().toISOString().slice(0, 10)}.zip"`,
+        "Cache-Control": "no-store",
+        // Sources archived without their file; the manifest names them
+        "X-Archive-Missing-Files": String(missingFiles.length),
+      },
+    });
+
+  } catch (error) {
+    console.error("Project archive error:", error);
+    return NextResponse.json({
+      error: error instanceof Error ? error.message : "Failed to archive project"
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,58 @@
+import { auth } from "@clerk/nextjs/server";
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { getProjectAccess } from "@/lib/projects/access";
+
+interface ConversationRouteContext {
+  params: Promise<{ projectId: string; conversationId: string }>;
+}
+
+// GET /api/projects/:projectId/chat/:conversationId - messages, oldest first
+export async function GET(request: NextRequest, { params }: ConversationRouteContext) {
+  try {
+    const { userId, getToken } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { projectId, conversationId } = await params;
+    const token = await getToken();
+    const supabase = await createClient(token);
+
+    // Verify project access
+    const access = await getProjectAccess(supabase, projectId, userId);
+    if (!access) {
+      return NextResponse.json({ error: "Project not found" }, { status: 404 });
+    }
+
+    const { data: conversation } = await supabase
+      .from("chat_conversations")
+      .select("*")
+      .eq("id", conversationId)
+      .eq("project_id", projectId)
+      .eq("user_id", userId)
+      .single();
+
+    if (!conversation) {
+      return NextResponse.json({ error: "Conversation not found" }, { status: 404 });
+    }
+
+    const { data: messages, error } = await supabase
+      .from("chat_messages")
+      .select("*")
+      .eq("conversation_id", conversationId)
+      .order("created_at", { ascending: true });
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    return NextResponse.json({ conversation, messages });
+
+  } catch (error) {
+    console.error("Conversation load error:", error);
+    return NextResponse.json({ 
+      error: error instanceof Error ? error.message : "Failed to load conversation" 
+    }, { status: 500 });
+  }
+}
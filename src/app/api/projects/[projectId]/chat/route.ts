@@ -0,0 +1,173 @@
+import { auth } from "@clerk/nextjs/server";
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { getProjectAccess } from "@/lib/projects/access";
+import { answerFromSources, type ChatTurn } from "@/lib/chat";
+import { getProjectLlmClient, SpendingCapError } from "@/lib/llm";
+
+interface ChatRouteContext {
+  params: Promise<{ projectId: string }>;
+}
+
+const TITLE_LENGTH = 80;
+
+// GET /api/projects/:projectId/chat - the caller's conversations in the project, newest first
+export async function GET(request: NextRequest, { params }: ChatRouteContext) {
+  try {
+    const { userId, getToken } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { projectId } = await params;
+    const token = await getToken();
+    const supabase = await createClient(token);
+
+    // Verify project access
+    const access = await getProjectAccess(supabase, projectId, userId);
+    if (!access) {
+      return NextResponse.json({ error: "Project not found" }, { status: 404 });
+    }
+
+    const { data: conversations, error } = await supabase
+      .from("chat_conversations")
+      .select("*")
+      .eq("project_id", projectId)
+      .eq("user_id", userId)
+      .order("updated_at", { ascending: false });
+
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    return NextResponse.json({ conversations });
+
+  } catch (error) {
+    console.error("Chat list error:", error);
+    return NextResponse.json({ 
+      error: error instanceof Error ? error.message : "Failed to load conversations" 
+    }, { status: 500 });
+  }
+}
+
+// POST /api/projects/:projectId/chat - { message, conversationId? }
+// Starts a conversation when no conversationId is given.
+export async function POST(request: NextRequest, { params }: ChatRouteContext) {
+  try {
+    const { userId, getToken } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { projectId } = await params;
+    const { message, conversationId } = await request.json();
+    const question = typeof message === "string" ? message.trim() : "";
+
+    if (!question) {
+      return NextResponse.json({ error: "Message is required" }, { status: 400 });
+    }
+
+    const token = await getToken();
+    const supabase = await createClient(token);
+
+    // Verify project access
+    const access = await getProjectAccess(supabase, projectId, userId);
+    if (!access) {
+      return NextResponse.json({ error: "Project not found" }, { status: 404 });
+    }
+
+    // Before anything is saved, so a capped project doesn't collect unanswered questions
+    const llm = await getProjectLlmClient(supabase, projectId);
+
+    let conversation;
+    let history: ChatTurn[] = [];
+
+    if (conversationId) {
+      const { data: existing } = await supabase
+        .from("chat_conversations")
+        .select("*")
+        .eq("id", conversationId)
+        .eq("project_id", projectId)
+        .eq("user_id", userId)
+        .single();
+
+      if (!existing) {
+        return NextResponse.json({ error: "Conversation not found" }, { status: 404 });
+      }
+
+      conversation = existing;
+
+      const { data: previousMessages } = await supabase
+        .from("chat_messages")
+        .select("role, content")
+        .eq("conversation_id", conversationId)
+        .order("created_at", { ascending: true });
+
+      history = (previousMessages || []) as ChatTurn[];
+    } else {
+      const { data: created, error: createError } = await supabase
+        .from("chat_conversations")
+        .insert({
+          project_id: projectId,
+          user_id: userId,
+          title: question.length > TITLE_LENGTH ? `${question.substring(0, TITLE_LENGTH)}…` : question,
+        })
+        .select()
+        .single();
+
+      if (createError || !created) {
+        throw new Error(`Failed to create conversation: ${createError?.message}`);
+      }
+
+      conversation = created;
+    }
+
+    const { error: userMessageError } = await supabase
+      .from("chat_messages")
+      .insert({
+        conversation_id: conversation.id,
+        role: "user",
+        content: question,
+      });
+
+    if (userMessageError) {
+      throw new Error(`Failed to save message: ${userMessageError.message}`);
+    }
+
+    const { answer, citations } = await answerFromSources(supabase, llm, projectId, question, history);
+
+    const { data: assistantMessage, error: assistantError } = await supabase
+      .from("chat_messages")
+      .insert({
+        conversation_id: conversation.id,
+        role: "assistant",
+        content: answer,
+        citations,
+      })
+      .select()
+      .single();
+
+    if (assistantError) {
+      throw new Error(`Failed to save answer: ${assistantError.message}`);
+    }
+
+    await supabase
+      .from("chat_conversations")
+      .update({ updated_at: new Date().toISOString() })
+      .eq("id", conversation.id);
+
+    return NextResponse.json({
+      conversation,
+      message: assistantMessage
+    });
+
+  } catch (error) {
+    if (error instanceof SpendingCapError) {
+      return NextResponse.json({ error: error.message }, { status: 403 });
+    }
+    console.error("Chat error:", error);
+    return NextResponse.json({ 
+      error: error instanceof Error ? error.message : "Chat failed" 
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,49 @@
+import { auth } from "@clerk/nextjs/server";
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { getProjectAccess, hasProjectRole, insufficientRoleMessage } from "@/lib/projects/access";
+import { findDuplicateClusters } from "@/lib/entities/resolve";
+import { getProjectLlmClient, SpendingCapError } from "@/lib/llm";
+
+interface DuplicatesRouteContext {
+  params: Promise<{ projectId: string }>;
+}
+
+// POST /api/projects/:projectId/entities/duplicates - clusters of entities
+// that likely name the same thing. A POST because new entities are embedded
+// (and the embeddings stored) along the way.
+export async function POST(request: NextRequest, { params }: DuplicatesRouteContext) {
+  try {
+    const { userId, getToken } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { projectId } = await params;
+    const token = await getToken();
+    const supabase = await createClient(token);
+
+    // Verify project access
+    const access = await getProjectAccess(supabase, projectId, userId);
+    if (!access) {
+      return NextResponse.json({ error: "Project not found" }, { status: 404 });
+    }
+    if (!hasProjectRole(access.role, "editor")) {
+      return NextResponse.json({ error: insufficientRoleMessage("editor") }, { status: 403 });
+    }
+
+    const llm = await getProjectLlmClient(supabase, projectId);
+    const clusters = await findDuplicateClusters(supabase, llm, projectId);
+
+    return NextResponse.json({ clusters });
+
+  } catch (error) {
+    if (error instanceof SpendingCapError) {
+      return NextResponse.json({ error: error.message }, { status: 403 });
+    }
+    console.error("Entity duplicates error:", error);
+    return NextResponse.json({
+      error: error instanceof Error ? error.message : "Failed to find duplicates"
+    }, { status: 500 });
+  }
+}
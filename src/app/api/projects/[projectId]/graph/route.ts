@@ -0,0 +1,47 @@
+import { auth } from "@clerk/nextjs/server";
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { getProjectAccess } from "@/lib/projects/access";
+import { buildProjectGraph } from "@/lib/graph";
+
+interface GraphRouteContext {
+  params: Promise<{ projectId: string }>;
+}
+
+const MAX_DEPTH = 4;
+
+// GET /api/projects/:projectId/graph?types=person,organization&focus=entity:<id>&depth=2&minSources=1
+export async function GET(request: NextRequest, { params }: GraphRouteContext) {
+  try {
+    const { userId, getToken } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { projectId } = await params;
+    const searchParams = request.nextUrl.searchParams;
+    const types = searchParams.get("types")?.split(",").map((type) => type.trim()).filter(Boolean);
+    const focus = searchParams.get("focus") || undefined;
+    const depth = Math.min(Math.max(Number(searchParams.get("depth")) || 2, 1), MAX_DEPTH);
+    const minSources = Math.max(Number(searchParams.get("minSources")) || 1, 1);
+
+    const token = await getToken();
+    const supabase = await createClient(token);
+
+    // Verify project access
+    const access = await getProjectAccess(supabase, projectId, userId);
+    if (!access) {
+      return NextResponse.json({ error: "Project not found" }, { status: 404 });
+    }
+
+    const graph = await buildProjectGraph(supabase, projectId, { types, focus, depth, minSources });
+
+    return NextResponse.json(graph);
+
+  } catch (error) {
+    console.error("Graph error:", error);
+    return NextResponse.json({
+      error: error instanceof Error ? error.message : "Failed to load graph"
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,54 @@
+import { auth } from "@clerk/nextjs/server";
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { getProjectAccess } from "@/lib/projects/access";
+import { searchProjectPassages } from "@/lib/search";
+import { getProjectLlmClient, SpendingCapError } from "@/lib/llm";
+
+interface SearchRouteContext {
+  params: Promise<{ projectId: string }>;
+}
+
+// GET /api/projects/:projectId/search?q=...&limit=10
+export async function GET(request: NextRequest, { params }: SearchRouteContext) {
+  try {
+    const { userId, getToken } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { projectId } = await params;
+    const query = request.nextUrl.searchParams.get("q")?.trim();
+    const limit = Number(request.nextUrl.searchParams.get("limit")) || 10;
+
+    if (!query) {
+      return NextResponse.json({ error: "Search query is required" }, { status: 400 });
+    }
+
+    const token = await getToken();
+    const supabase = await createClient(token);
+
+    // Verify project access
+    const access = await getProjectAccess(supabase, projectId, userId);
+    if (!access) {
+      return NextResponse.json({ error: "Project not found" }, { status: 404 });
+    }
+
+    const llm = await getProjectLlmClient(supabase, projectId);
+    const results = await searchProjectPassages(supabase, llm, projectId, query, limit);
+
+    return NextResponse.json({
+      query,
+      results
+    });
+
+  } catch (error) {
+    if (error instanceof SpendingCapError) {
+      return NextResponse.json({ error: error.message }, { status: 403 });
+    }
+    console.error("Search error:", error);
+    return NextResponse.json({ 
+      error: error instanceof Error ? error.message : "Search failed" 
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,65 @@
+import { auth } from "@clerk/nextjs/server";
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { createServiceClient } from "@/lib/supabase/service";
+import { getProjectAccess } from "@/lib/projects/access";
+import { createSignedFileUrl, getSourceFilePath } from "@/lib/storage";
+
+interface SourceFileRouteContext {
+  params: Promise<{ projectId: string; sourceId: string }>;
+}
+
+// GET /api/projects/:projectId/sources/:sourceId/file?download=1 - redirects
+// to a short-lived signed URL for the uploaded file
+export async function GET(request: NextRequest, { params }: SourceFileRouteContext) {
+  try {
+    const { userId, getToken } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { projectId, sourceId } = await params;
+    const token = await getToken();
+    const supabase = await createClient(token);
+
+    // Verify project access
+    const access = await getProjectAccess(supabase, projectId, userId);
+    if (!access) {
+      return NextResponse.json({ error: "Project not found" }, { status: 404 });
+    }
+
+    const { data: source } = await supabase
+      .from("data_sources")
+      .select("id, name, content_url, metadata")
+      .eq("id", sourceId)
+      .eq("project_id", projectId)
+      .single();
+
+    if (!source) {
+      return NextResponse.json({ error: "Data source not found" }, { status: 404 });
+    }
+    // Signing uses the service role, so only ever sign this project's own
+    // upload, never a path an editor wrote into the row
+    const path = getSourceFilePath(source, projectId);
+    if (!path) {
+      return NextResponse.json({ error: "This source has no stored file" }, { status: 404 });
+    }
+
+    const download = request.nextUrl.searchParams.get("download") === "1";
+    const signedUrl = await createSignedFileUrl(
+      createServiceClient(),
+      path,
+      download ? (source.metadata?.originalName as string | undefined) || source.name : undefined
+    );
+
+    const response = NextResponse.redirect(signedUrl);
+    response.headers.set("Cache-Control", "no-store");
+    return response;
+
+  } catch (error) {
+    console.error("Source file error:", error);
+    return NextResponse.json({
+      error: error instanceof Error ? error.message : "Failed to open file"
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,80 @@
+import { auth } from "@clerk/nextjs/server";
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { getProjectAccess } from "@/lib/projects/access";
+import { parseMatrixView } from "@/lib/synthesis/matrix";
+import {
+  EXPORT_COMPANIONS,
+  EXPORT_FORMATS,
+  loadSynthesisMatrix,
+  toCsv,
+  toJson,
+  toXlsx,
+  type ExportCompanion,
+  type ExportFormat,
+} from "@/lib/synthesis/export";
+
+interface SynthesisExportRouteContext {
+  params: Promise<{ projectId: string }>;
+}
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: "text/csv; charset=utf-8",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  json: "application/json; charset=utf-8",
+};
+
+// GET /api/projects/:projectId/synthesis/export?format=csv&include=confidence,verified&q=&status=&sort=&dir=
+export async function GET(request: NextRequest, { params }: SynthesisExportRouteContext) {
+  try {
+    const { userId, getToken } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { projectId } = await params;
+    const searchParams = request.nextUrl.searchParams;
+
+    const format = (searchParams.get("format") || "csv") as ExportFormat;
+    if (!EXPORT_FORMATS.includes(format)) {
+      return NextResponse.json({ error: `Format must be one of ${EXPORT_FORMATS.join(", ")}` }, { status: 400 });
+    }
+
+    const companions = (searchParams.get("include")?.split(",") || [])
+      .filter((companion): companion is ExportCompanion => EXPORT_COMPANIONS.includes(companion as ExportCompanion));
+
+    const token = await getToken();
+    const supabase = await createClient(token);
+
+    // Verify project access
+    const access = await getProjectAccess(supabase, projectId, userId);
+    if (!access) {
+      return NextResponse.json({ error: "Project not found" }, { status: 404 });
+    }
+
+    const matrix = await loadSynthesisMatrix(supabase, projectId, parseMatrixView(searchParams));
+
+    const slug = access.project.name.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "") || "project";
+    const filename = `${slug}-synthesis-${new Date().toISOString().slice(0, 10)}.${format}`;
+
+    const body = format === "csv"
+      ? toCsv(matrix, companions)
+      : format === "xlsx"
+        ? new Uint8Array(await toXlsx(matrix, companions, access.project.name))
+        : JSON.stringify(toJson(matrix, companions, { id: projectId, name: access.project.name }), null, 2);
+
+    return new NextResponse(body, {
+      headers: {
+        "Content-Type": CONTENT_TYPES[format],
+        "Content-Disposition": `attachment; filename="${filename}"`,
+        "Cache-Control": "no-store",
+      },
+    });
+
+  } catch (error) {
+    console.error("Synthesis export error:", error);
+    return NextResponse.json({
+      error: error instanceof Error ? error.message : "Failed to export synthesis"
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,111 @@
+import { auth } from "@clerk/nextjs/server";
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { getProjectAccess, hasProjectRole, insufficientRoleMessage } from "@/lib/projects/access";
+import {
+  commitImport,
+  ImportError,
+  importMappingSchema,
+  parseSpreadsheet,
+  planImport,
+  suggestImportMapping,
+  type ImportMapping,
+} from "@/lib/synthesis/import";
+import { getActiveRun } from "@/lib/synthesis/runs";
+
+interface SynthesisImportRouteContext {
+  params: Promise<{ projectId: string }>;
+}
+
+// Rows of the sheet returned for the mapping step
+const SAMPLE_ROWS = 5;
+
+/**
+ * POST /api/projects/:projectId/synthesis/import
+ *
+ * Form fields: `file` (CSV or XLSX), optional `mapping` (JSON) and `commit`.
+ * Without `commit` nothing is written: the response has the sheet's
+ * columns, the mapping (suggested when none is sent) and the plan to
+ * preview. The client sends the same file back with `commit=true`, so the
+ * server never has to hold an upload between the two steps.
+ */
+export async function POST(request: NextRequest, { params }: SynthesisImportRouteContext) {
+  try {
+    const { userId, getToken } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { projectId } = await params;
+    const formData = await request.formData();
+    const file = formData.get("file");
+    const mappingField = formData.get("mapping");
+    const commit = formData.get("commit") === "true";
+
+    if (!(file instanceof File)) {
+      return NextResponse.json({ error: "No file provided" }, { status: 400 });
+    }
+
+    const token = await getToken();
+    const supabase = await createClient(token);
+
+    // Verify project access
+    const access = await getProjectAccess(supabase, projectId, userId);
+    if (!access) {
+      return NextResponse.json({ error: "Project not found" }, { status: 404 });
+    }
+    if (!hasProjectRole(access.role, "editor")) {
+      return NextResponse.json({ error: insufficientRoleMessage("editor") }, { status: 403 });
+    }
+
+    const sheet = await parseSpreadsheet(file.name, await file.arrayBuffer());
+
+    const { data: parameters } = await supabase
+      .from("synthesis_parameters")
+      .select("id, name, type")
+      .eq("project_id", projectId)
+      .order("display_order", { ascending: true });
+
+    let mapping: ImportMapping;
+    if (typeof mappingField === "string") {
+      const parsed = importMappingSchema.safeParse(JSON.parse(mappingField));
+      if (!parsed.success) {
+        return NextResponse.json({ error: "Invalid column mapping" }, { status: 400 });
+      }
+      mapping = parsed.data;
+    } else {
+      mapping = suggestImportMapping(sheet, parameters || []);
+    }
+
+    const { cells, ...plan } = await planImport(supabase, projectId, sheet, mapping);
+
+    if (commit) {
+      // As with adding a parameter: a run in progress would write over the
+      // imported cells and miss the new columns
+      if (await getActiveRun(supabase, projectId)) {
+        return NextResponse.json({ error: "Wait for the running analysis to finish before importing" }, { status: 409 });
+      }
+
+      await commitImport(supabase, projectId, userId, { ...plan, cells }, { filename: file.name });
+      return NextResponse.json({ success: true, counts: plan.counts });
+    }
+
+    return NextResponse.json({
+      headers: sheet.headers,
+      rowCount: sheet.rows.length,
+      sample: sheet.rows.slice(0, SAMPLE_ROWS),
+      parameters: parameters || [],
+      mapping,
+      plan,
+    });
+
+  } catch (error) {
+    if (error instanceof ImportError || error instanceof SyntaxError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error("Synthesis import error:", error);
+    return NextResponse.json({
+      error: error instanceof Error ? error.message : "Failed to import spreadsheet"
+    }, { status: 500 });
+  }
+}
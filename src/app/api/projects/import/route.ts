@@ -0,0 +1,47 @@
+import { auth } from "@clerk/nextjs/server";
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { createServiceClient } from "@/lib/supabase/service";
+import { ArchiveError, importProjectArchive } from "@/lib/archive";
+import { supabaseArchiveDatabase, supabaseArchiveStorage } from "@/lib/archive/supabase";
+
+// Uploading the archive's files can take a while
+export const maxDuration = 300;
+
+// POST /api/projects/import — recreates a project from an archive made by
+// GET /api/projects/:projectId/archive
+export async function POST(request: NextRequest) {
+  try {
+    const { userId, getToken } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const formData = await request.formData();
+    const file = formData.get("file");
+    if (!(file instanceof File)) {
+      return NextResponse.json({ error: "No file provided" }, { status: 400 });
+    }
+
+    const token = await getToken();
+    const supabase = await createClient(token);
+
+    const projectId = await importProjectArchive(
+      supabaseArchiveDatabase(supabase),
+      supabaseArchiveStorage(createServiceClient()),
+      await file.arrayBuffer(),
+      { userId }
+    );
+
+    return NextResponse.json({ success: true, projectId });
+
+  } catch (error) {
+    if (error instanceof ArchiveError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error("Project import error:", error);
+    return NextResponse.json({
+      error: error instanceof Error ? error.message : "Failed to import project"
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,97 @@
+import { auth } from "@clerk/nextjs/server";
+import { after, NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { getProjectAccess, hasProjectRole, insufficientRoleMessage } from "@/lib/projects/access";
+import { createServiceClient } from "@/lib/supabase/service";
+import { assertWithinSpendingCap, SpendingCapError } from "@/lib/llm";
+import { createSynthesisRun, executeSynthesisRun, RunInProgressError, findUnverifiedCells, getActiveRun } from "@/lib/synthesis/runs";
+import { PLACEHOLDER_SOURCE_TYPE } from "@/lib/synthesis/import";
+import { selectAllRows } from "@/lib/supabase/paging";
+
+// The run continues after the response; see executeSynthesisRun
+export const maxDuration = 300;
+
+// POST /api/synthesis/extract { projectId, parameterId }
+// Starts a run that fills one parameter for every processed source
+export async function POST(request: NextRequest) {
+  try {
+    const { userId, getToken } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { projectId, parameterId } = await request.json();
+    if (!projectId || !parameterId) {
+      return NextResponse.json({ error: "Project ID and parameter ID required" }, { status: 400 });
+    }
+
+    const token = await getToken();
+    const supabase = await createClient(token);
+
+    // Verify project access
+    const access = await getProjectAccess(supabase, projectId, userId);
+    if (!access) {
+      return NextResponse.json({ error: "Project not found" }, { status: 404 });
+    }
+    if (!hasProjectRole(access.role, "editor")) {
+      return NextResponse.json({ error: insufficientRoleMessage("editor") }, { status: 403 });
+    }
+
+    // Refuse up front rather than queueing work that would fail on the cap
+    await assertWithinSpendingCap(supabase, projectId);
+
+    const { data: parameter } = await supabase
+      .from("synthesis_parameters")
+      .select("id")
+      .eq("id", parameterId)
+      .eq("project_id", projectId)
+      .single();
+
+    if (!parameter) {
+      return NextResponse.json({ error: "Parameter not found" }, { status: 404 });
+    }
+
+    const dataSources = await selectAllRows<{ id: string }>("sources", () => supabase
+      .from("data_sources")
+      .select("id")
+      .eq("project_id", projectId)
+      .eq("status", "processed")
+      .neq("type", PLACEHOLDER_SOURCE_TYPE)
+      .order("id", { ascending: true }));
+
+    if (await getActiveRun(supabase, projectId)) {
+      return NextResponse.json({ error: "An analysis is already running for this project" }, { status: 409 });
+    }
+
+    const cells = await findUnverifiedCells(
+      supabase,
+      parameter.id,
+      dataSources.map((source) => source.id)
+    );
+
+    const run = await createSynthesisRun(supabase, { projectId, userId, discover: false, cells });
+
+    // Process once the response has been sent
+    after(async () => {
+      await executeSynthesisRun(createServiceClient(), run.id);
+    });
+
+    return NextResponse.json({
+      success: true,
+      runId: run.id,
+      cellsQueued: cells.length,
+    }, { status: 202 });
+
+  } catch (error) {
+    if (error instanceof SpendingCapError) {
+      return NextResponse.json({ error: error.message }, { status: 403 });
+    }
+    if (error instanceof RunInProgressError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+    console.error("Extraction error:", error);
+    return NextResponse.json({
+      error: error instanceof Error ? error.message : "Extraction failed"
+    }, { status: 500 });
+  }
+}
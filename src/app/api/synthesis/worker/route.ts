@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createServiceClient } from "@/lib/supabase/service";
+import { resumeSynthesisRuns } from "@/lib/synthesis/runs";
+
+// One pass of a run; see executeSynthesisRun
+export const maxDuration = 300;
+
+// Continues synthesis runs that ran out of time or whose function died. Runs
+// start right after the request that creates them; this route is for a
+// scheduler (cron) to carry large runs to completion.
+// Requests must carry `Authorization: Bearer $CRON_SECRET`.
+export async function POST(request: NextRequest) {
+  try {
+    if (!process.env.CRON_SECRET) {
+      return NextResponse.json({ error: "CRON_SECRET is not set" }, { status: 500 });
+    }
+
+    if (request.headers.get("authorization") !== `Bearer ${process.env.CRON_SECRET}`) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const runId = await resumeSynthesisRuns(createServiceClient());
+
+    return NextResponse.json({
+      success: true,
+      resumedRunId: runId
+    });
+
+  } catch (error) {
+    console.error("Synthesis worker error:", error);
+    return NextResponse.json({
+      error: error instanceof Error ? error.message : "Worker run failed"
+    }, { status: 500 });
+  }
+}
+
+export const GET = POST;
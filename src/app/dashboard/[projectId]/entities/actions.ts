@@ -0,0 +1,246 @@
+'use server'
+
+import { createClient } from '@/lib/supabase/server'
+import { getProjectAccess, hasProjectRole, insufficientRoleMessage } from '@/lib/projects/access'
+import { revalidatePath } from 'next/cache'
+import { redirect } from 'next/navigation'
+import { auth } from '@clerk/nextjs/server'
+import { normalizeEntityName } from '@/lib/entities/extract'
+import type { SupabaseClient } from '@supabase/supabase-js'
+
+// Folds `mergedIds` into `targetId`: mentions are repointed and the merged
+// names kept as aliases, so later ingestion resolves them to the target
+export async function mergeEntities(projectId: string, targetId: string, mergedIds: string[]) {
+  const { userId, getToken } = await auth()
+  if (!userId) redirect('/sign-in')
+
+  const token = await getToken()
+  const supabase = await createClient(token)
+
+  // Verify project access
+  const access = await getProjectAccess(supabase, projectId, userId)
+  if (!access) {
+    return { error: 'Project not found' }
+  }
+  if (!hasProjectRole(access.role, 'editor')) {
+    return { error: insufficientRoleMessage('editor') }
+  }
+
+  const ids = [...new Set(mergedIds)].filter((id) => id !== targetId)
+  if (ids.length === 0) {
+    return { error: 'Choose at least one entity to merge' }
+  }
+
+  const { data: entities } = await supabase
+    .from('entities')
+    .select('id')
+    .eq('project_id', projectId)
+    .in('id', [targetId, ...ids])
+
+  if ((entities || []).length !== ids.length + 1) {
+    return { error: 'Entity not found in this project' }
+  }
+
+  const { error } = await supabase.rpc('merge_entities', {
+    p_target_id: targetId,
+    p_merged_ids: ids,
+  })
+
+  if (error) {
+    return { error: error.message }
+  }
+
+  revalidatePath(`/dashboard/${projectId}/entities`)
+  return { success: true }
+}
+
+// The old name becomes an alias, so sources that use it still resolve here
+export async function renameEntity(projectId: string, entityId: string, name: string) {
+  const { userId, getToken } = await auth()
+  if (!userId) redirect('/sign-in')
+
+  const token = await getToken()
+  const supabase = await createClient(token)
+
+  // Verify project access
+  const access = await getProjectAccess(supabase, projectId, userId)
+  if (!access) {
+    return { error: 'Project not found' }
+  }
+  if (!hasProjectRole(access.role, 'editor')) {
+    return { error: insufficientRoleMessage('editor') }
+  }
+
+  const entity = await getProjectEntity(supabase, projectId, entityId)
+  if (!entity) {
+    return { error: 'Entity not found' }
+  }
+
+  const trimmed = name.trim()
+  const normalizedName = normalizeEntityName(trimmed)
+  if (!normalizedName) {
+    return { error: 'Name is required' }
+  }
+  if (trimmed === entity.name) {
+    return { success: true }
+  }
+
+  const conflict = await findEntityNamed(supabase, projectId, entity.type, normalizedName, entityId)
+  if (conflict) {
+    return { error: `"${conflict.name}" already exists; merge the two instead` }
+  }
+
+  const aliases = [...entity.aliases, entity.name]
+    .filter((alias, index, all) => normalizeEntityName(alias) !== normalizedName && all.indexOf(alias) === index)
+
+  const { error } = await supabase
+    .from('entities')
+    .update({
+      name: trimmed,
+      normalized_name: normalizedName,
+      aliases,
+      // Embedded from the old name; recomputed on the next duplicate search
+      embedding: null,
+    })
+    .eq('id', entityId)
+
+  if (error) {
+    return { error: error.message }
+  }
+
+  revalidatePath(`/dashboard/${projectId}/entities`)
+  return { success: true }
+}
+
+// Moves the mentions from `dataSourceIds` to a new entity called `name`,
+// undoing a wrong merge or separating two things that share a name
+export async function splitEntity(projectId: string, entityId: string, dataSourceIds: string[], name: string) {
+  const { userId, getToken } = await auth()
+  if (!userId) redirect('/sign-in')
+
+  const token = await getToken()
+  const supabase = await createClient(token)
+
+  // Verify project access
+  const access = await getProjectAccess(supabase, projectId, userId)
+  if (!access) {
+    return { error: 'Project not found' }
+  }
+  if (!hasProjectRole(access.role, 'editor')) {
+    return { error: insufficientRoleMessage('editor') }
+  }
+
+  const entity = await getProjectEntity(supabase, projectId, entityId)
+  if (!entity) {
+    return { error: 'Entity not found' }
+  }
+
+  const trimmed = name.trim()
+  const normalizedName = normalizeEntityName(trimmed)
+  if (!normalizedName) {
+    return { error: 'Name is required' }
+  }
+
+  const { data: mentions } = await supabase
+    .from('data_source_entities')
+    .select('data_source_id')
+    .eq('entity_id', entityId)
+
+  const mentioned = new Set((mentions || []).map((mention) => mention.data_source_id as string))
+  const moving = [...new Set(dataSourceIds)].filter((id) => mentioned.has(id))
+
+  if (moving.length === 0) {
+    return { error: 'Choose at least one source to move' }
+  }
+  if (moving.length === mentioned.size) {
+    return { error: 'Leave at least one source on the original entity, or rename it instead' }
+  }
+
+  if (normalizedName === normalizeEntityName(entity.name)) {
+    return { error: 'Choose a new name for the split-off entity' }
+  }
+
+  // One of the original's own aliases is fine (typically undoing a merge);
+  // it is taken off the original below
+  const conflict = await findEntityNamed(supabase, projectId, entity.type, normalizedName, entityId)
+  if (conflict) {
+    return { error: `"${conflict.name}" already exists; split into a new name or merge afterwards` }
+  }
+
+  const { data: created, error: createError } = await supabase
+    .from('entities')
+    .insert({
+      project_id: projectId,
+      name: trimmed,
+      type: entity.type,
+      normalized_name: normalizedName,
+    })
+    .select('id')
+    .single()
+
+  if (createError || !created) {
+    return { error: createError?.message || 'Failed to create entity' }
+  }
+
+  const { error: moveError } = await supabase
+    .from('data_source_entities')
+    .update({ entity_id: created.id })
+    .eq('entity_id', entityId)
+    .in('data_source_id', moving)
+
+  if (moveError) {
+    await supabase.from('entities').delete().eq('id', created.id)
+    return { error: moveError.message }
+  }
+
+  // An alias of the original that names the new entity would otherwise keep
+  // pulling its future mentions back into the original, and have the two
+  // suggested as duplicates again
+  const aliases = entity.aliases.filter((alias) => normalizeEntityName(alias) !== normalizedName)
+  if (aliases.length !== entity.aliases.length) {
+    const { error: aliasError } = await supabase
+      .from('entities')
+      .update({ aliases })
+      .eq('id', entityId)
+
+    if (aliasError) {
+      return { error: aliasError.message }
+    }
+  }
+
+  revalidatePath(`/dashboard/${projectId}/entities`)
+  return { success: true, entityId: created.id }
+}
+
+async function getProjectEntity(supabase: SupabaseClient, projectId: string, entityId: string) {
+  const { data: entity } = await supabase
+    .from('entities')
+    .select('id, name, type, aliases')
+    .eq('id', entityId)
+    .eq('project_id', projectId)
+    .single()
+
+  return entity as { id: string; name: string; type: string; aliases: string[] } | null
+}
+
+// The entity (other than `exceptId`) that `normalizedName` already names or
+// is an alias of
+async function findEntityNamed(
+  supabase: SupabaseClient,
+  projectId: string,
+  type: string,
+  normalizedName: string,
+  exceptId?: string
+) {
+  const { data: entities } = await supabase
+    .from('entities')
+    .select('id, name, normalized_name, aliases')
+    .eq('project_id', projectId)
+    .eq('type', type)
+
+  return (entities || []).find((entity) =>
+    entity.id !== exceptId
+    && (entity.normalized_name === normalizedName
+      || (entity.aliases as string[]).some((alias) => normalizeEntityName(alias) === normalizedName))
+  ) ?? null
+}
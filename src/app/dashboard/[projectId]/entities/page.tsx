@@ -0,0 +1,210 @@
+import { auth } from "@clerk/nextjs/server";
+import { redirect } from "next/navigation";
+import { createClient } from "@/lib/supabase/server";
+import { getProjectAccess, hasProjectRole } from "@/lib/projects/access";
+import { ThemeToggle } from "@/components/theme-toggle";
+import { UserButton } from "@clerk/nextjs";
+import { ArrowLeft, Users } from "lucide-react";
+import Link from "next/link";
+import { ENTITY_TYPES } from "@/lib/entities/schemas";
+import { EntityDuplicateReview } from "@/components/entity-duplicate-review";
+import { EntityActions } from "@/components/entity-actions";
+
+interface EntitiesPageProps {
+  params: Promise<{ projectId: string }>;
+  searchParams: Promise<{ type?: string }>;
+}
+
+interface EntityMentionRow {
+  value: string | null;
+  confidence: number | null;
+  context: string | null;
+  data_source: { id: string; name: string; type: string } | null;
+}
+
+interface EntityRow {
+  id: string;
+  name: string;
+  type: string;
+  aliases: string[];
+  description: string | null;
+  mentions: EntityMentionRow[];
+}
+
+const TYPE_LABELS: Record<string, string> = {
+  person: "People",
+  organization: "Organizations",
+  location: "Locations",
+  technology: "Technologies",
+  product: "Products",
+  event: "Events",
+};
+
+export default async function EntitiesPage({ params, searchParams }: EntitiesPageProps) {
+  const { userId, getToken } = await auth();
+  if (!userId) redirect("/sign-in");
+
+  const { projectId } = await params;
+  const { type } = await searchParams;
+  const token = await getToken();
+  const supabase = await createClient(token);
+
+  // Fetch project details and the caller's role
+  const access = await getProjectAccess(supabase, projectId, userId);
+  if (!access) {
+    redirect("/dashboard");
+  }
+  const { project, role } = access;
+  const canEdit = hasProjectRole(role, "editor");
+
+  const { data } = await supabase
+    .from("entities")
+    .select(`
+      id, name, type, aliases, description,
+      mentions:data_source_entities(value, confidence, context, data_source:data_sources(id, name, type))
+    `)
+    .eq("project_id", projectId)
+    .order("name", { ascending: true });
+
+  const allEntities = ((data || []) as unknown as EntityRow[])
+    .filter((entity) => entity.mentions.length > 0);
+
+  const countsByType = new Map<string, number>();
+  for (const entity of allEntities) {
+    countsByType.set(entity.type, (countsByType.get(entity.type) || 0) + 1);
+  }
+
+  // Most-mentioned first; names break ties
+  const entities = allEntities
+    .filter((entity) => !type || entity.type === type)
+    .sort((a, b) => b.mentions.length - a.mentions.length);
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <header className="border-b border-border bg-card/50 backdrop-blur-xl sticky top-0 z-10">
+        <div className="mx-auto flex h-16 max-w-7xl items-center justify-between px-4 sm:px-6 lg:px-8">
+          <div className="flex items-center gap-4">
+            <Link
+              href={`/dashboard/${projectId}`}
+              className="flex items-center gap-2 text-sm text-muted-foreground hover:text-foreground transition-colors"
+            >
+              <ArrowLeft className="h-4 w-4" />
+              Back to Project
+            </Link>
+            <div className="h-6 w-px bg-border" />
+            <div className="flex items-center gap-2">
+              <div className="rounded-lg bg-gradient-to-br from-amber-500 to-orange-600 p-2">
+                <Users className="h-4 w-4 text-white" />
+              </div>
+              <div>
+                <h1 className="text-lg font-semibold">Entities</h1>
+                <p className="text-xs text-muted-foreground">
+                  {project.name}
+                </p>
+              </div>
+            </div>
+          </div>
+          <div className="flex items-center gap-4">
+            <ThemeToggle />
+            <UserButton />
+          </div>
+        </div>
+      </header>
+
+      <main className="mx-auto max-w-7xl px-4 py-8 sm:px-6 lg:px-8">
+        {/* Duplicate Review */}
+        {canEdit && allEntities.length > 1 && (
+          <section className="mb-8">
+            <EntityDuplicateReview projectId={projectId} />
+          </section>
+        )}
+
+        {/* Type Filter */}
+        <div className="mb-6 flex flex-wrap gap-2">
+          <Link
+            href={`/dashboard/${projectId}/entities`}
+            className={`rounded-full border px-3 py-1 text-sm transition-colors ${!type ? "border-primary bg-primary text-primary-foreground" : "border-border hover:bg-muted"}`}
+          >
+            All ({allEntities.length})
+          </Link>
+          {ENTITY_TYPES.filter((entityType) => countsByType.has(entityType)).map((entityType) => (
+            <Link
+              key={entityType}
+              href={`/dashboard/${projectId}/entities?type=${entityType}`}
+              className={`rounded-full border px-3 py-1 text-sm transition-colors ${type === entityType ? "border-primary bg-primary text-primary-foreground" : "border-border hover:bg-muted"}`}
+            >
+              {TYPE_LABELS[entityType]} ({countsByType.get(entityType)})
+            </Link>
+          ))}
+        </div>
+
+        {entities.length === 0 ? (
+          <div className="flex flex-col items-center justify-center rounded-2xl border border-dashed border-border bg-card p-12 text-center">
+            <Users className="h-12 w-12 text-muted-foreground mb-4" />
+            <h3 className="text-lg font-semibold mb-2">No entities yet</h3>
+            <p className="text-sm text-muted-foreground max-w-sm">
+              People, organizations and other named entities are collected as sources are processed
+            </p>
+          </div>
+        ) : (
+          <div className="rounded-lg border border-border bg-card divide-y divide-border">
+            {entities.map((entity) => (
+              <div key={entity.id} className="p-6">
+                <div className="flex items-baseline justify-between gap-4">
+                  <div>
+                    <h3 className="font-semibold">{entity.name}</h3>
+                    {entity.aliases.length > 0 && (
+                      <p className="text-xs text-muted-foreground">Also known as {entity.aliases.join(", ")}</p>
+                    )}
+                    {entity.description && (
+                      <p className="text-sm text-muted-foreground">{entity.description}</p>
+                    )}
+                  </div>
+                  <div className="flex shrink-0 items-center gap-3 text-xs text-muted-foreground">
+                    <span className="rounded-full bg-muted px-2 py-0.5 capitalize">{entity.type}</span>
+                    <span>
+                      {entity.mentions.length} {entity.mentions.length === 1 ? "source" : "sources"}
+                    </span>
+                    {canEdit && (
+                      <EntityActions
+                        projectId={projectId}
+                        entity={{
+                          id: entity.id,
+                          name: entity.name,
+                          sources: entity.mentions.flatMap((mention) =>
+                            mention.data_source ? [{ id: mention.data_source.id, name: mention.data_source.name }] : []
+                          ),
+                        }}
+                      />
+                    )}
+                  </div>
+                </div>
+                <ul className="mt-3 space-y-2">
+                  {entity.mentions.filter((mention) => mention.data_source).map((mention) => (
+                    <li key={mention.data_source!.id} className="text-sm">
+                      <Link
+                        href={`/dashboard/${projectId}/sources/${mention.data_source!.id}`}
+                        className="font-medium hover:underline"
+                      >
+                        {mention.data_source!.name}
+                      </Link>
+                      {mention.value && mention.value !== entity.name && (
+                        <span className="text-muted-foreground"> as &ldquo;{mention.value}&rdquo;</span>
+                      )}
+                      {mention.context && (
+                        <p className="text-xs text-muted-foreground italic line-clamp-2">
+                          &ldquo;{mention.context}&rdquo;
+                        </p>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            ))}
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
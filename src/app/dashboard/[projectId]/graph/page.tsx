@@ -0,0 +1,93 @@
+import { auth } from "@clerk/nextjs/server";
+import { redirect } from "next/navigation";
+import { createClient } from "@/lib/supabase/server";
+import { getProjectAccess } from "@/lib/projects/access";
+import { ThemeToggle } from "@/components/theme-toggle";
+import { UserButton } from "@clerk/nextjs";
+import { ArrowLeft, Share2 } from "lucide-react";
+import Link from "next/link";
+import { KnowledgeGraph } from "@/components/knowledge-graph";
+import { ENTITY_TYPES } from "@/lib/entities/schemas";
+
+interface GraphPageProps {
+  params: Promise<{ projectId: string }>;
+}
+
+export default async function GraphPage({ params }: GraphPageProps) {
+  const { userId, getToken } = await auth();
+  if (!userId) redirect("/sign-in");
+
+  const { projectId } = await params;
+  const token = await getToken();
+  const supabase = await createClient(token);
+
+  // Fetch project details
+  const access = await getProjectAccess(supabase, projectId, userId);
+  if (!access) {
+    redirect("/dashboard");
+  }
+  const { project } = access;
+
+  // Which filters are worth offering
+  const [{ data: entities }, { count: categoryParameterCount }] = await Promise.all([
+    supabase
+      .from("entities")
+      .select("type")
+      .eq("project_id", projectId),
+    supabase
+      .from("synthesis_parameters")
+      .select("id", { count: "exact", head: true })
+      .eq("project_id", projectId)
+      .eq("type", "category"),
+  ]);
+
+  const presentTypes = new Set((entities || []).map((entity) => entity.type as string));
+  const entityTypes = ENTITY_TYPES.filter((type) => presentTypes.has(type));
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <header className="border-b border-border bg-card/50 backdrop-blur-xl sticky top-0 z-10">
+        <div className="mx-auto flex h-16 max-w-7xl items-center justify-between px-4 sm:px-6 lg:px-8">
+          <div className="flex items-center gap-4">
+            <Link
+              href={`/dashboard/${projectId}`}
+              className="flex items-center gap-2 text-sm text-muted-foreground hover:text-foreground transition-colors"
+            >
+              <ArrowLeft className="h-4 w-4" />
+              Back to Project
+            </Link>
+            <div className="h-6 w-px bg-border" />
+            <div className="flex items-center gap-2">
+              <div className="rounded-lg bg-gradient-to-br from-sky-500 to-indigo-600 p-2">
+                <Share2 className="h-4 w-4 text-white" />
+              </div>
+              <div>
+                <h1 className="text-lg font-semibold">Knowledge Graph</h1>
+                <p className="text-xs text-muted-foreground">
+                  {project.name}
+                </p>
+              </div>
+            </div>
+          </div>
+          <div className="flex items-center gap-4">
+            <ThemeToggle />
+            <UserButton />
+          </div>
+        </div>
+      </header>
+
+      <main className="mx-auto max-w-7xl px-4 py-8 sm:px-6 lg:px-8">
+        <p className="mb-6 text-sm text-muted-foreground">
+          Squares are sources; circles are the people, organizations and other entities they mention.
+          Sources connect through every entity they share. Click a node to focus on its neighborhood.
+        </p>
+        <KnowledgeGraph
+          projectId={projectId}
+          entityTypes={entityTypes}
+          hasParameterValues={(categoryParameterCount || 0) > 0}
+        />
+      </main>
+    </div>
+  );
+}
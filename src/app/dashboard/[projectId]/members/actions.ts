@@ -0,0 +1,323 @@
+'use server'
+
+import { randomBytes } from 'node:crypto'
+import { createClient } from '@/lib/supabase/server'
+import { createServiceClient } from '@/lib/supabase/service'
+import {
+  getProjectAccess,
+  hasProjectRole,
+  insufficientRoleMessage,
+  PROJECT_ROLES,
+  type ProjectRole,
+} from '@/lib/projects/access'
+import { revalidatePath } from 'next/cache'
+import { redirect } from 'next/navigation'
+import { auth, clerkClient, currentUser } from '@clerk/nextjs/server'
+
+const INVITATION_LIFETIME_DAYS = 14
+
+export interface ProjectMember {
+  userId: string
+  role: ProjectRole
+  name: string
+  email: string | null
+  // The creator is always an owner and cannot be removed
+  isCreator: boolean
+}
+
+export interface ProjectInvitation {
+  id: string
+  email: string
+  role: ProjectRole
+  token: string
+  expiresAt: string
+}
+
+// Members with their Clerk names, and pending invitations for owners
+export async function getProjectMembers(projectId: string) {
+  const { userId, getToken } = await auth()
+  if (!userId) redirect('/sign-in')
+
+  const token = await getToken()
+  const supabase = await createClient(token)
+
+  const access = await getProjectAccess(supabase, projectId, userId)
+  if (!access) {
+    return { error: 'Project not found' }
+  }
+
+  const { data: rows, error } = await supabase
+    .from('project_members')
+    .select('user_id, role')
+    .eq('project_id', projectId)
+    .order('created_at', { ascending: true })
+
+  if (error) {
+    return { error: error.message }
+  }
+
+  const client = await clerkClient()
+  const { data: users } = await client.users.getUserList({
+    userId: rows.map((row) => row.user_id),
+    limit: rows.length,
+  })
+  const usersById = new Map(users.map((user) => [user.id, user]))
+
+  const members: ProjectMember[] = rows.map((row) => {
+    const user = usersById.get(row.user_id)
+    const email = user?.primaryEmailAddress?.emailAddress ?? null
+    return {
+      userId: row.user_id,
+      role: row.role,
+      name: user?.fullName || user?.username || email || 'Unknown user',
+      email,
+      isCreator: row.user_id === access.project.user_id,
+    }
+  })
+
+  let invitations: ProjectInvitation[] = []
+  if (hasProjectRole(access.role, 'owner')) {
+    const { data } = await supabase
+      .from('project_invitations')
+      .select('id, email, role, token, expires_at')
+      .eq('project_id', projectId)
+      .is('accepted_at', null)
+      .gt('expires_at', new Date().toISOString())
+      .order('created_at', { ascending: true })
+
+    invitations = (data || []).map((invitation) => ({
+      id: invitation.id,
+      email: invitation.email,
+      role: invitation.role,
+      token: invitation.token,
+      expiresAt: invitation.expires_at,
+    }))
+  }
+
+  return { members, invitations, role: access.role, userId }
+}
+
+// There is no mail delivery: the owner shares the returned token's link
+export async function inviteMember(projectId: string, email: string, role: ProjectRole) {
+  const { userId, getToken } = await auth()
+  if (!userId) redirect('/sign-in')
+
+  const normalizedEmail = email.trim().toLowerCase()
+  if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(normalizedEmail)) {
+    return { error: 'Enter a valid email address' }
+  }
+  if (!PROJECT_ROLES.includes(role)) {
+    return { error: 'Unknown role' }
+  }
+
+  const token = await getToken()
+  const supabase = await createClient(token)
+
+  // Verify project access
+  const access = await getProjectAccess(supabase, projectId, userId)
+  if (!access) {
+    return { error: 'Project not found' }
+  }
+  if (!hasProjectRole(access.role, 'owner')) {
+    return { error: insufficientRoleMessage('owner') }
+  }
+
+  const client = await clerkClient()
+  const { data: existingUsers } = await client.users.getUserList({ emailAddress: [normalizedEmail] })
+  if (existingUsers.length > 0) {
+    const { data: existingMember } = await supabase
+      .from('project_members')
+      .select('user_id')
+      .eq('project_id', projectId)
+      .in('user_id', existingUsers.map((user) => user.id))
+      .maybeSingle()
+
+    if (existingMember) {
+      return { error: 'That person is already a member of this project' }
+    }
+  }
+
+  // A new invitation replaces any pending one for the same address
+  await supabase
+    .from('project_invitations')
+    .delete()
+    .eq('project_id', projectId)
+    .eq('email', normalizedEmail)
+    .is('accepted_at', null)
+
+  const invitationToken = randomBytes(24).toString('base64url')
+  const { error } = await supabase
+    .from('project_invitations')
+    .insert({
+      project_id: projectId,
+      email: normalizedEmail,
+      role,
+      token: invitationToken,
+      invited_by: userId,
+      expires_at: new Date(Date.now() + INVITATION_LIFETIME_DAYS * 24 * 60 * 60 * 1000).toISOString(),
+    })
+
+  if (error) {
+    return { error: error.message }
+  }
+
+  return { success: true, token: invitationToken }
+}
+
+export async function revokeInvitation(projectId: string, invitationId: string) {
+  const { userId, getToken } = await auth()
+  if (!userId) redirect('/sign-in')
+
+  const token = await getToken()
+  const supabase = await createClient(token)
+
+  // Verify project access
+  const access = await getProjectAccess(supabase, projectId, userId)
+  if (!access) {
+    return { error: 'Project not found' }
+  }
+  if (!hasProjectRole(access.role, 'owner')) {
+    return { error: insufficientRoleMessage('owner') }
+  }
+
+  const { error } = await supabase
+    .from('project_invitations')
+    .delete()
+    .eq('id', invitationId)
+    .eq('project_id', projectId)
+
+  if (error) {
+    return { error: error.message }
+  }
+
+  return { success: true }
+}
+
+export async function updateMemberRole(projectId: string, memberUserId: string, role: ProjectRole) {
+  const { userId, getToken } = await auth()
+  if (!userId) redirect('/sign-in')
+
+  if (!PROJECT_ROLES.includes(role)) {
+    return { error: 'Unknown role' }
+  }
+
+  const token = await getToken()
+  const supabase = await createClient(token)
+
+  // Verify project access
+  const access = await getProjectAccess(supabase, projectId, userId)
+  if (!access) {
+    return { error: 'Project not found' }
+  }
+  if (!hasProjectRole(access.role, 'owner')) {
+    return { error: insufficientRoleMessage('owner') }
+  }
+  if (memberUserId === access.project.user_id) {
+    return { error: 'The project creator is always an owner' }
+  }
+
+  const { data: member, error } = await supabase
+    .from('project_members')
+    .update({ role, updated_at: new Date().toISOString() })
+    .eq('project_id', projectId)
+    .eq('user_id', memberUserId)
+    .select('user_id')
+    .maybeSingle()
+
+  if (error || !member) {
+    return { error: error?.message || 'Member not found' }
+  }
+
+  revalidatePath(`/dashboard/${projectId}`)
+  return { success: true }
+}
+
+// Owners remove anyone but the creator; everyone else can only leave
+export async function removeMember(projectId: string, memberUserId: string) {
+  const { userId, getToken } = await auth()
+  if (!userId) redirect('/sign-in')
+
+  const token = await getToken()
+  const supabase = await createClient(token)
+
+  // Verify project access
+  const access = await getProjectAccess(supabase, projectId, userId)
+  if (!access) {
+    return { error: 'Project not found' }
+  }
+  if (memberUserId !== userId && !hasProjectRole(access.role, 'owner')) {
+    return { error: insufficientRoleMessage('owner') }
+  }
+  if (memberUserId === access.project.user_id) {
+    return { error: 'The project creator cannot be removed' }
+  }
+
+  const { error } = await supabase
+    .from('project_members')
+    .delete()
+    .eq('project_id', projectId)
+    .eq('user_id', memberUserId)
+
+  if (error) {
+    return { error: error.message }
+  }
+
+  if (memberUserId === userId) {
+    revalidatePath('/dashboard')
+    return { success: true, left: true }
+  }
+
+  revalidatePath(`/dashboard/${projectId}`)
+  return { success: true }
+}
+
+// Invitees can't see the invitation under RLS, so it is read and accepted
+// with the service role once the signed-in user's email matches it
+export async function acceptInvitation(invitationToken: string) {
+  const { userId } = await auth()
+  const user = await currentUser()
+  if (!userId || !user) redirect('/sign-in')
+
+  const serviceClient = createServiceClient()
+  const { data: invitation } = await serviceClient
+    .from('project_invitations')
+    .select('id, project_id, email, role, invited_by, expires_at, accepted_at')
+    .eq('token', invitationToken)
+    .single()
+
+  if (!invitation || invitation.accepted_at) {
+    return { error: 'This invitation is no longer valid' }
+  }
+  if (new Date(invitation.expires_at) < new Date()) {
+    return { error: 'This invitation has expired. Ask the project owner for a new one.' }
+  }
+
+  const verifiedEmails = user.emailAddresses
+    .filter((address) => address.verification?.status === 'verified')
+    .map((address) => address.emailAddress.toLowerCase())
+  if (!verifiedEmails.includes(invitation.email)) {
+    return { error: `This invitation was sent to ${invitation.email}. Sign in with that address to accept it.` }
+  }
+
+  // Existing members keep their current role
+  const { error } = await serviceClient
+    .from('project_members')
+    .upsert({
+      project_id: invitation.project_id,
+      user_id: userId,
+      role: invitation.role,
+      invited_by: invitation.invited_by,
+    }, { onConflict: 'project_id,user_id', ignoreDuplicates: true })
+
+  if (error) {
+    return { error: error.message }
+  }
+
+  await serviceClient
+    .from('project_invitations')
+    .update({ accepted_by: userId, accepted_at: new Date().toISOString() })
+    .eq('id', invitation.id)
+
+  revalidatePath('/dashboard')
+  redirect(`/dashboard/${invitation.project_id}`)
+}
@@ -1,10 +1,22 @@
 import { auth } from "@clerk/nextjs/server";
 import { redirect } from "next/navigation";
 import { createClient } from "@/lib/supabase/server";
+import { getProjectAccess, hasProjectRole } from "@/lib/projects/access";
 import { UploadZone } from "@/components/upload-zone";
+import { IngestionStatusPoller } from "@/components/ingestion-status-poller";
+import { ProjectModelSettings } from "@/components/project-model-settings";
+import { resolveModels } from "@/lib/llm/models";
+import { ProjectUsage } from "@/components/project-usage";
+import { getUsageTotals } from "@/lib/llm/usage";
+import { RetrySourceButton } from "@/components/retry-source-button";
+import { SourceSearch } from "@/components/source-search";
+import { ProjectChat } from "@/components/project-chat";
+import { ProjectMembers } from "@/components/project-members";
+import type { IngestionErrorDetails } from "@/lib/ingestion/errors";
+import { PLACEHOLDER_SOURCE_TYPE } from "@/lib/synthesis/import";
 import { ThemeToggle } from "@/components/theme-toggle";
 import { UserButton } from "@clerk/nextjs";
-import { ArrowLeft, Folder, Table, Brain } from "lucide-react";
+import { ArrowLeft, Archive, Folder, Table, Brain, Users, Share2, Settings } from "lucide-react";
 import Link from "next/link";
 import { Button } from "@/components/ui/button";
 
@@ -20,27 +32,34 @@ export default async function ProjectPage({ params }: ProjectPageProps) {
   const token = await getToken();
   const supabase = await createClient(token);
 
-  // Fetch project details
-  const { data: project, error } = await supabase
-    .from("projects")
-    .select("*")
-    .eq("id", projectId)
-    .eq("user_id", userId)
-    .single();
-
-  if (error || !project) {
+  // Fetch project details and the caller's role
+  const access = await getProjectAccess(supabase, projectId, userId);
+  if (!access) {
     redirect("/dashboard");
   }
+  const { project, role } = access;
+  const canEdit = hasProjectRole(role, "editor");
 
   // Fetch data sources for this project
-  const { data: dataSources } = await supabase
+  const { data: allSources } = await supabase
     .from("data_sources")
     .select("*")
     .eq("project_id", projectId)
     .order("created_at", { ascending: false });
 
+  // Rows imported from a spreadsheet only live in the synthesis matrix
+  const dataSources = allSources?.filter((s) => s.type !== PLACEHOLDER_SOURCE_TYPE);
+
+  const usage = (await getUsageTotals(supabase, [projectId])).get(projectId)!;
+
+  const hasSourcesInFlight = dataSources?.some(
+    (s) => s.status === "pending" || s.status === "processing"
+  ) ?? false;
+  const hasProcessedSources = dataSources?.some((s) => s.status === "processed") ?? false;
+
   return (
     <div className="min-h-screen bg-background">
+      <IngestionStatusPoller active={hasSourcesInFlight} />
       {/* Header */}
       <header className="border-b border-border bg-card/50 backdrop-blur-xl sticky top-0 z-10">
         <div className="mx-auto flex h-16 max-w-7xl items-center justify-between px-4 sm:px-6 lg:px-8">
@@ -68,7 +87,37 @@ export default async function ProjectPage({ params }: ProjectPageProps) {
             </div>
           </div>
           <div className="flex items-center gap-4">
-            {(dataSources?.length || 0) > 0 && (
+            <ProjectUsage
+              projectId={projectId}
+              usage={usage}
+              spendingCap={project.spending_cap}
+              canChangeCap={role === "owner"}
+            />
+            {role === "owner" && (
+              <ProjectModelSettings
+                projectId={projectId}
+                provider={process.env.LLM_PROVIDER || "openai"}
+                defaults={resolveModels()}
+                settings={project.model_settings}
+              />
+            )}
+            {hasProcessedSources && (
+              <Link href={`/dashboard/${projectId}/entities`}>
+                <Button variant="outline" className="gap-2">
+                  <Users className="h-4 w-4" />
+                  Entities
+                </Button>
+              </Link>
+            )}
+            {hasProcessedSources && (
+              <Link href={`/dashboard/${projectId}/graph`}>
+                <Button variant="outline" className="gap-2">
+                  <Share2 className="h-4 w-4" />
+                  Graph
+                </Button>
+              </Link>
+            )}
+            {(allSources?.length || 0) > 0 && (
               <Link href={`/dashboard/${projectId}/synthesis`}>
                 <Button variant="outline" className="gap-2">
                   <Table className="h-4 w-4" />
@@ -76,6 +125,17 @@ export default async function ProjectPage({ params }: ProjectPageProps) {
                 </Button>
               </Link>
             )}
+            <ProjectMembers projectId={projectId} role={role} />
+            <a href={`/api/projects/${projectId}/archive`} download title="Download project archive">
+              <Button variant="outline" size="icon">
+                <Archive className="h-4 w-4" />
+              </Button>
+            </a>
+            <Link href={`/dashboard/${projectId}/settings`} title="Project settings">
+              <Button variant="outline" size="icon">
+                <Settings className="h-4 w-4" />
+              </Button>
+            </Link>
             <ThemeToggle />
             <UserButton />
           </div>
@@ -83,16 +143,58 @@ export default async function ProjectPage({ params }: ProjectPageProps) {
       </header>
 
       <main className="mx-auto max-w-7xl px-4 py-8 sm:px-6 lg:px-8">
-        {/* Upload Section */}
-        <section className="mb-12">
-          <div className="mb-6">
-            <h2 className="text-2xl font-bold">Add Sources</h2>
-            <p className="text-sm text-muted-foreground mt-1">
-              Upload documents, paste URLs, or add audio files to your project
-            </p>
+        {project.archived_at && (
+          <div className="mb-8 rounded-lg border border-amber-500/50 bg-amber-500/10 px-4 py-3 text-sm">
+            This project was archived on {new Date(project.archived_at).toLocaleDateString()}.
+            {role === "owner" && (
+              <>
+                {" "}
+                <Link href={`/dashboard/${projectId}/settings`} className="font-medium underline">
+                  Unarchive it in settings
+                </Link>
+              </>
+            )}
           </div>
-          <UploadZone projectId={projectId} />
-        </section>
+        )}
+
+        {/* Upload Section */}
+        {canEdit && (
+          <section className="mb-12">
+            <div className="mb-6">
+              <h2 className="text-2xl font-bold">Add Sources</h2>
+              <p className="text-sm text-muted-foreground mt-1">
+                Upload documents, paste URLs, or add audio files to your project
+              </p>
+            </div>
+            <UploadZone projectId={projectId} />
+          </section>
+        )}
+
+        {/* Search Section */}
+        {hasProcessedSources && (
+          <section className="mb-12">
+            <div className="mb-6">
+              <h2 className="text-2xl font-bold">Search Sources</h2>
+              <p className="text-sm text-muted-foreground mt-1">
+                Find which document said something, ranked by meaning rather than exact words
+              </p>
+            </div>
+            <SourceSearch projectId={projectId} />
+          </section>
+        )}
+
+        {/* Chat Section */}
+        {hasProcessedSources && (
+          <section className="mb-12">
+            <div className="mb-6">
+              <h2 className="text-2xl font-bold">Ask Your Sources</h2>
+              <p className="text-sm text-muted-foreground mt-1">
+                Answers come only from this project&apos;s sources, with citations you can check
+              </p>
+            </div>
+            <ProjectChat projectId={projectId} />
+          </section>
+        )}
 
         {/* Data Sources Section */}
         <section>
@@ -118,7 +220,9 @@ export default async function ProjectPage({ params }: ProjectPageProps) {
               <Folder className="h-12 w-12 text-muted-foreground mb-4" />
               <h3 className="text-lg font-semibold mb-2">No sources yet</h3>
               <p className="text-sm text-muted-foreground max-w-sm">
-                Upload your first document or add a URL to get started
+                {canEdit
+                  ? "Upload your first document or add a URL to get started"
+                  : "An editor has not added any sources yet"}
               </p>
             </div>
           ) : (
@@ -145,7 +249,12 @@ export default async function ProjectPage({ params }: ProjectPageProps) {
                     {dataSources.map((source) => (
                       <tr key={source.id} className="hover:bg-muted/50 transition-colors">
                         <td className="px-6 py-4 whitespace-nowrap">
-                          <div className="text-sm font-medium">{source.name}</div>
+                          <Link
+                            href={`/dashboard/${projectId}/sources/${source.id}`}
+                            className="text-sm font-medium hover:underline"
+                          >
+                            {source.name}
+                          </Link>
                         </td>
                         <td className="px-6 py-4 whitespace-nowrap">
                           <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-primary/10 text-primary">
@@ -166,6 +275,17 @@ export default async function ProjectPage({ params }: ProjectPageProps) {
                           >
                             {source.status}
                           </span>
+                          {source.error_details && (
+                            <SourceErrorDetails
+                              details={source.error_details as IngestionErrorDetails}
+                              retrying={source.status !== "failed"}
+                            />
+                          )}
+                          {canEdit && source.status === "failed" && (
+                            <div className="mt-2">
+                              <RetrySourceButton projectId={projectId} dataSourceId={source.id} />
+                            </div>
+                          )}
                         </td>
                         <td className="px-6 py-4 whitespace-nowrap text-sm text-muted-foreground">
                           {new Date(source.created_at).toLocaleDateString()}
@@ -182,3 +302,24 @@ export default async function ProjectPage({ params }: ProjectPageProps) {
     </div>
   );
 }
+
+function SourceErrorDetails({
+  details,
+  retrying,
+}: {
+  details: IngestionErrorDetails;
+  retrying: boolean;
+}) {
+  return (
+    <div className="mt-1 max-w-xs whitespace-normal text-xs text-muted-foreground">
+      <span className="font-medium text-red-600 dark:text-red-400">
+        {retrying ? "Retrying after" : "Failed during"} {details.stage}:
+      </span>{" "}
+      {details.message}
+      <div className="mt-0.5">
+        {new Date(details.occurredAt).toLocaleString()}
+        {details.retryCount > 0 && ` · ${details.retryCount} ${details.retryCount === 1 ? "retry" : "retries"}`}
+      </div>
+    </div>
+  );
+}
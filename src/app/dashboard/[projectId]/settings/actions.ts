@@ -0,0 +1,249 @@
+'use server'
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { createClient } from '@/lib/supabase/server'
+import { createServiceClient } from '@/lib/supabase/service'
+import { getProjectAccess, hasProjectRole, insufficientRoleMessage } from '@/lib/projects/access'
+import { exportProjectArchive, importProjectArchive } from '@/lib/archive'
+import { supabaseArchiveDatabase, supabaseArchiveStorage } from '@/lib/archive/supabase'
+import { DOCUMENTS_BUCKET, isProjectStoragePath } from '@/lib/storage'
+import { selectAllRows } from '@/lib/supabase/paging'
+import { revalidatePath } from 'next/cache'
+import { redirect } from 'next/navigation'
+import { auth } from '@clerk/nextjs/server'
+
+// Paths per storage remove request
+const REMOVE_BATCH_SIZE = 100
+
+export async function updateProject(projectId: string, formData: FormData) {
+  const { userId, getToken } = await auth()
+  if (!userId) redirect('/sign-in')
+
+  const name = (formData.get('name') as string | null)?.trim()
+  const description = (formData.get('description') as string | null)?.trim()
+
+  if (!name) {
+    return { error: 'Project name is required' }
+  }
+
+  const token = await getToken()
+  const supabase = await createClient(token)
+
+  // Verify project access
+  const access = await getProjectAccess(supabase, projectId, userId)
+  if (!access) {
+    return { error: 'Project not found' }
+  }
+  if (!hasProjectRole(access.role, 'owner')) {
+    return { error: insufficientRoleMessage('owner') }
+  }
+
+  const { error } = await supabase
+    .from('projects')
+    .update({
+      name,
+      description: description || null,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', projectId)
+
+  if (error) {
+    return { error: error.message }
+  }
+
+  revalidatePath(`/dashboard/${projectId}`)
+  revalidatePath('/dashboard')
+  return { success: true }
+}
+
+// Archived projects are listed apart on the dashboard; nothing else changes
+export async function setProjectArchived(projectId: string, archived: boolean) {
+  const { userId, getToken } = await auth()
+  if (!userId) redirect('/sign-in')
+
+  const token = await getToken()
+  const supabase = await createClient(token)
+
+  // Verify project access
+  const access = await getProjectAccess(supabase, projectId, userId)
+  if (!access) {
+    return { error: 'Project not found' }
+  }
+  if (!hasProjectRole(access.role, 'owner')) {
+    return { error: insufficientRoleMessage('owner') }
+  }
+
+  const now = new Date().toISOString()
+  const { error } = await supabase
+    .from('projects')
+    .update({ archived_at: archived ? now : null, updated_at: now })
+    .eq('id', projectId)
+
+  if (error) {
+    return { error: error.message }
+  }
+
+  revalidatePath(`/dashboard/${projectId}`)
+  revalidatePath('/dashboard')
+  return { success: true }
+}
+
+// Stored files of the project's sources. Editors' uploads sit under their
+// own user folder, so the paths come from the rows rather than a prefix.
+// Editors can write those rows too, and removal uses the service role, so
+// only paths inside this project's folders are kept.
+async function getStoragePaths(supabase: SupabaseClient, projectId: string): Promise<string[]> {
+  const sources = await selectAllRows<{ content_url: string | null; metadata: Record<string, unknown> | null }>(
+    'sources',
+    () => supabase
+      .from('data_sources')
+      .select('content_url, metadata')
+      .eq('project_id', projectId)
+      .order('id', { ascending: true })
+  )
+
+  const paths = new Set<string>()
+  for (const source of sources) {
+    for (const path of [source.metadata?.storagePath, source.content_url]) {
+      if (isProjectStoragePath(path, projectId)) paths.add(path)
+    }
+  }
+  return [...paths]
+}
+
+/**
+ * Deletes the project and everything in it. The database cascade covers the
+ * rows; the uploaded files are removed from the documents bucket afterwards,
+ * so a failure there leaves orphaned files rather than a half-deleted
+ * project. `confirmation` must be the project's name.
+ */
+export async function deleteProject(projectId: string, confirmation: string) {
+  const { userId, getToken } = await auth()
+  if (!userId) redirect('/sign-in')
+
+  const token = await getToken()
+  const supabase = await createClient(token)
+
+  // Verify project access
+  const access = await getProjectAccess(supabase, projectId, userId)
+  if (!access) {
+    return { error: 'Project not found' }
+  }
+  if (!hasProjectRole(access.role, 'owner')) {
+    return { error: insufficientRoleMessage('owner') }
+  }
+  if (confirmation.trim() !== access.project.name) {
+    return { error: 'Type the project name to confirm' }
+  }
+
+  let paths: string[]
+  try {
+    paths = await getStoragePaths(supabase, projectId)
+  } catch (error) {
+    return { error: error instanceof Error ? error.message : 'Failed to list stored files' }
+  }
+
+  const { error } = await supabase
+    .from('projects')
+    .delete()
+    .eq('id', projectId)
+
+  if (error) {
+    return { error: error.message }
+  }
+
+  // The bucket is private, so removal needs the service role
+  const storage = createServiceClient().storage.from(DOCUMENTS_BUCKET)
+  for (let i = 0; i < paths.length; i += REMOVE_BATCH_SIZE) {
+    const { error: removeError } = await storage.remove(paths.slice(i, i + REMOVE_BATCH_SIZE))
+    if (removeError) {
+      console.error(`Failed to remove stored files of deleted project ${projectId}:`, removeError)
+    }
+  }
+
+  revalidatePath('/dashboard')
+  redirect('/dashboard')
+}
+
+/**
+ * A new project owned by the caller with the same name (marked as a copy),
+ * settings and matrix parameters. With `includeSources` the sources come too,
+ * with their files, extracted text, entities and matrix values, by way of a
+ * project archive. Any member may duplicate, as any member may export.
+ */
+export async function duplicateProject(projectId: string, { includeSources = false }: { includeSources?: boolean } = {}) {
+  const { userId, getToken } = await auth()
+  if (!userId) redirect('/sign-in')
+
+  const token = await getToken()
+  const supabase = await createClient(token)
+
+  // Verify project access
+  const access = await getProjectAccess(supabase, projectId, userId)
+  if (!access) {
+    return { error: 'Project not found' }
+  }
+
+  const { project } = access
+  const name = `${project.name} (copy)`
+  let newProjectId: string
+
+  if (includeSources) {
+    const db = supabaseArchiveDatabase(supabase)
+    const storage = supabaseArchiveStorage(createServiceClient())
+
+    try {
+      // Sources whose file is missing are copied without it, as in the original
+      const { data } = await exportProjectArchive(db, storage, projectId)
+      newProjectId = await importProjectArchive(db, storage, data, { userId })
+    } catch (error) {
+      return { error: error instanceof Error ? error.message : 'Failed to duplicate project' }
+    }
+
+    const { error } = await supabase
+      .from('projects')
+      .update({ name, archived_at: null })
+      .eq('id', newProjectId)
+
+    if (error) {
+      return { error: error.message }
+    }
+  } else {
+    const { data: copy, error } = await supabase
+      .from('projects')
+      .insert({
+        name,
+        description: project.description,
+        model_settings: project.model_settings,
+        spending_cap: project.spending_cap,
+        user_id: userId,
+      })
+      .select('id')
+      .single()
+
+    if (error || !copy) {
+      return { error: error?.message || 'Failed to duplicate project' }
+    }
+    newProjectId = copy.id
+
+    const { data: parameters, error: parametersError } = await supabase
+      .from('synthesis_parameters')
+      .select('name, type, description, is_system, display_order')
+      .eq('project_id', projectId)
+      .order('display_order', { ascending: true })
+
+    const { error: insertError } = parametersError || !parameters?.length
+      ? { error: parametersError }
+      : await supabase
+          .from('synthesis_parameters')
+          .insert(parameters.map((parameter) => ({ ...parameter, project_id: newProjectId })))
+
+    if (insertError) {
+      await supabase.from('projects').delete().eq('id', newProjectId)
+      return { error: insertError.message }
+    }
+  }
+
+  revalidatePath('/dashboard')
+  return { success: true, projectId: newProjectId }
+}
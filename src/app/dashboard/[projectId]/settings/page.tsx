@@ -0,0 +1,126 @@
+import { auth } from "@clerk/nextjs/server";
+import { redirect } from "next/navigation";
+import { createClient } from "@/lib/supabase/server";
+import { getProjectAccess } from "@/lib/projects/access";
+import {
+  ArchiveProjectButton,
+  DeleteProjectForm,
+  DuplicateProjectForm,
+  ProjectDetailsForm,
+} from "@/components/project-settings";
+import { ThemeToggle } from "@/components/theme-toggle";
+import { UserButton } from "@clerk/nextjs";
+import { ArrowLeft, Settings } from "lucide-react";
+import Link from "next/link";
+
+interface ProjectSettingsPageProps {
+  params: Promise<{ projectId: string }>;
+}
+
+// Duplicating with sources copies every file and row in the project
+export const maxDuration = 300;
+
+export default async function ProjectSettingsPage({ params }: ProjectSettingsPageProps) {
+  const { userId, getToken } = await auth();
+  if (!userId) redirect("/sign-in");
+
+  const { projectId } = await params;
+  const token = await getToken();
+  const supabase = await createClient(token);
+
+  // Fetch project details and the caller's role
+  const access = await getProjectAccess(supabase, projectId, userId);
+  if (!access) {
+    redirect("/dashboard");
+  }
+  const { project, role } = access;
+  const isOwner = role === "owner";
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <header className="border-b border-border bg-card/50 backdrop-blur-xl sticky top-0 z-10">
+        <div className="mx-auto flex h-16 max-w-7xl items-center justify-between px-4 sm:px-6 lg:px-8">
+          <div className="flex items-center gap-4">
+            <Link
+              href={`/dashboard/${projectId}`}
+              className="flex items-center gap-2 text-sm text-muted-foreground hover:text-foreground transition-colors"
+            >
+              <ArrowLeft className="h-4 w-4" />
+              Back to Project
+            </Link>
+            <div className="h-6 w-px bg-border" />
+            <div className="flex items-center gap-2">
+              <div className="rounded-lg bg-gradient-to-br from-slate-500 to-slate-700 p-2">
+                <Settings className="h-4 w-4 text-white" />
+              </div>
+              <div>
+                <h1 className="text-lg font-semibold">Settings</h1>
+                <p className="text-xs text-muted-foreground">
+                  {project.name}
+                </p>
+              </div>
+            </div>
+          </div>
+          <div className="flex items-center gap-4">
+            <ThemeToggle />
+            <UserButton />
+          </div>
+        </div>
+      </header>
+
+      <main className="mx-auto max-w-3xl space-y-8 px-4 py-8 sm:px-6 lg:px-8">
+        {/* Details */}
+        {isOwner && (
+          <section className="rounded-xl border border-border bg-card p-6">
+            <h2 className="text-lg font-semibold">Details</h2>
+            <p className="mt-1 mb-6 text-sm text-muted-foreground">
+              The name and description everyone on the project sees
+            </p>
+            <ProjectDetailsForm
+              projectId={projectId}
+              name={project.name}
+              description={project.description}
+            />
+          </section>
+        )}
+
+        {/* Duplicate */}
+        <section className="rounded-xl border border-border bg-card p-6">
+          <h2 className="text-lg font-semibold">Duplicate</h2>
+          <p className="mt-1 mb-6 text-sm text-muted-foreground">
+            Start a new project of your own with the same settings and synthesis parameters
+          </p>
+          <DuplicateProjectForm projectId={projectId} />
+        </section>
+
+        {/* Archive */}
+        {isOwner && (
+          <section className="rounded-xl border border-border bg-card p-6">
+            <h2 className="text-lg font-semibold">
+              {project.archived_at ? "Archived" : "Archive"}
+            </h2>
+            <p className="mt-1 mb-6 text-sm text-muted-foreground">
+              {project.archived_at
+                ? `Archived on ${new Date(project.archived_at).toLocaleDateString()}. It is listed under Archived on the dashboard for everyone on the project.`
+                : "Moves the project to the Archived list on the dashboard for everyone on the project. Nothing is deleted, and it can be unarchived at any time."}
+            </p>
+            <ArchiveProjectButton projectId={projectId} archived={!!project.archived_at} />
+          </section>
+        )}
+
+        {/* Delete */}
+        {isOwner && (
+          <section className="rounded-xl border border-red-500/50 bg-card p-6">
+            <h2 className="text-lg font-semibold text-red-600">Delete</h2>
+            <p className="mt-1 mb-6 text-sm text-muted-foreground">
+              Permanently deletes the project with all of its sources, uploaded files, entities,
+              synthesis data and conversations, for everyone on it. This cannot be undone.
+            </p>
+            <DeleteProjectForm projectId={projectId} name={project.name} />
+          </section>
+        )}
+      </main>
+    </div>
+  );
+}
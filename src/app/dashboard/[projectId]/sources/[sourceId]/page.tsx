@@ -0,0 +1,196 @@
+import { auth } from "@clerk/nextjs/server";
+import { redirect } from "next/navigation";
+import { createClient } from "@/lib/supabase/server";
+import { getProjectAccess } from "@/lib/projects/access";
+import { ThemeToggle } from "@/components/theme-toggle";
+import { UserButton } from "@clerk/nextjs";
+import { ArrowLeft, FileText, ExternalLink } from "lucide-react";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import { SummaryDrilldown } from "@/components/summary-drilldown";
+import { isWebUrl } from "@/lib/storage";
+
+interface SourcePageProps {
+  params: Promise<{ projectId: string; sourceId: string }>;
+}
+
+interface SourceMetadata {
+  size?: number;
+  type?: string;
+  titles?: string[];
+  wordCount?: number;
+  author?: string;
+  publishedTime?: string;
+  description?: string;
+  keywords?: string;
+  chunkCount?: number;
+  elementCount?: number;
+  transcribed?: boolean;
+}
+
+export default async function SourcePage({ params }: SourcePageProps) {
+  const { userId, getToken } = await auth();
+  if (!userId) redirect("/sign-in");
+
+  const { projectId, sourceId } = await params;
+  const token = await getToken();
+  const supabase = await createClient(token);
+
+  // Fetch project details
+  const access = await getProjectAccess(supabase, projectId, userId);
+  if (!access) {
+    redirect("/dashboard");
+  }
+  const { project } = access;
+
+  const { data: source } = await supabase
+    .from("data_sources")
+    .select("*")
+    .eq("id", sourceId)
+    .eq("project_id", projectId)
+    .single();
+
+  if (!source) {
+    redirect(`/dashboard/${projectId}`);
+  }
+
+  const { data: summaries } = await supabase
+    .from("summaries")
+    .select("id, parent_id, level, content")
+    .eq("data_source_id", sourceId);
+
+  const metadata = (source.metadata || {}) as SourceMetadata;
+  const titles = (metadata.titles || []).filter(Boolean).slice(0, 8);
+
+  const details: Array<[string, string | number | undefined]> = [
+    ["Type", source.type],
+    ["Status", source.status],
+    ["Added", new Date(source.created_at).toLocaleDateString()],
+    ["Author", metadata.author],
+    ["Published", metadata.publishedTime ? formatDate(metadata.publishedTime) : undefined],
+    ["Word count", metadata.wordCount?.toLocaleString()],
+    ["File size", metadata.size ? `${(metadata.size / 1024 / 1024).toFixed(2)} MB` : undefined],
+    ["Format", metadata.type],
+    ["Passages", metadata.chunkCount],
+    ["Transcribed", metadata.transcribed ? "Yes" : undefined],
+  ];
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <header className="border-b border-border bg-card/50 backdrop-blur-xl sticky top-0 z-10">
+        <div className="mx-auto flex h-16 max-w-7xl items-center justify-between px-4 sm:px-6 lg:px-8">
+          <div className="flex items-center gap-4 min-w-0">
+            <Link
+              href={`/dashboard/${projectId}`}
+              className="flex items-center gap-2 text-sm text-muted-foreground hover:text-foreground transition-colors flex-shrink-0"
+            >
+              <ArrowLeft className="h-4 w-4" />
+              Back to Project
+            </Link>
+            <div className="h-6 w-px bg-border" />
+            <div className="flex items-center gap-2 min-w-0">
+              <div className="rounded-lg bg-gradient-to-br from-blue-500 to-purple-600 p-2">
+                <FileText className="h-4 w-4 text-white" />
+              </div>
+              <div className="min-w-0">
+                <h1 className="text-lg font-semibold truncate">{source.name}</h1>
+                <p className="text-xs text-muted-foreground">
+                  {project.name}
+                </p>
+              </div>
+            </div>
+          </div>
+          <div className="flex items-center gap-4">
+            {/* Placeholder sources from a spreadsheet import may have no original */}
+            {source.content_url && (
+              <a
+                href={isWebUrl(source.content_url) ? source.content_url : `/api/projects/${projectId}/sources/${source.id}/file`}
+                target="_blank"
+                rel="noopener noreferrer"
+              >
+                <Button variant="outline" className="gap-2">
+                  <ExternalLink className="h-4 w-4" />
+                  Open Original
+                </Button>
+              </a>
+            )}
+            <ThemeToggle />
+            <UserButton />
+          </div>
+        </div>
+      </header>
+
+      <main className="mx-auto max-w-7xl px-4 py-8 sm:px-6 lg:px-8">
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+          {/* Summaries */}
+          <section className="lg:col-span-2">
+            <div className="mb-6">
+              <h2 className="text-2xl font-bold">Summary</h2>
+              <p className="text-sm text-muted-foreground mt-1">
+                Start with the executive summary and drill down for more detail
+              </p>
+            </div>
+            <SummaryDrilldown summaries={summaries || []} />
+          </section>
+
+          {/* Metadata */}
+          <aside className="space-y-6">
+            <div className="rounded-lg border border-border bg-card p-6">
+              <h3 className="font-semibold mb-4">Details</h3>
+              <dl className="space-y-3">
+                {details
+                  .filter(([, value]) => value !== undefined && value !== "")
+                  .map(([label, value]) => (
+                    <div key={label} className="flex justify-between gap-4 text-sm">
+                      <dt className="text-muted-foreground">{label}</dt>
+                      <dd className="text-right break-words min-w-0">{value}</dd>
+                    </div>
+                  ))}
+              </dl>
+            </div>
+
+            {metadata.description && (
+              <div className="rounded-lg border border-border bg-card p-6">
+                <h3 className="font-semibold mb-2">Description</h3>
+                <p className="text-sm text-muted-foreground">{metadata.description}</p>
+              </div>
+            )}
+
+            {titles.length > 0 && (
+              <div className="rounded-lg border border-border bg-card p-6">
+                <h3 className="font-semibold mb-2">Titles</h3>
+                <ul className="space-y-1 text-sm text-muted-foreground list-disc pl-4">
+                  {titles.map((title, index) => (
+                    <li key={index}>{title}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {metadata.keywords && (
+              <div className="rounded-lg border border-border bg-card p-6">
+                <h3 className="font-semibold mb-2">Keywords</h3>
+                <div className="flex flex-wrap gap-2">
+                  {metadata.keywords.split(",").map((keyword) => keyword.trim()).filter(Boolean).map((keyword) => (
+                    <span
+                      key={keyword}
+                      className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-primary/10 text-primary"
+                    >
+                      {keyword}
+                    </span>
+                  ))}
+                </div>
+              </div>
+            )}
+          </aside>
+        </div>
+      </main>
+    </div>
+  );
+}
+
+function formatDate(value: string): string {
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? value : date.toLocaleDateString();
+}
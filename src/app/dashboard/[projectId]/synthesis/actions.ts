@@ -0,0 +1,256 @@
+'use server'
+
+import { createClient } from '@/lib/supabase/server'
+import { getProjectAccess, hasProjectRole, insufficientRoleMessage } from '@/lib/projects/access'
+import { revalidatePath } from 'next/cache'
+import { redirect } from 'next/navigation'
+import { auth } from '@clerk/nextjs/server'
+import { PARAMETER_TYPES } from '@/lib/synthesis/schemas'
+import { normalizeParameterName } from '@/lib/synthesis/suggest'
+import { getActiveRun } from '@/lib/synthesis/runs'
+
+interface SaveSynthesisValueInput {
+  projectId: string
+  parameterId: string
+  dataSourceId: string
+  value: string
+}
+
+// Saves a manual edit to one cell of the synthesis matrix. A human-entered
+// value is verified by definition; the AI's extracted_value is left intact.
+export async function saveSynthesisValue({ projectId, parameterId, dataSourceId, value }: SaveSynthesisValueInput) {
+  const { userId, getToken } = await auth()
+  if (!userId) redirect('/sign-in')
+
+  const token = await getToken()
+  const supabase = await createClient(token)
+
+  // Verify project access
+  const access = await getProjectAccess(supabase, projectId, userId)
+  if (!access) {
+    return { error: 'Project not found' }
+  }
+  if (!hasProjectRole(access.role, 'editor')) {
+    return { error: insufficientRoleMessage('editor') }
+  }
+
+  // Both ends of the cell must belong to this project
+  const [{ data: parameter }, { data: dataSource }] = await Promise.all([
+    supabase
+      .from('synthesis_parameters')
+      .select('id')
+      .eq('id', parameterId)
+      .eq('project_id', projectId)
+      .single(),
+    supabase
+      .from('data_sources')
+      .select('id')
+      .eq('id', dataSourceId)
+      .eq('project_id', projectId)
+      .single(),
+  ])
+
+  if (!parameter || !dataSource) {
+    return { error: 'Cell not found in this project' }
+  }
+
+  // Clearing a cell drops the human value. The extracted value shows again,
+  // so the cell must go back to unverified rather than vouch for it.
+  const trimmed = value.trim()
+  const now = new Date().toISOString()
+  const { data: saved, error } = await supabase
+    .from('synthesis_values')
+    .upsert({
+      parameter_id: parameterId,
+      data_source_id: dataSourceId,
+      value: trimmed || null,
+      is_verified: !!trimmed,
+      edited_by: userId,
+      edited_at: now,
+      updated_at: now,
+    }, { onConflict: 'parameter_id,data_source_id' })
+    .select()
+    .single()
+
+  if (error) {
+    return { error: error.message }
+  }
+
+  revalidatePath(`/dashboard/${projectId}/synthesis`)
+  return { success: true, value: saved }
+}
+
+interface CreateSynthesisParameterInput {
+  projectId: string
+  name: string
+  type: string
+  description?: string
+}
+
+// Adds a user-defined column to the matrix. Filling it is a separate call to
+// /api/synthesis/extract so the UI can show progress while it runs.
+export async function createSynthesisParameter({ projectId, name, type, description }: CreateSynthesisParameterInput) {
+  const { userId, getToken } = await auth()
+  if (!userId) redirect('/sign-in')
+
+  const token = await getToken()
+  const supabase = await createClient(token)
+
+  // Verify project access
+  const access = await getProjectAccess(supabase, projectId, userId)
+  if (!access) {
+    return { error: 'Project not found' }
+  }
+  if (!hasProjectRole(access.role, 'editor')) {
+    return { error: insufficientRoleMessage('editor') }
+  }
+
+  // /api/synthesis/extract refuses to start while a run is active, which
+  // would leave the new column empty
+  if (await getActiveRun(supabase, projectId)) {
+    return { error: 'Wait for the running analysis to finish before adding a parameter' }
+  }
+
+  const result = await insertParameter(supabase, projectId, { name, type, description, isSystem: false })
+  if ('error' in result) {
+    return { error: result.error }
+  }
+
+  revalidatePath(`/dashboard/${projectId}/synthesis`)
+  return { success: true, parameter: result.parameter }
+}
+
+// Turns an AI proposal into a real column. Like a manual parameter, the
+// caller then runs extraction to fill it.
+export async function acceptParameterProposal(projectId: string, proposalId: string) {
+  const { userId, getToken } = await auth()
+  if (!userId) redirect('/sign-in')
+
+  const token = await getToken()
+  const supabase = await createClient(token)
+
+  // Verify project access
+  const access = await getProjectAccess(supabase, projectId, userId)
+  if (!access) {
+    return { error: 'Project not found' }
+  }
+  if (!hasProjectRole(access.role, 'editor')) {
+    return { error: insufficientRoleMessage('editor') }
+  }
+
+  const { data: proposal } = await supabase
+    .from('parameter_proposals')
+    .select('*')
+    .eq('id', proposalId)
+    .eq('project_id', projectId)
+    .eq('status', 'pending')
+    .single()
+
+  if (!proposal) {
+    return { error: 'Suggestion not found' }
+  }
+
+  // As for createSynthesisParameter
+  if (await getActiveRun(supabase, projectId)) {
+    return { error: 'Wait for the running analysis to finish before adding a parameter' }
+  }
+
+  const result = await insertParameter(supabase, projectId, {
+    name: proposal.name,
+    type: proposal.type,
+    description: proposal.description,
+    isSystem: true,
+  })
+  if ('error' in result) {
+    return { error: result.error }
+  }
+
+  await supabase
+    .from('parameter_proposals')
+    .update({
+      status: 'accepted',
+      parameter_id: result.parameter.id,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', proposalId)
+
+  revalidatePath(`/dashboard/${projectId}/synthesis`)
+  return { success: true, parameter: result.parameter }
+}
+
+// Rejected proposals are kept so re-analysis does not suggest them again
+export async function rejectParameterProposal(projectId: string, proposalId: string) {
+  const { userId, getToken } = await auth()
+  if (!userId) redirect('/sign-in')
+
+  const token = await getToken()
+  const supabase = await createClient(token)
+
+  // Verify project access
+  const access = await getProjectAccess(supabase, projectId, userId)
+  if (!access) {
+    return { error: 'Project not found' }
+  }
+  if (!hasProjectRole(access.role, 'editor')) {
+    return { error: insufficientRoleMessage('editor') }
+  }
+
+  const { error } = await supabase
+    .from('parameter_proposals')
+    .update({ status: 'rejected', updated_at: new Date().toISOString() })
+    .eq('id', proposalId)
+    .eq('project_id', projectId)
+    .eq('status', 'pending')
+
+  if (error) {
+    return { error: error.message }
+  }
+
+  revalidatePath(`/dashboard/${projectId}/synthesis`)
+  return { success: true }
+}
+
+async function insertParameter(
+  supabase: Awaited<ReturnType<typeof createClient>>,
+  projectId: string,
+  fields: { name: string; type: string; description?: string | null; isSystem: boolean }
+) {
+  const name = fields.name.trim()
+  if (!name) {
+    return { error: 'Parameter name is required' }
+  }
+
+  if (!(PARAMETER_TYPES as readonly string[]).includes(fields.type)) {
+    return { error: 'Invalid parameter type' }
+  }
+
+  const { data: existing } = await supabase
+    .from('synthesis_parameters')
+    .select('name, display_order')
+    .eq('project_id', projectId)
+
+  if (existing?.some((param) => normalizeParameterName(param.name) === normalizeParameterName(name))) {
+    return { error: `A parameter named "${name}" already exists` }
+  }
+
+  const displayOrder = Math.max(-1, ...(existing || []).map((param) => param.display_order ?? 0)) + 1
+
+  const { data: parameter, error } = await supabase
+    .from('synthesis_parameters')
+    .insert({
+      project_id: projectId,
+      name,
+      type: fields.type,
+      description: fields.description?.trim() || null,
+      is_system: fields.isSystem,
+      display_order: displayOrder,
+    })
+    .select()
+    .single()
+
+  if (error) {
+    return { error: error.message }
+  }
+
+  return { parameter }
+}
@@ -1,11 +1,14 @@
 import { auth } from "@clerk/nextjs/server";
 import { redirect } from "next/navigation";
 import { createClient } from "@/lib/supabase/server";
+import { getProjectAccess, hasProjectRole } from "@/lib/projects/access";
 import { ThemeToggle } from "@/components/theme-toggle";
 import { UserButton } from "@clerk/nextjs";
 import { ArrowLeft, Folder, Table, Plus, Brain, TrendingUp } from "lucide-react";
 import Link from "next/link";
 import { SynthesisTable } from "@/components/synthesis-table";
+import { IngestionStatusPoller } from "@/components/ingestion-status-poller";
+import { isRunActive } from "@/lib/synthesis/runs";
 import { TimelineView } from "@/components/timeline-view";
 import { Button } from "@/components/ui/button";
 
@@ -21,17 +24,12 @@ export default async function SynthesisPage({ params }: SynthesisPageProps) {
   const token = await getToken();
   const supabase = await createClient(token);
 
-  // Fetch project details
-  const { data: project, error } = await supabase
-    .from("projects")
-    .select("*")
-    .eq("id", projectId)
-    .eq("user_id", userId)
-    .single();
-
-  if (error || !project) {
+  // Fetch project details and the caller's role
+  const access = await getProjectAccess(supabase, projectId, userId);
+  if (!access) {
     redirect("/dashboard");
   }
+  const { project, role } = access;
 
   // Fetch data sources for this project
   const { data: dataSources } = await supabase
@@ -58,11 +56,34 @@ export default async function SynthesisPage({ params }: SynthesisPageProps) {
     `)
     .eq("parameter.project_id", projectId);
 
+  // Fetch AI suggestions awaiting a decision
+  const { data: parameterProposals } = await supabase
+    .from("parameter_proposals")
+    .select("*")
+    .eq("project_id", projectId)
+    .eq("status", "pending")
+    .order("importance", { ascending: false });
+
+  // Most recent discovery/extraction run, with per-cell progress
+  const { data: latestRun } = await supabase
+    .from("synthesis_runs")
+    .select(`
+      *,
+      items:synthesis_run_items(id, parameter_id, data_source_id, status, error)
+    `)
+    .eq("project_id", projectId)
+    .order("created_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  const runActive = latestRun ? isRunActive(latestRun) : false;
+
   const processedCount = dataSources?.length || 0;
   const parametersCount = synthesisParameters?.length || 0;
 
   return (
     <div className="min-h-screen bg-background">
+      <IngestionStatusPoller active={runActive} intervalMs={3000} />
       {/* Header */}
       <header className="border-b border-border bg-card/50 backdrop-blur-xl sticky top-0 z-10">
         <div className="mx-auto flex h-16 max-w-7xl items-center justify-between px-4 sm:px-6 lg:px-8">
@@ -164,6 +185,10 @@ export default async function SynthesisPage({ params }: SynthesisPageProps) {
             dataSources={dataSources || []}
             synthesisParameters={synthesisParameters || []}
             synthesisValues={synthesisValues || []}
+            parameterProposals={parameterProposals || []}
+            latestRun={latestRun}
+            runActive={runActive}
+            canEdit={hasProjectRole(role, "editor")}
           />
         )}
       </main>
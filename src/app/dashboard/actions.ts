@@ -1,8 +1,16 @@
 'use server'
 
 import { createClient } from '@/lib/supabase/server'
+import { createServiceClient } from '@/lib/supabase/service'
+import { getProjectAccess, hasProjectRole, insufficientRoleMessage } from '@/lib/projects/access'
+import { enqueueIngestionJob } from '@/lib/ingestion/queue'
+import { markSourceFailed, runIngestionWorker } from '@/lib/ingestion/worker'
+import { toIngestionError } from '@/lib/ingestion/errors'
+import { assertWithinSpendingCap, SpendingCapError } from '@/lib/llm'
+import { PROJECT_CONFIGURABLE_TASKS, type ModelSettings } from '@/lib/llm/models'
 import { revalidatePath } from 'next/cache'
 import { redirect } from 'next/navigation'
+import { after } from 'next/server'
 import { auth } from '@clerk/nextjs/server'
 
 export async function getProjects() {
@@ -50,3 +58,148 @@ export async function createProject(formData: FormData) {
   revalidatePath('/dashboard')
   return { success: true }
 }
+
+export async function retryDataSource(projectId: string, dataSourceId: string) {
+  const { userId, getToken } = await auth()
+  if (!userId) redirect('/sign-in')
+
+  const token = await getToken()
+  const supabase = await createClient(token)
+
+  // Verify project access
+  const access = await getProjectAccess(supabase, projectId, userId)
+  if (!access) {
+    return { error: 'Project not found' }
+  }
+  if (!hasProjectRole(access.role, 'editor')) {
+    return { error: insufficientRoleMessage('editor') }
+  }
+
+  const { data: dataSource } = await supabase
+    .from('data_sources')
+    .select('id, status')
+    .eq('id', dataSourceId)
+    .eq('project_id', projectId)
+    .single()
+
+  if (!dataSource) {
+    return { error: 'Data source not found' }
+  }
+
+  if (dataSource.status !== 'failed') {
+    return { error: 'Only failed sources can be retried' }
+  }
+
+  try {
+    await assertWithinSpendingCap(supabase, projectId)
+  } catch (error) {
+    if (error instanceof SpendingCapError) return { error: error.message }
+    throw error
+  }
+
+  // error_details is kept until the new attempt succeeds or fails again
+  const serviceClient = createServiceClient()
+  await serviceClient
+    .from('data_sources')
+    .update({ status: 'pending' })
+    .eq('id', dataSourceId)
+
+  try {
+    await enqueueIngestionJob(serviceClient, dataSourceId)
+  } catch (error) {
+    await markSourceFailed(serviceClient, dataSourceId, toIngestionError(error, 'queue'))
+    return { error: error instanceof Error ? error.message : 'Failed to queue retry' }
+  }
+
+  after(async () => {
+    try {
+      await runIngestionWorker({ maxJobs: 1 })
+    } catch (error) {
+      console.error('Ingestion worker error:', error)
+    }
+  })
+
+  revalidatePath(`/dashboard/${projectId}`)
+  return { success: true }
+}
+
+// Blank entries fall back to the environment defaults
+export async function updateProjectModelSettings(projectId: string, settings: ModelSettings) {
+  const { userId, getToken } = await auth()
+  if (!userId) redirect('/sign-in')
+
+  const modelSettings: ModelSettings = {}
+  for (const task of PROJECT_CONFIGURABLE_TASKS) {
+    const model = settings[task]?.trim()
+    if (model) modelSettings[task] = model
+  }
+
+  const token = await getToken()
+  const supabase = await createClient(token)
+
+  // Verify project access
+  const access = await getProjectAccess(supabase, projectId, userId)
+  if (!access) {
+    return { error: 'Project not found' }
+  }
+  if (!hasProjectRole(access.role, 'owner')) {
+    return { error: insufficientRoleMessage('owner') }
+  }
+
+  const { data: project, error } = await supabase
+    .from('projects')
+    .update({
+      model_settings: Object.keys(modelSettings).length > 0 ? modelSettings : null,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', projectId)
+    .select('id')
+    .single()
+
+  if (error || !project) {
+    return { error: error?.message || 'Project not found' }
+  }
+
+  revalidatePath(`/dashboard/${projectId}`)
+  return { success: true }
+}
+
+// A null cap removes the limit. Usage already recorded still counts.
+export async function updateProjectSpendingCap(projectId: string, cap: number | null) {
+  const { userId, getToken } = await auth()
+  if (!userId) redirect('/sign-in')
+
+  if (cap !== null && (!Number.isFinite(cap) || cap < 0)) {
+    return { error: 'Spending cap must be a positive amount' }
+  }
+
+  const token = await getToken()
+  const supabase = await createClient(token)
+
+  // Verify project access
+  const access = await getProjectAccess(supabase, projectId, userId)
+  if (!access) {
+    return { error: 'Project not found' }
+  }
+  if (!hasProjectRole(access.role, 'owner')) {
+    return { error: insufficientRoleMessage('owner') }
+  }
+
+  const { data: project, error } = await supabase
+    .from('projects')
+    .update({
+      spending_cap: cap,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', projectId)
+    .select('id')
+    .single()
+
+  if (error || !project) {
+    return { error: error?.message || 'Project not found' }
+  }
+
+  revalidatePath(`/dashboard/${projectId}`)
+  revalidatePath('/dashboard')
+  return { success: true }
+}
@@ -7,9 +7,12 @@ import { auth, currentUser } from '@clerk/nextjs/server'
 import { ThemeToggle } from '@/components/theme-toggle'
 import Link from 'next/link'
 import { Button } from '@/components/ui/button'
+import { getUsageTotals } from '@/lib/llm/usage'
+import { formatCost } from '@/lib/llm/pricing'
+import { ImportProjectButton } from '@/components/import-project-button'
 
 export default async function DashboardPage() {
-  const { userId } = await auth()
+  const { userId, getToken } = await auth()
   const user = await currentUser()
 
   if (!userId || !user) {
@@ -17,6 +20,39 @@ export default async function DashboardPage() {
   }
 
   const projects = await getProjects()
+  const supabase = await createClient(await getToken())
+  const usage = await getUsageTotals(supabase, projects.map((project) => project.id))
+  const totalCost = [...usage.values()].reduce((sum, totals) => sum + totals.estimatedCost, 0)
+
+  const activeProjects = projects.filter((project) => !project.archived_at)
+  const archivedProjects = projects.filter((project) => project.archived_at)
+
+  const renderProject = (project: (typeof projects)[number]) => (
+    <Link
+      key={project.id}
+      href={`/dashboard/${project.id}`}
+      className="group relative overflow-hidden rounded-xl border border-border bg-card p-6 transition-all hover:border-primary/50 hover:shadow-lg hover:shadow-primary/10 cursor-pointer"
+    >
+      <div className="absolute inset-0 bg-gradient-to-br from-blue-500/5 to-purple-500/5 opacity-0 transition-opacity group-hover:opacity-100" />
+      <h3 className="relative text-lg font-semibold">
+        {project.name}
+      </h3>
+      <p className="relative mt-2 text-sm text-muted-foreground line-clamp-2">
+        {project.description || 'No description provided'}
+      </p>
+      <div className="relative mt-4 flex items-center gap-2 text-xs text-muted-foreground">
+        <span>Created {new Date(project.created_at).toLocaleDateString()}</span>
+        <span>·</span>
+        <span>{formatCost(usage.get(project.id)?.estimatedCost ?? 0)} spent</span>
+        {project.user_id !== userId && (
+          <>
+            <span>·</span>
+            <span>Shared with you</span>
+          </>
+        )}
+      </div>
+    </Link>
+  )
 
   return (
     <div className="min-h-screen bg-background text-foreground">
@@ -43,14 +79,18 @@ export default async function DashboardPage() {
             <h2 className="text-2xl font-bold tracking-tight">Projects</h2>
             <p className="mt-1 text-sm text-muted-foreground">
               Manage your content generation projects
+              {totalCost > 0 && ` · ${formatCost(totalCost)} spent across all projects`}
             </p>
           </div>
-          <Link href="/dashboard/new">
-            <Button className="gap-2">
-              <Plus className="h-4 w-4" />
-              New Project
-            </Button>
-          </Link>
+          <div className="flex items-center gap-3">
+            <ImportProjectButton />
+            <Link href="/dashboard/new">
+              <Button className="gap-2">
+                <Plus className="h-4 w-4" />
+                New Project
+              </Button>
+            </Link>
+          </div>
         </div>
 
         {/* Project List */}
@@ -71,26 +111,24 @@ export default async function DashboardPage() {
             </Link>
           </div>
         ) : (
-          <div className="grid gap-6 sm:grid-cols-2 lg:grid-cols-3">
-            {projects.map((project) => (
-              <Link
-                key={project.id}
-                href={`/dashboard/${project.id}`}
-                className="group relative overflow-hidden rounded-xl border border-border bg-card p-6 transition-all hover:border-primary/50 hover:shadow-lg hover:shadow-primary/10 cursor-pointer"
-              >
-                <div className="absolute inset-0 bg-gradient-to-br from-blue-500/5 to-purple-500/5 opacity-0 transition-opacity group-hover:opacity-100" />
-                <h3 className="relative text-lg font-semibold">
-                  {project.name}
-                </h3>
-                <p className="relative mt-2 text-sm text-muted-foreground line-clamp-2">
-                  {project.description || 'No description provided'}
-                </p>
-                <div className="relative mt-4 flex items-center gap-2 text-xs text-muted-foreground">
-                  <span>Created {new Date(project.created_at).toLocaleDateString()}</span>
+          <>
+            {activeProjects.length > 0 && (
+              <div className="grid gap-6 sm:grid-cols-2 lg:grid-cols-3">
+                {activeProjects.map(renderProject)}
+              </div>
+            )}
+
+            {archivedProjects.length > 0 && (
+              <details className="mt-10" open={activeProjects.length === 0}>
+                <summary className="cursor-pointer text-sm font-medium text-muted-foreground hover:text-foreground">
+                  Archived ({archivedProjects.length})
+                </summary>
+                <div className="mt-6 grid gap-6 opacity-75 sm:grid-cols-2 lg:grid-cols-3">
+                  {archivedProjects.map(renderProject)}
                 </div>
-              </Link>
-            ))}
-          </div>
+              </details>
+            )}
+          </>
         )}
 
 
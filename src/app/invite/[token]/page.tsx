@@ -0,0 +1,74 @@
+import { auth } from "@clerk/nextjs/server";
+import { redirect } from "next/navigation";
+import { createServiceClient } from "@/lib/supabase/service";
+import { AcceptInvitationButton } from "@/components/accept-invitation-button";
+import { Folder } from "lucide-react";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+
+interface InvitePageProps {
+  params: Promise<{ token: string }>;
+}
+
+export default async function InvitePage({ params }: InvitePageProps) {
+  const { token } = await params;
+  const { userId } = await auth();
+  if (!userId) redirect(`/sign-in?redirect_url=${encodeURIComponent(`/invite/${token}`)}`);
+
+  // The invitee isn't a member yet, so RLS would hide the invitation
+  const serviceClient = createServiceClient();
+  const { data: invitation } = await serviceClient
+    .from("project_invitations")
+    .select("email, role, expires_at, accepted_at, project:projects(id, name)")
+    .eq("token", token)
+    .single();
+
+  const project = invitation?.project as unknown as { id: string; name: string } | null;
+  const { data: membership } = project
+    ? await serviceClient
+        .from("project_members")
+        .select("role")
+        .eq("project_id", project.id)
+        .eq("user_id", userId)
+        .maybeSingle()
+    : { data: null };
+
+  const valid = invitation && project && !invitation.accepted_at && new Date(invitation.expires_at) >= new Date();
+
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-background px-4">
+      <div className="w-full max-w-md rounded-xl border border-border bg-card p-8 text-center">
+        <div className="mx-auto mb-4 w-fit rounded-lg bg-gradient-to-br from-blue-500 to-purple-600 p-3">
+          <Folder className="h-6 w-6 text-white" />
+        </div>
+        {membership && project ? (
+          <>
+            <h1 className="text-xl font-semibold">You&apos;re already on {project.name}</h1>
+            <Link href={`/dashboard/${project.id}`} className="mt-6 inline-block">
+              <Button>Open project</Button>
+            </Link>
+          </>
+        ) : valid ? (
+          <>
+            <h1 className="text-xl font-semibold">Join {project.name}</h1>
+            <p className="mt-2 mb-6 text-sm text-muted-foreground">
+              You&apos;ve been invited as {invitation.role === "editor" ? "an editor" : `a ${invitation.role}`}.
+              The invitation was sent to {invitation.email}.
+            </p>
+            <AcceptInvitationButton token={token} />
+          </>
+        ) : (
+          <>
+            <h1 className="text-xl font-semibold">This invitation is no longer valid</h1>
+            <p className="mt-2 text-sm text-muted-foreground">
+              It may have expired, been revoked or already been used. Ask the project owner for a new one.
+            </p>
+            <Link href="/dashboard" className="mt-6 inline-block">
+              <Button variant="outline">Go to your projects</Button>
+            </Link>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,32 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { Button } from "@/components/ui/button";
+import { acceptInvitation } from "@/app/dashboard/[projectId]/members/actions";
+
+interface AcceptInvitationButtonProps {
+  token: string;
+}
+
+export function AcceptInvitationButton({ token }: AcceptInvitationButtonProps) {
+  const [error, setError] = useState<string | null>(null);
+  const [isPending, startTransition] = useTransition();
+
+  const handleAccept = () => {
+    setError(null);
+    startTransition(async () => {
+      // Redirects to the project on success
+      const result = await acceptInvitation(token);
+      if (result?.error) setError(result.error);
+    });
+  };
+
+  return (
+    <div className="flex flex-col items-center gap-2">
+      <Button onClick={handleAccept} disabled={isPending}>
+        {isPending ? "Joining..." : "Accept invitation"}
+      </Button>
+      {error && <p className="text-sm text-red-600">{error}</p>}
+    </div>
+  );
+}
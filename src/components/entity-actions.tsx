@@ -0,0 +1,162 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { useRouter } from "next/navigation";
+import { Pencil, Split } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger
+} from "@/components/ui/dialog";
+import { renameEntity, splitEntity } from "@/app/dashboard/[projectId]/entities/actions";
+
+interface EntityActionsProps {
+  projectId: string;
+  entity: {
+    id: string;
+    name: string;
+    sources: { id: string; name: string }[];
+  };
+}
+
+export function EntityActions({ projectId, entity }: EntityActionsProps) {
+  return (
+    <div className="flex items-center gap-1">
+      <RenameDialog projectId={projectId} entity={entity} />
+      {entity.sources.length > 1 && <SplitDialog projectId={projectId} entity={entity} />}
+    </div>
+  );
+}
+
+function RenameDialog({ projectId, entity }: EntityActionsProps) {
+  const router = useRouter();
+  const [open, setOpen] = useState(false);
+  const [name, setName] = useState(entity.name);
+  const [error, setError] = useState<string | null>(null);
+  const [isPending, startTransition] = useTransition();
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    startTransition(async () => {
+      const result = await renameEntity(projectId, entity.id, name);
+      if (result?.error) {
+        setError(result.error);
+        return;
+      }
+      setOpen(false);
+      router.refresh();
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="icon-sm" title="Rename">
+          <Pencil className="h-3 w-3" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Rename entity</DialogTitle>
+        </DialogHeader>
+        <form className="space-y-4" onSubmit={handleSubmit}>
+          <div className="space-y-2">
+            <Label htmlFor={`rename-${entity.id}`}>Name</Label>
+            <Input id={`rename-${entity.id}`} value={name} onChange={(e) => setName(e.target.value)} />
+            <p className="text-xs text-muted-foreground">
+              &ldquo;{entity.name}&rdquo; is kept as an alias, so sources that use it still match.
+            </p>
+          </div>
+          {error && <p className="text-sm text-red-600">{error}</p>}
+          <div className="flex justify-end gap-3">
+            <Button type="button" variant="outline" onClick={() => setOpen(false)}>Cancel</Button>
+            <Button type="submit" disabled={isPending || !name.trim()}>
+              {isPending ? "Saving..." : "Rename"}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function SplitDialog({ projectId, entity }: EntityActionsProps) {
+  const router = useRouter();
+  const [open, setOpen] = useState(false);
+  const [name, setName] = useState("");
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [error, setError] = useState<string | null>(null);
+  const [isPending, startTransition] = useTransition();
+
+  const toggle = (id: string) => {
+    const next = new Set(selected);
+    if (next.has(id)) next.delete(id);
+    else next.add(id);
+    setSelected(next);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    startTransition(async () => {
+      const result = await splitEntity(projectId, entity.id, [...selected], name);
+      if (result?.error) {
+        setError(result.error);
+        return;
+      }
+      setOpen(false);
+      setName("");
+      setSelected(new Set());
+      router.refresh();
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="icon-sm" title="Split">
+          <Split className="h-3 w-3" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Split &ldquo;{entity.name}&rdquo;</DialogTitle>
+        </DialogHeader>
+        <form className="space-y-4" onSubmit={handleSubmit}>
+          <div className="space-y-2">
+            <Label>Sources that mean something else</Label>
+            <div className="max-h-64 space-y-1 overflow-y-auto">
+              {entity.sources.map((source) => (
+                <label key={source.id} className="flex items-center gap-2 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={selected.has(source.id)}
+                    onChange={() => toggle(source.id)}
+                  />
+                  {source.name}
+                </label>
+              ))}
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor={`split-${entity.id}`}>Name for the new entity</Label>
+            <Input id={`split-${entity.id}`} value={name} onChange={(e) => setName(e.target.value)} />
+          </div>
+          {error && <p className="text-sm text-red-600">{error}</p>}
+          <div className="flex justify-end gap-3">
+            <Button type="button" variant="outline" onClick={() => setOpen(false)}>Cancel</Button>
+            <Button type="submit" disabled={isPending || !name.trim() || selected.size === 0}>
+              {isPending ? "Splitting..." : "Split"}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,164 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { useRouter } from "next/navigation";
+import { Loader2, Merge, Sparkles, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { mergeEntities } from "@/app/dashboard/[projectId]/entities/actions";
+import type { EntityCluster } from "@/lib/entities/resolve";
+
+interface EntityDuplicateReviewProps {
+  projectId: string;
+}
+
+export function EntityDuplicateReview({ projectId }: EntityDuplicateReviewProps) {
+  const [clusters, setClusters] = useState<EntityCluster[] | null>(null);
+  const [isSearching, setIsSearching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleFind = async () => {
+    setIsSearching(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/projects/${projectId}/entities/duplicates`, { method: "POST" });
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || "Failed to find duplicates");
+      }
+
+      setClusters(result.clusters);
+    } catch (error) {
+      console.error("Entity duplicates error:", error);
+      setError(error instanceof Error ? error.message : "Failed to find duplicates");
+    } finally {
+      setIsSearching(false);
+    }
+  };
+
+  const removeCluster = (cluster: EntityCluster) => {
+    setClusters((current) => current?.filter((c) => c !== cluster) ?? null);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-4">
+        <Button variant="outline" className="gap-2" onClick={handleFind} disabled={isSearching}>
+          {isSearching ? <Loader2 className="h-4 w-4 animate-spin" /> : <Sparkles className="h-4 w-4" />}
+          {isSearching ? "Looking for duplicates..." : "Find duplicates"}
+        </Button>
+        {clusters && (
+          <span className="text-sm text-muted-foreground">
+            {clusters.length === 0 ? "No likely duplicates found" : `${clusters.length} possible duplicate groups`}
+          </span>
+        )}
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {clusters?.map((cluster) => (
+        <ClusterCard
+          key={cluster.members.map((member) => member.id).join(":")}
+          projectId={projectId}
+          cluster={cluster}
+          onDone={() => removeCluster(cluster)}
+        />
+      ))}
+    </div>
+  );
+}
+
+function ClusterCard({ projectId, cluster, onDone }: { projectId: string; cluster: EntityCluster; onDone: () => void }) {
+  const router = useRouter();
+  const [targetId, setTargetId] = useState(cluster.suggestedTargetId);
+  const [selected, setSelected] = useState(() => new Set(cluster.members.map((member) => member.id)));
+  const [error, setError] = useState<string | null>(null);
+  const [isPending, startTransition] = useTransition();
+
+  const toggle = (id: string) => {
+    const next = new Set(selected);
+    if (next.has(id)) next.delete(id);
+    else next.add(id);
+    setSelected(next);
+  };
+
+  const mergedIds = [...selected].filter((id) => id !== targetId);
+
+  const handleMerge = () => {
+    setError(null);
+    startTransition(async () => {
+      const result = await mergeEntities(projectId, targetId, mergedIds);
+      if (result?.error) {
+        setError(result.error);
+        return;
+      }
+      onDone();
+      router.refresh();
+    });
+  };
+
+  return (
+    <Card className="p-4">
+      <div className="mb-3 flex items-center justify-between">
+        <span className="rounded-full bg-muted px-2 py-0.5 text-xs capitalize">{cluster.type}</span>
+        <button
+          className="text-muted-foreground hover:text-foreground"
+          onClick={onDone}
+          title="Not duplicates"
+        >
+          <X className="h-4 w-4" />
+        </button>
+      </div>
+      <table className="w-full text-sm">
+        <thead className="text-xs text-muted-foreground">
+          <tr>
+            <th className="w-16 py-1 text-left font-medium">Merge</th>
+            <th className="w-16 py-1 text-left font-medium">Keep</th>
+            <th className="py-1 text-left font-medium">Name</th>
+            <th className="py-1 text-right font-medium">Sources</th>
+          </tr>
+        </thead>
+        <tbody>
+          {cluster.members.map((member) => (
+            <tr key={member.id}>
+              <td className="py-1">
+                <input
+                  type="checkbox"
+                  checked={selected.has(member.id) || member.id === targetId}
+                  disabled={member.id === targetId}
+                  onChange={() => toggle(member.id)}
+                />
+              </td>
+              <td className="py-1">
+                <input
+                  type="radio"
+                  name={`target-${cluster.suggestedTargetId}`}
+                  checked={member.id === targetId}
+                  onChange={() => setTargetId(member.id)}
+                />
+              </td>
+              <td className="py-1">
+                <span className="font-medium">{member.name}</span>
+                {member.aliases.length > 0 && (
+                  <span className="text-xs text-muted-foreground"> (also {member.aliases.join(", ")})</span>
+                )}
+                {member.description && (
+                  <p className="text-xs text-muted-foreground">{member.description}</p>
+                )}
+              </td>
+              <td className="py-1 text-right">{member.mentionCount}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <div className="mt-3 flex items-center justify-end gap-3">
+        {error && <span className="text-xs text-red-600">{error}</span>}
+        <Button size="sm" className="gap-2" onClick={handleMerge} disabled={isPending || mergedIds.length === 0}>
+          <Merge className="h-3 w-3" />
+          {isPending ? "Merging..." : `Merge ${mergedIds.length} into selected`}
+        </Button>
+      </div>
+    </Card>
+  );
+}
@@ -0,0 +1,62 @@
+"use client";
+
+import { useRef, useState } from "react";
+import { useRouter } from "next/navigation";
+import { Loader2, Upload } from "lucide-react";
+import { Button } from "@/components/ui/button";
+
+// Recreates a project from a zip made by "Download project archive"
+export function ImportProjectButton() {
+  const router = useRouter();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [isImporting, setIsImporting] = useState(false);
+
+  const importArchive = async (file: File | undefined) => {
+    if (!file) return;
+    setIsImporting(true);
+
+    try {
+      const formData = new FormData();
+      formData.append("file", file);
+
+      const response = await fetch("/api/projects/import", {
+        method: "POST",
+        body: formData,
+      });
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || "Import failed");
+      }
+
+      router.push(`/dashboard/${result.projectId}`);
+    } catch (error) {
+      console.error("Project import error:", error);
+      alert(`Failed to import project: ${error instanceof Error ? error.message : "Please try again."}`);
+      setIsImporting(false);
+    } finally {
+      if (inputRef.current) inputRef.current.value = "";
+    }
+  };
+
+  return (
+    <>
+      <input
+        ref={inputRef}
+        type="file"
+        accept=".zip,application/zip"
+        className="hidden"
+        onChange={(e) => importArchive(e.target.files?.[0])}
+      />
+      <Button
+        variant="outline"
+        className="gap-2"
+        onClick={() => inputRef.current?.click()}
+        disabled={isImporting}
+      >
+        {isImporting ? <Loader2 className="h-4 w-4 animate-spin" /> : <Upload className="h-4 w-4" />}
+        {isImporting ? "Importing..." : "Import Project"}
+      </Button>
+    </>
+  );
+}
@@ -0,0 +1,24 @@
+"use client";
+
+import { useEffect } from "react";
+import { useRouter } from "next/navigation";
+
+interface IngestionStatusPollerProps {
+  active: boolean;
+  intervalMs?: number;
+}
+
+// Refreshes server data while sources are still pending or processing, so
+// status badges update without a manual reload.
+export function IngestionStatusPoller({ active, intervalMs = 5000 }: IngestionStatusPollerProps) {
+  const router = useRouter();
+
+  useEffect(() => {
+    if (!active) return;
+
+    const interval = setInterval(() => router.refresh(), intervalMs);
+    return () => clearInterval(interval);
+  }, [active, intervalMs, router]);
+
+  return null;
+}
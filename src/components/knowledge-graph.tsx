@@ -0,0 +1,473 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import Link from "next/link";
+import { Loader2, Crosshair, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import type { GraphEdge, GraphNode, ProjectGraph } from "@/lib/graph";
+
+interface KnowledgeGraphProps {
+  projectId: string;
+  // Entity types present in the project, offered as filters
+  entityTypes: string[];
+  hasParameterValues: boolean;
+}
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+const TYPE_COLORS: Record<string, string> = {
+  person: "#f59e0b",
+  organization: "#8b5cf6",
+  location: "#10b981",
+  technology: "#14b8a6",
+  product: "#ec4899",
+  event: "#f97316",
+  parameter: "#6b7280",
+};
+const SOURCE_COLOR = "#3b82f6";
+
+const TYPE_LABELS: Record<string, string> = {
+  person: "People",
+  organization: "Organizations",
+  location: "Locations",
+  technology: "Technologies",
+  product: "Products",
+  event: "Events",
+  parameter: "Shared values",
+};
+
+const WIDTH = 1000;
+const HEIGHT = 640;
+const LAYOUT_TICKS = 300;
+const TICKS_PER_FRAME = 5;
+
+export function KnowledgeGraph({ projectId, entityTypes, hasParameterValues }: KnowledgeGraphProps) {
+  const filterTypes = useMemo(
+    () => [...entityTypes, ...(hasParameterValues ? ["parameter"] : [])],
+    [entityTypes, hasParameterValues]
+  );
+
+  const [types, setTypes] = useState<Set<string>>(() => new Set(filterTypes));
+  const [minSources, setMinSources] = useState(1);
+  const [focus, setFocus] = useState<string | null>(null);
+  const [depth, setDepth] = useState(2);
+  const [graph, setGraph] = useState<ProjectGraph | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [selected, setSelected] = useState<string | null>(null);
+  const [hovered, setHovered] = useState<string | null>(null);
+
+  useEffect(() => {
+    const controller = new AbortController();
+
+    const load = async () => {
+      setIsLoading(true);
+      setError(null);
+      try {
+        const params = new URLSearchParams({ types: [...types].join(","), minSources: String(minSources), depth: String(depth) });
+        if (focus) params.set("focus", focus);
+
+        const response = await fetch(`/api/projects/${projectId}/graph?${params}`, { signal: controller.signal });
+        const result = await response.json();
+
+        if (!response.ok) {
+          throw new Error(result.error || "Failed to load graph");
+        }
+
+        setGraph(result);
+      } catch (error) {
+        if (controller.signal.aborted) return;
+        console.error("Graph error:", error);
+        setError(error instanceof Error ? error.message : "Failed to load graph");
+      } finally {
+        if (!controller.signal.aborted) setIsLoading(false);
+      }
+    };
+
+    // Nothing selected means nothing to show, not everything
+    if (types.size === 0) {
+      setGraph({ nodes: [], edges: [], truncated: false });
+      return;
+    }
+
+    load();
+    return () => controller.abort();
+  }, [projectId, types, minSources, focus, depth]);
+
+  const toggleType = (type: string) => {
+    const next = new Set(types);
+    if (next.has(type)) next.delete(type);
+    else next.add(type);
+    setTypes(next);
+  };
+
+  const selectedNode = graph?.nodes.find((node) => node.id === selected) ?? null;
+
+  return (
+    <div className="space-y-4">
+      <Card className="flex flex-wrap items-center gap-3 p-4">
+        {filterTypes.map((type) => (
+          <button
+            key={type}
+            onClick={() => toggleType(type)}
+            className={`flex items-center gap-2 rounded-full border px-3 py-1 text-sm transition-colors ${types.has(type) ? "border-border bg-muted" : "border-dashed border-border text-muted-foreground"}`}
+          >
+            <span className="h-2 w-2 rounded-full" style={{ backgroundColor: TYPE_COLORS[type] ?? SOURCE_COLOR }} />
+            {TYPE_LABELS[type] ?? type}
+          </button>
+        ))}
+        <label className="ml-auto flex items-center gap-2 text-sm text-muted-foreground">
+          Mentioned by at least
+          <select
+            className="rounded-md border border-border bg-background px-2 py-1 text-sm text-foreground"
+            value={minSources}
+            onChange={(e) => setMinSources(Number(e.target.value))}
+          >
+            {[1, 2, 3, 5].map((count) => (
+              <option key={count} value={count}>{count} {count === 1 ? "source" : "sources"}</option>
+            ))}
+          </select>
+        </label>
+      </Card>
+
+      {focus && (
+        <div className="flex items-center gap-3 text-sm">
+          <span className="text-muted-foreground">
+            Showing {depth === 1 ? "direct connections" : `${depth} hops`} around the selected node
+          </span>
+          <select
+            className="rounded-md border border-border bg-background px-2 py-1 text-sm"
+            value={depth}
+            onChange={(e) => setDepth(Number(e.target.value))}
+          >
+            {[1, 2, 3].map((hops) => (
+              <option key={hops} value={hops}>{hops} {hops === 1 ? "hop" : "hops"}</option>
+            ))}
+          </select>
+          <Button size="sm" variant="outline" className="gap-2" onClick={() => setFocus(null)}>
+            <X className="h-3 w-3" />
+            Show whole project
+          </Button>
+        </div>
+      )}
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+      {graph?.truncated && (
+        <p className="text-sm text-muted-foreground">
+          Only the best-connected nodes are shown. Filter by type or focus on a node to see the rest.
+        </p>
+      )}
+
+      <div className="relative rounded-lg border border-border bg-card">
+        {isLoading && (
+          <div className="absolute right-4 top-4 z-10">
+            <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+          </div>
+        )}
+        {graph && graph.nodes.length === 0 && !isLoading ? (
+          <div className="flex h-96 items-center justify-center text-sm text-muted-foreground">
+            Nothing to show with these filters
+          </div>
+        ) : graph ? (
+          <GraphCanvas
+            graph={graph}
+            focus={focus}
+            selected={selected}
+            hovered={hovered}
+            onSelect={setSelected}
+            onHover={setHovered}
+          />
+        ) : (
+          <div className="h-96" />
+        )}
+
+        {selectedNode && (
+          <Card className="absolute bottom-4 left-4 w-72 space-y-3 p-4">
+            <div className="flex items-start justify-between gap-2">
+              <div>
+                <p className="font-medium">{selectedNode.label}</p>
+                <p className="text-xs capitalize text-muted-foreground">
+                  {selectedNode.kind === "source" ? `${selectedNode.type} source` : selectedNode.type === "parameter" ? "Shared value" : selectedNode.type}
+                  {" · "}
+                  {selectedNode.degree} {selectedNode.degree === 1 ? "connection" : "connections"}
+                </p>
+              </div>
+              <button className="text-muted-foreground hover:text-foreground" onClick={() => setSelected(null)}>
+                <X className="h-4 w-4" />
+              </button>
+            </div>
+            <div className="flex gap-2">
+              {selectedNode.id !== focus && (
+                <Button size="sm" variant="outline" className="gap-2" onClick={() => setFocus(selectedNode.id)}>
+                  <Crosshair className="h-3 w-3" />
+                  Focus
+                </Button>
+              )}
+              {selectedNode.kind === "source" && (
+                <Link href={`/dashboard/${projectId}/sources/${selectedNode.id.replace("source:", "")}`}>
+                  <Button size="sm" variant="outline">Open source</Button>
+                </Link>
+              )}
+            </div>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+}
+
+interface GraphCanvasProps {
+  graph: ProjectGraph;
+  focus: string | null;
+  selected: string | null;
+  hovered: string | null;
+  onSelect: (id: string | null) => void;
+  onHover: (id: string | null) => void;
+}
+
+function GraphCanvas({ graph, focus, selected, hovered, onSelect, onHover }: GraphCanvasProps) {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const positions = useRef(new Map<string, Point>());
+  const [, setFrame] = useState(0);
+  const [view, setView] = useState({ x: 0, y: 0, scale: 1 });
+  const drag = useRef<{ nodeId: string | null; start: Point; origin: Point; moved: boolean } | null>(null);
+
+  // Lay the graph out from scratch whenever it changes, keeping the
+  // positions of nodes that were already on screen
+  useEffect(() => {
+    const previous = positions.current;
+    const next = new Map<string, Point>();
+    const radius = Math.sqrt(graph.nodes.length) * 30;
+
+    for (const node of graph.nodes) {
+      const angle = Math.random() * Math.PI * 2;
+      next.set(node.id, previous.get(node.id) ?? {
+        x: WIDTH / 2 + Math.cos(angle) * radius * Math.random(),
+        y: HEIGHT / 2 + Math.sin(angle) * radius * Math.random(),
+      });
+    }
+    if (focus && next.has(focus)) next.set(focus, { x: WIDTH / 2, y: HEIGHT / 2 });
+    positions.current = next;
+
+    let tick = 0;
+    let animation = 0;
+    const step = () => {
+      for (let i = 0; i < TICKS_PER_FRAME && tick < LAYOUT_TICKS; i++, tick++) {
+        layoutTick(graph.nodes, graph.edges, next, 1 - tick / LAYOUT_TICKS, focus);
+      }
+      setFrame((frame) => frame + 1);
+      if (tick < LAYOUT_TICKS) animation = requestAnimationFrame(step);
+    };
+    animation = requestAnimationFrame(step);
+
+    return () => cancelAnimationFrame(animation);
+  }, [graph, focus]);
+
+  const neighbors = useMemo(() => {
+    const map = new Map<string, Set<string>>();
+    for (const edge of graph.edges) {
+      if (!map.has(edge.source)) map.set(edge.source, new Set());
+      if (!map.has(edge.target)) map.set(edge.target, new Set());
+      map.get(edge.source)!.add(edge.target);
+      map.get(edge.target)!.add(edge.source);
+    }
+    return map;
+  }, [graph.edges]);
+
+  // Hovering (or failing that, selecting) a node dims everything unconnected
+  const highlight = hovered ?? selected;
+  const isLit = (id: string) => !highlight || id === highlight || neighbors.get(highlight)?.has(id);
+
+  const toGraphPoint = useCallback((clientX: number, clientY: number): Point => {
+    const rect = svgRef.current!.getBoundingClientRect();
+    return {
+      x: ((clientX - rect.left) / rect.width * WIDTH - view.x) / view.scale,
+      y: ((clientY - rect.top) / rect.height * HEIGHT - view.y) / view.scale,
+    };
+  }, [view]);
+
+  const handlePointerDown = (e: React.PointerEvent, nodeId: string | null) => {
+    e.stopPropagation();
+    (e.target as Element).setPointerCapture(e.pointerId);
+    const position = nodeId ? positions.current.get(nodeId)! : { x: view.x, y: view.y };
+    drag.current = { nodeId, start: { x: e.clientX, y: e.clientY }, origin: { ...position }, moved: false };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (!drag.current) return;
+    const rect = svgRef.current!.getBoundingClientRect();
+    const dx = (e.clientX - drag.current.start.x) / rect.width * WIDTH;
+    const dy = (e.clientY - drag.current.start.y) / rect.height * HEIGHT;
+    if (Math.abs(dx) + Math.abs(dy) > 3) drag.current.moved = true;
+
+    if (drag.current.nodeId) {
+      positions.current.set(drag.current.nodeId, {
+        x: drag.current.origin.x + dx / view.scale,
+        y: drag.current.origin.y + dy / view.scale,
+      });
+      setFrame((frame) => frame + 1);
+    } else {
+      setView({ ...view, x: drag.current.origin.x + dx, y: drag.current.origin.y + dy });
+    }
+  };
+
+  const handlePointerUp = () => {
+    if (drag.current && !drag.current.moved) {
+      onSelect(drag.current.nodeId);
+    }
+    drag.current = null;
+  };
+
+  const handleWheel = (e: React.WheelEvent) => {
+    const point = toGraphPoint(e.clientX, e.clientY);
+    const scale = Math.min(Math.max(view.scale * (e.deltaY < 0 ? 1.1 : 1 / 1.1), 0.2), 5);
+    // Zoom around the cursor
+    setView({ scale, x: view.x + point.x * (view.scale - scale), y: view.y + point.y * (view.scale - scale) });
+  };
+
+  const radiusOf = (node: GraphNode) => (node.kind === "source" ? 8 : 4 + Math.min(Math.sqrt(node.degree) * 2, 10));
+
+  return (
+    <svg
+      ref={svgRef}
+      viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+      className="h-[640px] w-full cursor-grab touch-none select-none"
+      onPointerDown={(e) => handlePointerDown(e, null)}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onWheel={handleWheel}
+    >
+      <g transform={`translate(${view.x} ${view.y}) scale(${view.scale})`}>
+        {graph.edges.map((edge: GraphEdge) => {
+          const from = positions.current.get(edge.source);
+          const to = positions.current.get(edge.target);
+          if (!from || !to) return null;
+          const lit = !highlight || edge.source === highlight || edge.target === highlight;
+          return (
+            <line
+              key={`${edge.source}-${edge.target}`}
+              x1={from.x}
+              y1={from.y}
+              x2={to.x}
+              y2={to.y}
+              stroke="currentColor"
+              className="text-border"
+              strokeWidth={lit && highlight ? 1.5 : 1}
+              strokeDasharray={edge.kind === "value" ? "4 3" : undefined}
+              opacity={lit ? 0.4 + edge.weight * 0.4 : 0.08}
+            />
+          );
+        })}
+        {graph.nodes.map((node) => {
+          const position = positions.current.get(node.id);
+          if (!position) return null;
+          const lit = isLit(node.id);
+          const showLabel = node.kind === "source" || node.id === highlight || node.id === focus || node.degree >= 3 || (highlight && lit);
+          return (
+            <g
+              key={node.id}
+              transform={`translate(${position.x} ${position.y})`}
+              className="cursor-pointer"
+              opacity={lit ? 1 : 0.15}
+              onPointerDown={(e) => handlePointerDown(e, node.id)}
+              onPointerEnter={() => onHover(node.id)}
+              onPointerLeave={() => onHover(null)}
+            >
+              {node.kind === "source" ? (
+                <rect
+                  x={-radiusOf(node)}
+                  y={-radiusOf(node)}
+                  width={radiusOf(node) * 2}
+                  height={radiusOf(node) * 2}
+                  rx={2}
+                  fill={SOURCE_COLOR}
+                  stroke={node.id === selected || node.id === focus ? "currentColor" : "none"}
+                  strokeWidth={2}
+                />
+              ) : (
+                <circle
+                  r={radiusOf(node)}
+                  fill={TYPE_COLORS[node.type] ?? SOURCE_COLOR}
+                  stroke={node.id === selected || node.id === focus ? "currentColor" : "none"}
+                  strokeWidth={2}
+                />
+              )}
+              {showLabel && (
+                <text
+                  x={radiusOf(node) + 4}
+                  y={4}
+                  fontSize={11}
+                  fill="currentColor"
+                  className="pointer-events-none"
+                >
+                  {node.label.length > 40 ? `${node.label.substring(0, 40)}…` : node.label}
+                </text>
+              )}
+            </g>
+          );
+        })}
+      </g>
+    </svg>
+  );
+}
+
+// One step of a force-directed layout: nodes repel each other, edges pull
+// their ends together and a weak pull keeps everything near the centre.
+// `temperature` (1 → 0) caps how far a node may move, so the layout settles.
+function layoutTick(
+  nodes: GraphNode[],
+  edges: GraphEdge[],
+  positions: Map<string, Point>,
+  temperature: number,
+  pinned: string | null
+) {
+  const ideal = Math.sqrt((WIDTH * HEIGHT) / Math.max(nodes.length, 1)) * 0.6;
+  const force = new Map<string, Point>(nodes.map((node) => [node.id, { x: 0, y: 0 }]));
+
+  for (let i = 0; i < nodes.length; i++) {
+    const a = positions.get(nodes[i].id)!;
+    const fa = force.get(nodes[i].id)!;
+    for (let j = i + 1; j < nodes.length; j++) {
+      const b = positions.get(nodes[j].id)!;
+      const fb = force.get(nodes[j].id)!;
+      const dx = a.x - b.x || 0.01;
+      const dy = a.y - b.y || 0.01;
+      const distanceSquared = Math.max(dx * dx + dy * dy, 1);
+      const push = (ideal * ideal) / distanceSquared;
+      fa.x += dx * push;
+      fa.y += dy * push;
+      fb.x -= dx * push;
+      fb.y -= dy * push;
+    }
+  }
+
+  for (const edge of edges) {
+    const a = positions.get(edge.source);
+    const b = positions.get(edge.target);
+    if (!a || !b) continue;
+    const dx = a.x - b.x;
+    const dy = a.y - b.y;
+    const pull = Math.sqrt(dx * dx + dy * dy) / ideal;
+    force.get(edge.source)!.x -= dx * pull;
+    force.get(edge.source)!.y -= dy * pull;
+    force.get(edge.target)!.x += dx * pull;
+    force.get(edge.target)!.y += dy * pull;
+  }
+
+  const maxStep = 40 * temperature + 1;
+  for (const node of nodes) {
+    if (node.id === pinned) continue;
+    const position = positions.get(node.id)!;
+    const f = force.get(node.id)!;
+    f.x += (WIDTH / 2 - position.x) * 0.02;
+    f.y += (HEIGHT / 2 - position.y) * 0.02;
+    const length = Math.sqrt(f.x * f.x + f.y * f.y) || 1;
+    const stepLength = Math.min(length, maxStep);
+    position.x += (f.x / length) * stepLength;
+    position.y += (f.y / length) * stepLength;
+  }
+}
@@ -0,0 +1,267 @@
+"use client";
+
+import { Fragment, useEffect, useRef, useState } from "react";
+import Link from "next/link";
+import { MessageSquare, Plus, Send, Loader2, FileText } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card } from "@/components/ui/card";
+import type { ChatCitation } from "@/lib/chat";
+
+interface Conversation {
+  id: string;
+  title: string;
+  updated_at: string;
+}
+
+interface ChatMessage {
+  id: string;
+  role: "user" | "assistant";
+  content: string;
+  citations?: ChatCitation[] | null;
+}
+
+interface ProjectChatProps {
+  projectId: string;
+}
+
+export function ProjectChat({ projectId }: ProjectChatProps) {
+  const [conversations, setConversations] = useState<Conversation[]>([]);
+  const [activeId, setActiveId] = useState<string | null>(null);
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [input, setInput] = useState("");
+  const [isSending, setIsSending] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const bottomRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadConversations = async () => {
+      try {
+        const response = await fetch(`/api/projects/${projectId}/chat`);
+        const result = await response.json();
+        if (!response.ok) throw new Error(result.error || "Failed to load conversations");
+        if (!cancelled) setConversations(result.conversations || []);
+      } catch (error) {
+        console.error("Chat list error:", error);
+      }
+    };
+
+    loadConversations();
+    return () => {
+      cancelled = true;
+    };
+  }, [projectId]);
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ behavior: "smooth", block: "nearest" });
+  }, [messages]);
+
+  const openConversation = async (conversationId: string) => {
+    setActiveId(conversationId);
+    setError(null);
+    setIsLoading(true);
+    try {
+      const response = await fetch(`/api/projects/${projectId}/chat/${conversationId}`);
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.error || "Failed to load conversation");
+      setMessages(result.messages || []);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : "Failed to load conversation");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const startNewConversation = () => {
+    setActiveId(null);
+    setMessages([]);
+    setError(null);
+  };
+
+  const sendMessage = async () => {
+    const question = input.trim();
+    if (!question || isSending) return;
+
+    setInput("");
+    setError(null);
+    setIsSending(true);
+    setMessages((prev) => [...prev, { id: `pending-${Date.now()}`, role: "user", content: question }]);
+
+    try {
+      const response = await fetch(`/api/projects/${projectId}/chat`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ message: question, conversationId: activeId }),
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || "Failed to get an answer");
+      }
+
+      setMessages((prev) => [...prev, result.message]);
+
+      if (!activeId) {
+        setActiveId(result.conversation.id);
+      }
+      setConversations((prev) => [
+        { ...result.conversation, updated_at: new Date().toISOString() },
+        ...prev.filter((c) => c.id !== result.conversation.id),
+      ]);
+    } catch (error) {
+      console.error("Chat error:", error);
+      setError(error instanceof Error ? error.message : "Failed to get an answer");
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <Card className="p-0 gap-0 overflow-hidden">
+      <div className="flex h-[560px]">
+        {/* Conversation list */}
+        <div className="w-64 flex-shrink-0 border-r border-border flex flex-col">
+          <div className="p-3 border-b border-border">
+            <Button size="sm" variant="outline" className="w-full gap-2" onClick={startNewConversation}>
+              <Plus className="h-4 w-4" />
+              New conversation
+            </Button>
+          </div>
+          <div className="flex-1 overflow-y-auto">
+            {conversations.length === 0 ? (
+              <p className="p-4 text-xs text-muted-foreground">No conversations yet</p>
+            ) : (
+              conversations.map((conversation) => (
+                <button
+                  key={conversation.id}
+                  onClick={() => openConversation(conversation.id)}
+                  className={`w-full text-left px-4 py-3 text-sm border-b border-border transition-colors ${
+                    conversation.id === activeId ? "bg-primary/10" : "hover:bg-muted/50"
+                  }`}
+                >
+                  <div className="truncate font-medium">{conversation.title}</div>
+                  <div className="text-xs text-muted-foreground mt-0.5">
+                    {new Date(conversation.updated_at).toLocaleDateString()}
+                  </div>
+                </button>
+              ))
+            )}
+          </div>
+        </div>
+
+        {/* Messages */}
+        <div className="flex-1 flex flex-col min-w-0">
+          <div className="flex-1 overflow-y-auto p-6 space-y-6">
+            {isLoading ? (
+              <div className="flex justify-center py-12">
+                <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+              </div>
+            ) : messages.length === 0 ? (
+              <div className="flex flex-col items-center justify-center h-full text-center">
+                <MessageSquare className="h-10 w-10 text-muted-foreground mb-3" />
+                <p className="text-sm text-muted-foreground max-w-sm">
+                  Ask a question and get an answer drawn only from this project&apos;s sources, with citations.
+                </p>
+              </div>
+            ) : (
+              messages.map((message) => (
+                <MessageBubble key={message.id} projectId={projectId} message={message} />
+              ))
+            )}
+            {isSending && (
+              <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                <Loader2 className="h-4 w-4 animate-spin" />
+                Searching sources...
+              </div>
+            )}
+            <div ref={bottomRef} />
+          </div>
+
+          {error && <p className="px-6 pb-2 text-sm text-red-600">{error}</p>}
+
+          <div className="border-t border-border p-4 flex items-center gap-3">
+            <Input
+              placeholder="Ask about your sources..."
+              value={input}
+              onChange={(e) => setInput(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && sendMessage()}
+              disabled={isSending}
+              className="flex-1"
+            />
+            <Button size="sm" onClick={sendMessage} disabled={!input.trim() || isSending}>
+              <Send className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+      </div>
+    </Card>
+  );
+}
+
+function MessageBubble({ projectId, message }: { projectId: string; message: ChatMessage }) {
+  if (message.role === "user") {
+    return (
+      <div className="flex justify-end">
+        <div className="max-w-[80%] rounded-lg bg-primary text-primary-foreground px-4 py-2 text-sm whitespace-pre-line">
+          {message.content}
+        </div>
+      </div>
+    );
+  }
+
+  const citations = message.citations || [];
+  const byMarker = new Map(citations.map((citation) => [citation.marker, citation]));
+
+  return (
+    <div className="max-w-[90%] space-y-3">
+      <div className="text-sm whitespace-pre-line leading-relaxed">
+        {message.content.split(/(\[\d+\])/g).map((part, index) => {
+          const citation = byMarker.get(Number(part.match(/^\[(\d+)\]$/)?.[1]));
+          if (!citation) return <Fragment key={index}>{part}</Fragment>;
+          return (
+            <Link
+              key={index}
+              href={`/dashboard/${projectId}/sources/${citation.dataSourceId}`}
+              title={`${citation.dataSourceName}: ${citation.snippet}`}
+              className="align-super text-[10px] font-semibold text-primary hover:underline mx-0.5"
+            >
+              [{citation.marker}]
+            </Link>
+          );
+        })}
+      </div>
+
+      {citations.length > 0 && (
+        <div className="space-y-2">
+          {citations.map((citation) => (
+            <Link
+              key={citation.marker}
+              href={`/dashboard/${projectId}/sources/${citation.dataSourceId}`}
+              className="flex gap-2 rounded-md border border-border bg-muted/30 p-2 text-xs hover:bg-muted/60 transition-colors"
+            >
+              <span className="font-semibold text-primary">[{citation.marker}]</span>
+              <div className="min-w-0">
+                <div className="flex items-center gap-1 font-medium">
+                  <FileText className="h-3 w-3 flex-shrink-0" />
+                  <span className="truncate">{citation.dataSourceName}</span>
+                  {citation.pageStart !== null && (
+                    <span className="text-muted-foreground flex-shrink-0">
+                      · p. {citation.pageStart}
+                      {citation.pageEnd !== citation.pageStart && `–${citation.pageEnd}`}
+                    </span>
+                  )}
+                </div>
+                <p className="mt-1 text-muted-foreground line-clamp-2">{citation.snippet}</p>
+              </div>
+            </Link>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,261 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { useRouter } from "next/navigation";
+import { Check, Copy, Loader2, UserPlus, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger
+} from "@/components/ui/dialog";
+import {
+  getProjectMembers,
+  inviteMember,
+  removeMember,
+  revokeInvitation,
+  updateMemberRole,
+  type ProjectInvitation,
+  type ProjectMember,
+} from "@/app/dashboard/[projectId]/members/actions";
+import { PROJECT_ROLES, type ProjectRole } from "@/lib/projects/access";
+
+const ROLE_LABELS: Record<ProjectRole, string> = {
+  owner: "Owner",
+  editor: "Editor",
+  viewer: "Viewer",
+};
+
+const selectClassName = "rounded-md border border-border bg-background px-2 py-1 text-sm";
+
+interface ProjectMembersProps {
+  projectId: string;
+  role: ProjectRole;
+}
+
+export function ProjectMembers({ projectId, role }: ProjectMembersProps) {
+  const router = useRouter();
+  const [open, setOpen] = useState(false);
+  const [members, setMembers] = useState<ProjectMember[] | null>(null);
+  const [invitations, setInvitations] = useState<ProjectInvitation[]>([]);
+  const [currentUserId, setCurrentUserId] = useState<string | null>(null);
+  const [email, setEmail] = useState("");
+  const [inviteRole, setInviteRole] = useState<ProjectRole>("editor");
+  const [copiedToken, setCopiedToken] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isPending, startTransition] = useTransition();
+
+  const isOwner = role === "owner";
+
+  const load = () => {
+    startTransition(async () => {
+      const result = await getProjectMembers(projectId);
+      if ("error" in result) {
+        setError(result.error ?? null);
+        return;
+      }
+      setMembers(result.members);
+      setInvitations(result.invitations);
+      setCurrentUserId(result.userId);
+    });
+  };
+
+  const handleOpenChange = (next: boolean) => {
+    setOpen(next);
+    setError(null);
+    if (next) load();
+  };
+
+  const inviteLink = (token: string) => `${window.location.origin}/invite/${token}`;
+
+  const copyLink = async (token: string) => {
+    await navigator.clipboard.writeText(inviteLink(token));
+    setCopiedToken(token);
+    setTimeout(() => setCopiedToken((current) => (current === token ? null : current)), 2000);
+  };
+
+  const run = (action: () => Promise<{ error?: string; left?: boolean }>) => {
+    setError(null);
+    startTransition(async () => {
+      const result = await action();
+      if (result?.error) {
+        setError(result.error);
+        return;
+      }
+      if (result?.left) {
+        router.push("/dashboard");
+        return;
+      }
+      load();
+      router.refresh();
+    });
+  };
+
+  const handleInvite = (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    startTransition(async () => {
+      const result = await inviteMember(projectId, email, inviteRole);
+      if (result?.error) {
+        setError(result.error);
+        return;
+      }
+      setEmail("");
+      if (result.token) await copyLink(result.token);
+      load();
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" className="gap-2">
+          <UserPlus className="h-4 w-4" />
+          Share
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>People on this project</DialogTitle>
+          <DialogDescription>
+            Viewers can read, search, chat and export. Editors can also add sources, edit the
+            matrix and run analysis. Owners manage settings and members.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          {members === null ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+            </div>
+          ) : (
+            <ul className="divide-y divide-border">
+              {members.map((member) => (
+                <li key={member.userId} className="flex items-center justify-between gap-3 py-2">
+                  <div className="min-w-0">
+                    <p className="truncate text-sm font-medium">
+                      {member.name}
+                      {member.userId === currentUserId && (
+                        <span className="text-muted-foreground"> (you)</span>
+                      )}
+                    </p>
+                    {member.email && member.email !== member.name && (
+                      <p className="truncate text-xs text-muted-foreground">{member.email}</p>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-2">
+                    {isOwner && !member.isCreator ? (
+                      <select
+                        className={selectClassName}
+                        value={member.role}
+                        disabled={isPending}
+                        onChange={(e) => run(() => updateMemberRole(projectId, member.userId, e.target.value as ProjectRole))}
+                      >
+                        {PROJECT_ROLES.map((option) => (
+                          <option key={option} value={option}>{ROLE_LABELS[option]}</option>
+                        ))}
+                      </select>
+                    ) : (
+                      <span className="text-xs text-muted-foreground">
+                        {member.isCreator ? "Creator" : ROLE_LABELS[member.role]}
+                      </span>
+                    )}
+                    {!member.isCreator && (isOwner || member.userId === currentUserId) && (
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        disabled={isPending}
+                        onClick={() => {
+                          const leaving = member.userId === currentUserId;
+                          if (!confirm(leaving ? "Leave this project?" : `Remove ${member.name} from this project?`)) return;
+                          run(() => removeMember(projectId, member.userId));
+                        }}
+                      >
+                        {member.userId === currentUserId ? "Leave" : "Remove"}
+                      </Button>
+                    )}
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {isOwner && invitations.length > 0 && (
+            <div className="space-y-2">
+              <h3 className="text-sm font-medium">Pending invitations</h3>
+              <ul className="divide-y divide-border">
+                {invitations.map((invitation) => (
+                  <li key={invitation.id} className="flex items-center justify-between gap-3 py-2">
+                    <div className="min-w-0">
+                      <p className="truncate text-sm">{invitation.email}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {ROLE_LABELS[invitation.role]} · expires {new Date(invitation.expiresAt).toLocaleDateString()}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-1">
+                      <Button
+                        size="icon-sm"
+                        variant="ghost"
+                        title="Copy invitation link"
+                        onClick={() => copyLink(invitation.token)}
+                      >
+                        {copiedToken === invitation.token ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+                      </Button>
+                      <Button
+                        size="icon-sm"
+                        variant="ghost"
+                        title="Revoke invitation"
+                        disabled={isPending}
+                        onClick={() => run(() => revokeInvitation(projectId, invitation.id))}
+                      >
+                        <X className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {isOwner && (
+            <form className="space-y-2 border-t border-border pt-4" onSubmit={handleInvite}>
+              <Label htmlFor="invite-email">Invite by email</Label>
+              <div className="flex gap-2">
+                <Input
+                  id="invite-email"
+                  type="email"
+                  placeholder="name@example.com"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                />
+                <select
+                  className={selectClassName}
+                  value={inviteRole}
+                  onChange={(e) => setInviteRole(e.target.value as ProjectRole)}
+                >
+                  {PROJECT_ROLES.map((option) => (
+                    <option key={option} value={option}>{ROLE_LABELS[option]}</option>
+                  ))}
+                </select>
+                <Button type="submit" disabled={isPending || !email.trim()}>
+                  Invite
+                </Button>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                The invitation link is copied for you to send. They accept it by signing in with
+                that email address.
+              </p>
+            </form>
+          )}
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
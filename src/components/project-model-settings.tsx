@@ -0,0 +1,95 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { useRouter } from "next/navigation";
+import { Cpu } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger
+} from "@/components/ui/dialog";
+import { updateProjectModelSettings } from "@/app/dashboard/actions";
+
+const TASK_LABELS: Record<string, string> = {
+  summarization: "Summaries",
+  discovery: "Parameter suggestions",
+  extraction: "Value extraction",
+  entities: "Entity extraction",
+  chat: "Ask your sources",
+  transcription: "Audio transcription",
+};
+
+interface ProjectModelSettingsProps {
+  projectId: string;
+  provider: string;
+  // Model each task uses when the project doesn't override it
+  defaults: Record<string, string>;
+  settings: Record<string, string> | null;
+}
+
+export function ProjectModelSettings({ projectId, provider, defaults, settings }: ProjectModelSettingsProps) {
+  const router = useRouter();
+  const [open, setOpen] = useState(false);
+  const [values, setValues] = useState<Record<string, string>>(settings || {});
+  const [error, setError] = useState<string | null>(null);
+  const [isPending, startTransition] = useTransition();
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    startTransition(async () => {
+      const result = await updateProjectModelSettings(projectId, values);
+      if (result?.error) {
+        setError(result.error);
+        return;
+      }
+      setOpen(false);
+      router.refresh();
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" className="gap-2">
+          <Cpu className="h-4 w-4" />
+          Models
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Models for this project</DialogTitle>
+        </DialogHeader>
+        <form className="space-y-4" onSubmit={handleSubmit}>
+          <p className="text-sm text-muted-foreground">
+            Provider: <span className="font-medium text-foreground">{provider}</span>. Leave a field
+            blank to use the default shown.
+          </p>
+          {Object.entries(TASK_LABELS).map(([task, label]) => (
+            <div key={task} className="space-y-2">
+              <Label htmlFor={`model-${task}`}>{label}</Label>
+              <Input
+                id={`model-${task}`}
+                placeholder={defaults[task]}
+                value={values[task] || ""}
+                onChange={(e) => setValues({ ...values, [task]: e.target.value })}
+              />
+            </div>
+          ))}
+          {error && <p className="text-sm text-red-600">{error}</p>}
+          <div className="flex justify-end gap-3">
+            <Button type="button" variant="outline" onClick={() => setOpen(false)}>Cancel</Button>
+            <Button type="submit" disabled={isPending}>
+              {isPending ? "Saving..." : "Save"}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,214 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { useRouter } from "next/navigation";
+import { Archive, ArchiveRestore, Copy, Loader2, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  deleteProject,
+  duplicateProject,
+  setProjectArchived,
+  updateProject,
+} from "@/app/dashboard/[projectId]/settings/actions";
+
+const textareaClassName = "flex min-h-[100px] w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50";
+
+interface ProjectDetailsFormProps {
+  projectId: string;
+  name: string;
+  description: string | null;
+}
+
+export function ProjectDetailsForm({ projectId, name, description }: ProjectDetailsFormProps) {
+  const router = useRouter();
+  const [error, setError] = useState<string | null>(null);
+  const [saved, setSaved] = useState(false);
+  const [isPending, startTransition] = useTransition();
+
+  const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const formData = new FormData(e.currentTarget);
+    setError(null);
+    setSaved(false);
+    startTransition(async () => {
+      const result = await updateProject(projectId, formData);
+      if (result?.error) {
+        setError(result.error);
+        return;
+      }
+      setSaved(true);
+      router.refresh();
+    });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="name">Project Name *</Label>
+        <Input id="name" name="name" defaultValue={name} required disabled={isPending} />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="description">Description</Label>
+        <textarea
+          id="description"
+          name="description"
+          defaultValue={description ?? ""}
+          placeholder="Brief description of your project..."
+          className={textareaClassName}
+          disabled={isPending}
+        />
+      </div>
+      {error && <p className="text-sm text-red-600">{error}</p>}
+      <div className="flex items-center justify-end gap-3">
+        {saved && !isPending && <span className="text-sm text-muted-foreground">Saved</span>}
+        <Button type="submit" disabled={isPending}>
+          {isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          Save Changes
+        </Button>
+      </div>
+    </form>
+  );
+}
+
+interface DuplicateProjectFormProps {
+  projectId: string;
+}
+
+export function DuplicateProjectForm({ projectId }: DuplicateProjectFormProps) {
+  const router = useRouter();
+  const [includeSources, setIncludeSources] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [isPending, startTransition] = useTransition();
+
+  const handleDuplicate = () => {
+    setError(null);
+    startTransition(async () => {
+      const result = await duplicateProject(projectId, { includeSources });
+      if ("error" in result) {
+        setError(result.error ?? null);
+        return;
+      }
+      router.push(`/dashboard/${result.projectId}`);
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      <label className="flex items-start gap-2 text-sm">
+        <input
+          type="checkbox"
+          className="mt-0.5"
+          checked={includeSources}
+          onChange={(e) => setIncludeSources(e.target.checked)}
+          disabled={isPending}
+        />
+        <span>
+          Include sources
+          <span className="block text-xs text-muted-foreground">
+            Copies every source with its file, extracted text, entities and matrix values. Large projects take a while.
+          </span>
+        </span>
+      </label>
+      {error && <p className="text-sm text-red-600">{error}</p>}
+      <div className="flex justify-end">
+        <Button variant="outline" className="gap-2" onClick={handleDuplicate} disabled={isPending}>
+          {isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Copy className="h-4 w-4" />}
+          Duplicate Project
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+interface ArchiveProjectButtonProps {
+  projectId: string;
+  archived: boolean;
+}
+
+export function ArchiveProjectButton({ projectId, archived }: ArchiveProjectButtonProps) {
+  const router = useRouter();
+  const [error, setError] = useState<string | null>(null);
+  const [isPending, startTransition] = useTransition();
+
+  const handleClick = () => {
+    setError(null);
+    startTransition(async () => {
+      const result = await setProjectArchived(projectId, !archived);
+      if (result?.error) {
+        setError(result.error);
+        return;
+      }
+      router.refresh();
+    });
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex justify-end">
+        <Button variant="outline" className="gap-2" onClick={handleClick} disabled={isPending}>
+          {isPending ? (
+            <Loader2 className="h-4 w-4 animate-spin" />
+          ) : archived ? (
+            <ArchiveRestore className="h-4 w-4" />
+          ) : (
+            <Archive className="h-4 w-4" />
+          )}
+          {archived ? "Unarchive Project" : "Archive Project"}
+        </Button>
+      </div>
+      {error && <p className="text-right text-sm text-red-600">{error}</p>}
+    </div>
+  );
+}
+
+interface DeleteProjectFormProps {
+  projectId: string;
+  name: string;
+}
+
+export function DeleteProjectForm({ projectId, name }: DeleteProjectFormProps) {
+  const [confirmation, setConfirmation] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [isPending, startTransition] = useTransition();
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    startTransition(async () => {
+      // Redirects to the dashboard on success
+      const result = await deleteProject(projectId, confirmation);
+      if (result?.error) setError(result.error);
+    });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="delete-confirmation">
+          Type <span className="font-semibold">{name}</span> to confirm
+        </Label>
+        <Input
+          id="delete-confirmation"
+          value={confirmation}
+          onChange={(e) => setConfirmation(e.target.value)}
+          autoComplete="off"
+          disabled={isPending}
+        />
+      </div>
+      {error && <p className="text-sm text-red-600">{error}</p>}
+      <div className="flex justify-end">
+        <Button
+          type="submit"
+          variant="destructive"
+          className="gap-2"
+          disabled={isPending || confirmation.trim() !== name}
+        >
+          {isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Trash2 className="h-4 w-4" />}
+          Delete Project
+        </Button>
+      </div>
+    </form>
+  );
+}
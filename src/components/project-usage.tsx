@@ -0,0 +1,137 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { useRouter } from "next/navigation";
+import { DollarSign } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger
+} from "@/components/ui/dialog";
+import { updateProjectSpendingCap } from "@/app/dashboard/actions";
+import { formatCost } from "@/lib/llm/pricing";
+import type { UsageTotals } from "@/lib/llm/usage";
+
+interface ProjectUsageProps {
+  projectId: string;
+  usage: UsageTotals;
+  spendingCap: number | null;
+  // Only owners may change the cap; everyone else just sees it
+  canChangeCap: boolean;
+}
+
+export function ProjectUsage({ projectId, usage, spendingCap, canChangeCap }: ProjectUsageProps) {
+  const router = useRouter();
+  const [open, setOpen] = useState(false);
+  const [cap, setCap] = useState(spendingCap?.toString() ?? "");
+  const [error, setError] = useState<string | null>(null);
+  const [isPending, startTransition] = useTransition();
+
+  const capReached = spendingCap !== null && usage.estimatedCost >= spendingCap;
+  const operations = Object.entries(usage.byOperation)
+    .sort(([, a], [, b]) => b.estimatedCost - a.estimatedCost);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    startTransition(async () => {
+      const result = await updateProjectSpendingCap(projectId, cap.trim() ? Number(cap) : null);
+      if (result?.error) {
+        setError(result.error);
+        return;
+      }
+      setOpen(false);
+      router.refresh();
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" className={`gap-2 ${capReached ? "border-red-500 text-red-600" : ""}`}>
+          <DollarSign className="h-4 w-4" />
+          {formatCost(usage.estimatedCost)}
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Usage for this project</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="grid grid-cols-3 gap-4 text-center">
+            <div>
+              <p className="text-2xl font-semibold">{formatCost(usage.estimatedCost)}</p>
+              <p className="text-xs text-muted-foreground">Estimated cost</p>
+            </div>
+            <div>
+              <p className="text-2xl font-semibold">{usage.promptTokens.toLocaleString()}</p>
+              <p className="text-xs text-muted-foreground">Prompt tokens</p>
+            </div>
+            <div>
+              <p className="text-2xl font-semibold">{usage.completionTokens.toLocaleString()}</p>
+              <p className="text-xs text-muted-foreground">Completion tokens</p>
+            </div>
+          </div>
+
+          {operations.length > 0 && (
+            <table className="w-full text-sm">
+              <thead className="text-xs text-muted-foreground">
+                <tr>
+                  <th className="text-left font-medium py-1">Operation</th>
+                  <th className="text-right font-medium py-1">Calls</th>
+                  <th className="text-right font-medium py-1">Cost</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-border">
+                {operations.map(([operation, totals]) => (
+                  <tr key={operation}>
+                    <td className="py-1">{operation}</td>
+                    <td className="py-1 text-right">{totals.calls.toLocaleString()}</td>
+                    <td className="py-1 text-right">{formatCost(totals.estimatedCost)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+
+          {canChangeCap ? (
+            <form className="space-y-2 border-t border-border pt-4" onSubmit={handleSubmit}>
+              <Label htmlFor="spending-cap">Spending cap (USD)</Label>
+              <div className="flex gap-3">
+                <Input
+                  id="spending-cap"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  placeholder="No cap"
+                  value={cap}
+                  onChange={(e) => setCap(e.target.value)}
+                />
+                <Button type="submit" disabled={isPending}>
+                  {isPending ? "Saving..." : "Save"}
+                </Button>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                {capReached
+                  ? "The cap has been reached. Uploads, analysis and chat are paused until it is raised."
+                  : "Once estimated cost reaches the cap, new uploads, analysis and chat are refused."}
+              </p>
+              {error && <p className="text-sm text-red-600">{error}</p>}
+            </form>
+          ) : (
+            <p className="border-t border-border pt-4 text-sm text-muted-foreground">
+              {spendingCap === null
+                ? "No spending cap is set."
+                : `Spending cap: ${formatCost(spendingCap)}.${capReached ? " It has been reached, so uploads, analysis and chat are paused." : ""}`}
+            </p>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
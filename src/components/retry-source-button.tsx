@@ -0,0 +1,46 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { useRouter } from "next/navigation";
+import { RotateCw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { retryDataSource } from "@/app/dashboard/actions";
+
+interface RetrySourceButtonProps {
+  projectId: string;
+  dataSourceId: string;
+}
+
+export function RetrySourceButton({ projectId, dataSourceId }: RetrySourceButtonProps) {
+  const router = useRouter();
+  const [isPending, startTransition] = useTransition();
+  const [error, setError] = useState<string | null>(null);
+
+  const handleRetry = () => {
+    setError(null);
+    startTransition(async () => {
+      const result = await retryDataSource(projectId, dataSourceId);
+      if (result?.error) {
+        setError(result.error);
+        return;
+      }
+      router.refresh();
+    });
+  };
+
+  return (
+    <div className="flex flex-col items-start gap-1">
+      <Button
+        size="sm"
+        variant="outline"
+        className="gap-2"
+        onClick={handleRetry}
+        disabled={isPending}
+      >
+        <RotateCw className={`h-3 w-3 ${isPending ? "animate-spin" : ""}`} />
+        {isPending ? "Retrying..." : "Retry processing"}
+      </Button>
+      {error && <span className="text-xs text-red-600">{error}</span>}
+    </div>
+  );
+}
@@ -0,0 +1,124 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { Search, Loader2, FileText, Sparkles } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card } from "@/components/ui/card";
+import type { SearchResult } from "@/lib/search";
+
+interface SourceSearchProps {
+  projectId: string;
+}
+
+const SNIPPET_LENGTH = 320;
+
+export function SourceSearch({ projectId }: SourceSearchProps) {
+  const [query, setQuery] = useState("");
+  const [results, setResults] = useState<SearchResult[] | null>(null);
+  const [isSearching, setIsSearching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSearch = async () => {
+    if (!query.trim()) return;
+
+    setIsSearching(true);
+    setError(null);
+    try {
+      const params = new URLSearchParams({ q: query.trim(), limit: "10" });
+      const response = await fetch(`/api/projects/${projectId}/search?${params}`);
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || "Search failed");
+      }
+
+      setResults(result.results);
+    } catch (error) {
+      console.error("Search error:", error);
+      setError(error instanceof Error ? error.message : "Search failed");
+    } finally {
+      setIsSearching(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <Card className="p-6">
+        <div className="flex items-center gap-4">
+          <Search className="h-5 w-5 text-muted-foreground flex-shrink-0" />
+          <Input
+            placeholder="Search across every source in this project..."
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            onKeyDown={(e) => e.key === "Enter" && handleSearch()}
+            className="flex-1"
+          />
+          <Button onClick={handleSearch} disabled={!query.trim() || isSearching} size="sm">
+            {isSearching ? <Loader2 className="h-4 w-4 animate-spin" /> : "Search"}
+          </Button>
+        </div>
+      </Card>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {results && (
+        results.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No matching passages found.</p>
+        ) : (
+          <div className="space-y-3">
+            {results.map((result) => (
+              <SearchResultCard key={`${result.kind}-${result.id}`} projectId={projectId} result={result} />
+            ))}
+          </div>
+        )
+      )}
+    </div>
+  );
+}
+
+function SearchResultCard({ projectId, result }: { projectId: string; result: SearchResult }) {
+  const snippet = result.content.length > SNIPPET_LENGTH
+    ? `${result.content.substring(0, SNIPPET_LENGTH)}…`
+    : result.content;
+
+  return (
+    <div className="rounded-lg border border-border bg-card p-4">
+      <div className="flex items-center justify-between gap-4">
+        <Link
+          href={`/dashboard/${projectId}/sources/${result.data_source_id}`}
+          className="text-sm font-medium hover:underline truncate"
+        >
+          {result.data_source_name}
+        </Link>
+        <span className="text-xs text-muted-foreground flex-shrink-0">
+          {Math.round(result.similarity * 100)}% match
+        </span>
+      </div>
+      <div className="mt-1 flex items-center gap-2 text-xs text-muted-foreground">
+        {result.kind === "summary" ? (
+          <>
+            <Sparkles className="h-3 w-3" />
+            {result.summary_level} summary
+          </>
+        ) : (
+          <>
+            <FileText className="h-3 w-3" />
+            {formatLocation(result)}
+          </>
+        )}
+      </div>
+      <p className="mt-2 text-sm text-muted-foreground whitespace-pre-line">{snippet}</p>
+    </div>
+  );
+}
+
+function formatLocation(result: SearchResult): string {
+  if (result.page_start !== null) {
+    return result.page_start === result.page_end
+      ? `Page ${result.page_start}`
+      : `Pages ${result.page_start}–${result.page_end}`;
+  }
+  return `Passage ${(result.chunk_index ?? 0) + 1}`;
+}
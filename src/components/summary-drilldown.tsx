@@ -0,0 +1,92 @@
+"use client";
+
+import { useState } from "react";
+import { ChevronDown, ChevronUp } from "lucide-react";
+import { Button } from "@/components/ui/button";
+
+interface Summary {
+  id: string;
+  parent_id: string | null;
+  level: "sentence" | "paragraph" | "full";
+  content: string;
+}
+
+interface SummaryDrilldownProps {
+  summaries: Summary[];
+}
+
+const LEVEL_LABELS: Record<Summary["level"], string> = {
+  full: "Executive Summary",
+  paragraph: "Summary",
+  sentence: "Detailed Summary",
+};
+
+/**
+ * Shows the executive summary and lets the reader drill down one level at a
+ * time. Each level was condensed from its parent, so the chain is followed
+ * through parent_id: full → paragraph → sentence.
+ */
+export function SummaryDrilldown({ summaries }: SummaryDrilldownProps) {
+  const chain = buildChain(summaries);
+  const [visibleLevels, setVisibleLevels] = useState(1);
+
+  if (chain.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground">No summaries have been generated for this source.</p>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {chain.slice(0, visibleLevels).map((summary, index) => (
+        <div
+          key={summary.id}
+          className={`rounded-lg border border-border p-6 ${index === 0 ? "bg-card" : "bg-muted/30"}`}
+        >
+          <h3 className="text-xs font-medium uppercase tracking-wider text-muted-foreground mb-3">
+            {LEVEL_LABELS[summary.level]}
+          </h3>
+          <div className={`whitespace-pre-line leading-relaxed ${index === 0 ? "text-base" : "text-sm"}`}>
+            {summary.content}
+          </div>
+        </div>
+      ))}
+
+      <div className="flex gap-3">
+        {visibleLevels < chain.length && (
+          <Button variant="outline" size="sm" className="gap-2" onClick={() => setVisibleLevels((n) => n + 1)}>
+            <ChevronDown className="h-4 w-4" />
+            Show {LEVEL_LABELS[chain[visibleLevels].level].toLowerCase()}
+          </Button>
+        )}
+        {visibleLevels > 1 && (
+          <Button variant="ghost" size="sm" className="gap-2" onClick={() => setVisibleLevels((n) => n - 1)}>
+            <ChevronUp className="h-4 w-4" />
+            Show less
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function buildChain(summaries: Summary[]): Summary[] {
+  const byId = new Map(summaries.map((summary) => [summary.id, summary]));
+  const chain: Summary[] = [];
+
+  let current = summaries.find((summary) => summary.level === "full");
+  while (current && chain.length < 3) {
+    chain.push(current);
+    current = current.parent_id ? byId.get(current.parent_id) : undefined;
+  }
+
+  // Fall back to level order if the links are incomplete
+  for (const level of ["paragraph", "sentence"] as const) {
+    if (!chain.some((summary) => summary.level === level)) {
+      const summary = summaries.find((s) => s.level === level);
+      if (summary) chain.push(summary);
+    }
+  }
+
+  return chain;
+}
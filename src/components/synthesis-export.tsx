@@ -0,0 +1,142 @@
+"use client";
+
+import { useState } from "react";
+import { Download, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { matrixViewToSearchParams, type MatrixView } from "@/lib/synthesis/matrix";
+
+type Format = "csv" | "xlsx" | "json";
+type Companion = "confidence" | "verified" | "context";
+
+interface SynthesisExportProps {
+  projectId: string;
+  view: MatrixView;
+  rowCount: number;
+}
+
+const FORMATS: { value: Format; label: string; description: string }[] = [
+  { value: "csv", label: "CSV", description: "Plain text, opens anywhere" },
+  { value: "xlsx", label: "Excel", description: "Workbook with a frozen header row" },
+  { value: "json", label: "JSON", description: "Structured, for scripts and other tools" },
+];
+
+const COMPANIONS: { value: Companion; label: string }[] = [
+  { value: "confidence", label: "Confidence" },
+  { value: "verified", label: "Verification state" },
+  { value: "context", label: "Context from the source" },
+];
+
+export function SynthesisExport({ projectId, view, rowCount }: SynthesisExportProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [format, setFormat] = useState<Format>("csv");
+  const [companions, setCompanions] = useState<Companion[]>([]);
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const toggleCompanion = (companion: Companion) => {
+    setCompanions((current) =>
+      current.includes(companion) ? current.filter((c) => c !== companion) : [...current, companion]
+    );
+  };
+
+  const download = async () => {
+    setIsExporting(true);
+    setError(null);
+
+    try {
+      // The export follows the table's current sort and filters
+      const params = matrixViewToSearchParams(view);
+      params.set("format", format);
+      if (companions.length > 0) params.set("include", companions.join(","));
+
+      const response = await fetch(`/api/projects/${projectId}/synthesis/export?${params}`);
+      if (!response.ok) {
+        const result = await response.json();
+        throw new Error(result.error || "Export failed");
+      }
+
+      const filename = response.headers.get("Content-Disposition")?.match(/filename="(.+)"/)?.[1] || `synthesis.${format}`;
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = filename;
+      link.click();
+      URL.revokeObjectURL(url);
+
+      setIsOpen(false);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : "Export failed");
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => { setIsOpen(open); setError(null); }}>
+      <DialogTrigger asChild>
+        <Button variant="outline" className="gap-2">
+          <Download className="h-4 w-4" />
+          Export
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Export Synthesis Matrix</DialogTitle>
+          <DialogDescription>
+            {rowCount} {rowCount === 1 ? "source" : "sources"}, in the order and with the filters shown in the table
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-6">
+          <div className="space-y-2">
+            <Label>Format</Label>
+            <div className="grid grid-cols-3 gap-2">
+              {FORMATS.map((option) => (
+                <button
+                  key={option.value}
+                  type="button"
+                  onClick={() => setFormat(option.value)}
+                  className={`rounded-md border p-3 text-left transition-colors ${format === option.value ? "border-primary bg-primary/5" : "border-border hover:bg-muted"}`}
+                >
+                  <div className="text-sm font-medium">{option.label}</div>
+                  <div className="text-xs text-muted-foreground">{option.description}</div>
+                </button>
+              ))}
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label>Include for each parameter</Label>
+            {COMPANIONS.map((option) => (
+              <label key={option.value} className="flex items-center gap-2 text-sm">
+                <input
+                  type="checkbox"
+                  checked={companions.includes(option.value)}
+                  onChange={() => toggleCompanion(option.value)}
+                />
+                {option.label}
+              </label>
+            ))}
+          </div>
+          {error && (
+            <p className="text-sm text-red-600">{error}</p>
+          )}
+          <div className="flex justify-end gap-3">
+            <Button type="button" variant="outline" onClick={() => setIsOpen(false)}>Cancel</Button>
+            <Button onClick={download} disabled={isExporting || rowCount === 0} className="gap-2">
+              {isExporting ? <Loader2 className="h-4 w-4 animate-spin" /> : <Download className="h-4 w-4" />}
+              {isExporting ? "Exporting..." : "Download"}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
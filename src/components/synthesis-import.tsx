@@ -0,0 +1,339 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { AlertTriangle, FileSpreadsheet, Loader2, Upload } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import type { ColumnTarget, ImportMapping, ImportPlan } from "@/lib/synthesis/import";
+
+interface SynthesisImportProps {
+  projectId: string;
+}
+
+interface ImportPreview {
+  headers: string[];
+  rowCount: number;
+  sample: string[][];
+  parameters: { id: string; name: string; type: string }[];
+  mapping: ImportMapping;
+  plan: Omit<ImportPlan, "cells">;
+}
+
+// Longer lists are summarised rather than listed in full
+const MAX_LISTED = 20;
+
+const selectClassName = "flex h-9 w-full rounded-md border border-input bg-background px-3 py-1 text-sm ring-offset-background";
+
+export function SynthesisImport({ projectId }: SynthesisImportProps) {
+  const router = useRouter();
+  const [isOpen, setIsOpen] = useState(false);
+  const [file, setFile] = useState<File | null>(null);
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [mapping, setMapping] = useState<ImportMapping | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const reset = () => {
+    setFile(null);
+    setPreview(null);
+    setMapping(null);
+    setError(null);
+  };
+
+  const post = async (selected: File, nextMapping: ImportMapping | null, commit: boolean) => {
+    const formData = new FormData();
+    formData.append("file", selected);
+    if (nextMapping) formData.append("mapping", JSON.stringify(nextMapping));
+    if (commit) formData.append("commit", "true");
+
+    const response = await fetch(`/api/projects/${projectId}/synthesis/import`, {
+      method: "POST",
+      body: formData,
+    });
+    const result = await response.json();
+    if (!response.ok) {
+      throw new Error(result.error || "Import failed");
+    }
+    return result;
+  };
+
+  // The server re-reads the file and re-plans on every mapping change
+  const refreshPreview = async (selected: File, nextMapping: ImportMapping | null) => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const result: ImportPreview = await post(selected, nextMapping, false);
+      setPreview(result);
+      setMapping(result.mapping);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : "Failed to read the file");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const chooseFile = (selected: File | undefined) => {
+    reset();
+    if (!selected) return;
+    setFile(selected);
+    refreshPreview(selected, null);
+  };
+
+  const updateMapping = (next: ImportMapping, refresh = true) => {
+    setMapping(next);
+    if (refresh && file) refreshPreview(file, next);
+  };
+
+  const setColumnTarget = (column: number, target: ColumnTarget, refresh = true) => {
+    if (!mapping) return;
+    updateMapping({ ...mapping, columns: mapping.columns.map((current, index) => index === column ? target : current) }, refresh);
+  };
+
+  const runImport = async () => {
+    if (!file || !mapping) return;
+    setIsImporting(true);
+    setError(null);
+    try {
+      await post(file, mapping, true);
+      setIsOpen(false);
+      reset();
+      router.refresh();
+    } catch (error) {
+      setError(error instanceof Error ? error.message : "Import failed");
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const plan = preview?.plan;
+  const skippedRows = plan?.rows.filter((row) => row.match.kind === "skip") || [];
+  const sampleValue = (column: number) => preview?.sample.map((row) => row[column]).find(Boolean) || "";
+
+  const renderTargetValue = (target: ColumnTarget) =>
+    target.kind === "existing" ? `existing:${target.parameterId}` : target.kind;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => { setIsOpen(open); if (!open) reset(); }}>
+      <DialogTrigger asChild>
+        <Button variant="outline" className="gap-2">
+          <Upload className="h-4 w-4" />
+          Import
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import Spreadsheet</DialogTitle>
+          <DialogDescription>
+            Map the columns of a CSV or Excel file to parameters and its rows to sources. Imported values are saved as verified.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          <div className="space-y-2">
+            <Label htmlFor="import-file">File</Label>
+            <Input
+              id="import-file"
+              type="file"
+              accept=".csv,.tsv,.xlsx"
+              onChange={(e) => chooseFile(e.target.files?.[0])}
+            />
+          </div>
+
+          {preview && mapping && (
+            <>
+              {/* Source Columns */}
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="import-name-column">Source name column</Label>
+                  <select
+                    id="import-name-column"
+                    value={mapping.nameColumn ?? ""}
+                    onChange={(e) => updateMapping({ ...mapping, nameColumn: e.target.value === "" ? null : Number(e.target.value) })}
+                    className={selectClassName}
+                  >
+                    <option value="">None</option>
+                    {preview.headers.map((header, index) => (
+                      <option key={index} value={index}>{header}</option>
+                    ))}
+                  </select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="import-url-column">Source URL column</Label>
+                  <select
+                    id="import-url-column"
+                    value={mapping.urlColumn ?? ""}
+                    onChange={(e) => updateMapping({ ...mapping, urlColumn: e.target.value === "" ? null : Number(e.target.value) })}
+                    className={selectClassName}
+                  >
+                    <option value="">None</option>
+                    {preview.headers.map((header, index) => (
+                      <option key={index} value={index}>{header}</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+
+              {/* Value Columns */}
+              <div className="space-y-2">
+                <Label>Columns</Label>
+                <div className="rounded-lg border border-border divide-y divide-border">
+                  {preview.headers.map((header, index) => {
+                    if (index === mapping.nameColumn || index === mapping.urlColumn) return null;
+                    const target = mapping.columns[index];
+
+                    return (
+                      <div key={index} className="grid grid-cols-[1fr_1fr_1.5fr] items-center gap-3 px-4 py-2">
+                        <div className="min-w-0">
+                          <div className="text-sm font-medium truncate">{header}</div>
+                          <div className="text-xs text-muted-foreground truncate">{sampleValue(index) || "Empty"}</div>
+                        </div>
+                        <select
+                          value={renderTargetValue(target)}
+                          onChange={(e) => {
+                            const value = e.target.value;
+                            setColumnTarget(index,
+                              value === "skip" ? { kind: "skip" }
+                                : value === "new" ? { kind: "new", name: header, type: "text" }
+                                  : { kind: "existing", parameterId: value.slice("existing:".length) }
+                            );
+                          }}
+                          className={selectClassName}
+                        >
+                          <option value="skip">Skip</option>
+                          <option value="new">New parameter</option>
+                          {preview.parameters.map((parameter) => (
+                            <option key={parameter.id} value={`existing:${parameter.id}`}>{parameter.name}</option>
+                          ))}
+                        </select>
+                        {target.kind === "new" && (
+                          <div className="flex gap-2">
+                            <Input
+                              value={target.name}
+                              onChange={(e) => setColumnTarget(index, { ...target, name: e.target.value }, false)}
+                              onBlur={() => file && refreshPreview(file, mapping)}
+                              className="h-9"
+                              aria-label="Parameter name"
+                            />
+                            <select
+                              value={target.type}
+                              onChange={(e) => setColumnTarget(index, { ...target, type: e.target.value as typeof target.type })}
+                              className={`${selectClassName} w-32`}
+                              aria-label="Parameter type"
+                            >
+                              <option value="text">Text</option>
+                              <option value="number">Number</option>
+                              <option value="date">Date</option>
+                              <option value="category">Category</option>
+                            </select>
+                          </div>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <label className="flex items-center gap-2 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={mapping.createMissingSources}
+                    onChange={(e) => updateMapping({ ...mapping, createMissingSources: e.target.checked })}
+                  />
+                  Create placeholder sources for rows that match no source
+                </label>
+                <label className="flex items-center gap-2 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={mapping.overwrite}
+                    onChange={(e) => updateMapping({ ...mapping, overwrite: e.target.checked })}
+                  />
+                  Replace verified values that differ from the spreadsheet
+                </label>
+              </div>
+
+              {/* Preview */}
+              {plan && (
+                <div className="rounded-lg border border-border bg-muted/30 p-4 space-y-4">
+                  <div className="flex items-center gap-2 text-sm font-medium">
+                    <FileSpreadsheet className="h-4 w-4" />
+                    {preview.rowCount} rows: {plan.counts.matchedSources} matched, {plan.counts.newSources} new {plan.counts.newSources === 1 ? "source" : "sources"}, {plan.counts.skippedRows} skipped
+                  </div>
+                  <p className="text-sm text-muted-foreground">
+                    {plan.counts.values} values will be written
+                    {plan.newParameters.length > 0 && ` into ${plan.newParameters.length} new ${plan.newParameters.length === 1 ? "parameter" : "parameters"}`}
+                    {plan.counts.unchanged > 0 && `; ${plan.counts.unchanged} already match`}
+                  </p>
+
+                  {plan.conflicts.length > 0 && (
+                    <div className="space-y-2">
+                      <div className="flex items-center gap-2 text-sm font-medium text-yellow-700 dark:text-yellow-500">
+                        <AlertTriangle className="h-4 w-4" />
+                        {plan.conflicts.length} verified {plan.conflicts.length === 1 ? "value differs" : "values differ"} from the spreadsheet
+                        {mapping.overwrite ? " and will be replaced" : " and will be kept"}
+                      </div>
+                      <ul className="space-y-1 text-xs">
+                        {plan.conflicts.slice(0, MAX_LISTED).map((conflict) => (
+                          <li key={`${conflict.row}-${conflict.parameterName}`}>
+                            Row {conflict.row}, {conflict.sourceName} / {conflict.parameterName}:{" "}
+                            <span className="text-muted-foreground">&ldquo;{conflict.current}&rdquo;</span> → &ldquo;{conflict.incoming}&rdquo;
+                          </li>
+                        ))}
+                        {plan.conflicts.length > MAX_LISTED && (
+                          <li className="text-muted-foreground">and {plan.conflicts.length - MAX_LISTED} more</li>
+                        )}
+                      </ul>
+                    </div>
+                  )}
+
+                  {skippedRows.length > 0 && (
+                    <div className="space-y-2">
+                      <div className="text-sm font-medium">Skipped rows</div>
+                      <ul className="space-y-1 text-xs text-muted-foreground">
+                        {skippedRows.slice(0, MAX_LISTED).map((row) => (
+                          <li key={row.row}>
+                            Row {row.row}{row.label && ` (${row.label})`}: {row.match.kind === "skip" && row.match.reason}
+                          </li>
+                        ))}
+                        {skippedRows.length > MAX_LISTED && (
+                          <li>and {skippedRows.length - MAX_LISTED} more</li>
+                        )}
+                      </ul>
+                    </div>
+                  )}
+                </div>
+              )}
+            </>
+          )}
+
+          {error && (
+            <p className="text-sm text-red-600">{error}</p>
+          )}
+
+          <div className="flex justify-end gap-3">
+            <Button type="button" variant="outline" onClick={() => setIsOpen(false)}>Cancel</Button>
+            <Button
+              onClick={runImport}
+              disabled={!plan || isLoading || isImporting || (plan.counts.values === 0 && plan.newParameters.length === 0)}
+              className="gap-2"
+            >
+              {(isLoading || isImporting) && <Loader2 className="h-4 w-4 animate-spin" />}
+              {isImporting ? "Importing..." : plan ? `Import ${plan.counts.values} values` : "Import"}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
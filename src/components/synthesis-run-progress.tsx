@@ -0,0 +1,114 @@
+"use client";
+
+import { AlertCircle, CheckCircle, Loader2 } from "lucide-react";
+
+export interface SynthesisRunItem {
+  id: string;
+  parameter_id: string;
+  data_source_id: string;
+  status: "pending" | "running" | "completed" | "failed";
+  error?: string | null;
+}
+
+export interface SynthesisRunSummary {
+  id: string;
+  discover: boolean;
+  status: "pending" | "running" | "completed" | "failed";
+  phase?: "discovery" | "extraction" | null;
+  proposals_created: number;
+  error?: string | null;
+  finished_at?: string | null;
+  items?: SynthesisRunItem[];
+}
+
+interface SynthesisRunProgressProps {
+  run: SynthesisRunSummary;
+  active: boolean;
+  sourceNames: Map<string, string>;
+}
+
+// Per-source progress of the current run, or the outcome of the last one
+export function SynthesisRunProgress({ run, active, sourceNames }: SynthesisRunProgressProps) {
+  const items = run.items || [];
+  const done = items.filter((item) => item.status === "completed").length;
+  const failed = items.filter((item) => item.status === "failed").length;
+  const percent = items.length > 0 ? Math.round(((done + failed) / items.length) * 100) : 0;
+
+  // Group cells by source so progress reads per document
+  const bySource = new Map<string, SynthesisRunItem[]>();
+  for (const item of items) {
+    bySource.set(item.data_source_id, [...(bySource.get(item.data_source_id) || []), item]);
+  }
+
+  const heading = active
+    ? run.phase === "discovery"
+      ? "Discovering parameters from a sample of sources..."
+      : `Extracting values: ${done + failed} of ${items.length} cells`
+    : run.status === "failed"
+      ? "Last analysis failed"
+      : `Last analysis: ${done} value${done === 1 ? "" : "s"} extracted` +
+        (failed > 0 ? `, ${failed} failed` : "") +
+        (run.discover ? `, ${run.proposals_created} new suggestion${run.proposals_created === 1 ? "" : "s"}` : "");
+
+  // A finished run with nothing to report isn't worth the space
+  if (!active && failed === 0 && !run.error) {
+    return <p className="text-xs text-muted-foreground">{heading}</p>;
+  }
+
+  return (
+    <div className="rounded-lg border border-border bg-card p-4 space-y-3">
+      <div className="flex items-center gap-2 text-sm font-medium">
+        {active ? (
+          <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+        ) : failed > 0 || run.error ? (
+          <AlertCircle className="h-4 w-4 text-red-600" />
+        ) : (
+          <CheckCircle className="h-4 w-4 text-green-600" />
+        )}
+        {heading}
+      </div>
+
+      {run.error && (
+        <p className="text-xs text-red-600">{run.error}</p>
+      )}
+
+      {active && items.length > 0 && (
+        <div className="h-1.5 w-full rounded-full bg-muted overflow-hidden">
+          <div className="h-full bg-primary transition-all" style={{ width: `${percent}%` }} />
+        </div>
+      )}
+
+      {bySource.size > 0 && (
+        <div className="max-h-48 overflow-y-auto divide-y divide-border text-xs">
+          {[...bySource.entries()]
+            .filter(([, sourceItems]) => active || sourceItems.some((item) => item.status === "failed"))
+            .map(([dataSourceId, sourceItems]) => {
+              const sourceDone = sourceItems.filter((item) => item.status === "completed").length;
+              const sourceFailed = sourceItems.filter((item) => item.status === "failed");
+              const running = sourceItems.some((item) => item.status === "running");
+
+              return (
+                <div key={dataSourceId} className="flex items-start justify-between gap-3 py-1.5">
+                  <div className="min-w-0">
+                    <div className="truncate">{sourceNames.get(dataSourceId) || "Unknown source"}</div>
+                    {sourceFailed[0]?.error && (
+                      <div className="text-red-600 truncate" title={sourceFailed[0].error}>
+                        {sourceFailed[0].error}
+                      </div>
+                    )}
+                  </div>
+                  <div className="flex shrink-0 items-center gap-1 text-muted-foreground">
+                    {running && <Loader2 className="h-3 w-3 animate-spin" />}
+                    {sourceDone}/{sourceItems.length}
+                    {sourceFailed.length > 0 && (
+                      <span className="text-red-600">({sourceFailed.length} failed)</span>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+        </div>
+      )}
+    </div>
+  );
+}
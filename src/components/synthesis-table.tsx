@@ -1,7 +1,8 @@
 "use client";
 
-import { useState, useTransition } from "react";
-import { Plus, Edit, Check, X, Brain, Clock, AlertCircle } from "lucide-react";
+import { useOptimistic, useState, useTransition } from "react";
+import { useRouter } from "next/navigation";
+import { Plus, Edit, Check, X, Brain, Clock, AlertCircle, Loader2, ArrowUp, ArrowDown, Search } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { 
@@ -12,6 +13,16 @@ import {
   DialogTrigger 
 } from "@/components/ui/dialog";
 import { Label } from "@/components/ui/label";
+import { SynthesisRunProgress, type SynthesisRunSummary } from "@/components/synthesis-run-progress";
+import { SynthesisExport } from "@/components/synthesis-export";
+import { SynthesisImport } from "@/components/synthesis-import";
+import { applyMatrixView, DEFAULT_MATRIX_VIEW, type MatrixView } from "@/lib/synthesis/matrix";
+import {
+  acceptParameterProposal,
+  createSynthesisParameter,
+  rejectParameterProposal,
+  saveSynthesisValue,
+} from "@/app/dashboard/[projectId]/synthesis/actions";
 
 interface DataSource {
   id: string;
@@ -40,24 +51,46 @@ interface SynthesisValue {
   confidence?: number;
   context?: string;
   is_verified: boolean;
+  edited_at?: string;
   parameter?: SynthesisParameter;
   dataSource?: DataSource;
 }
 
+interface ParameterProposal {
+  id: string;
+  name: string;
+  type: string;
+  description?: string;
+  importance?: number;
+}
+
 interface SynthesisTableProps {
   projectId: string;
   dataSources: DataSource[];
   synthesisParameters: SynthesisParameter[];
   synthesisValues: SynthesisValue[];
+  parameterProposals: ParameterProposal[];
+  latestRun: SynthesisRunSummary | null;
+  runActive: boolean;
+  // False for viewers: the matrix is read-only and no runs can be started
+  canEdit: boolean;
 }
 
 export function SynthesisTable({ 
   projectId, 
   dataSources, 
   synthesisParameters, 
-  synthesisValues 
+  synthesisValues,
+  parameterProposals,
+  latestRun,
+  runActive,
+  canEdit
 }: SynthesisTableProps) {
+  const router = useRouter();
   const [isAddingParameter, setIsAddingParameter] = useState(false);
+  const [newParameter, setNewParameter] = useState({ name: "", type: "text", description: "" });
+  const [parameterError, setParameterError] = useState<string | null>(null);
+  const [isCreatingParameter, setIsCreatingParameter] = useState(false);
   const [editingCell, setEditingCell] = useState<{
     dataSourceId: string;
     parameterId: string;
@@ -65,14 +98,56 @@ export function SynthesisTable({
   const [editValue, setEditValue] = useState("");
   const [isPending, startTransition] = useTransition();
   const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const [view, setView] = useState<MatrixView>(DEFAULT_MATRIX_VIEW);
+
+  // Columns the active run is still filling
+  const extractingParameterIds = new Set(
+    runActive
+      ? (latestRun?.items || [])
+          .filter(item => item.status === "pending" || item.status === "running")
+          .map(item => item.parameter_id)
+      : []
+  );
+  const sourceNames = new Map(dataSources.map(source => [source.id, source.name]));
+  const [decidingProposalId, setDecidingProposalId] = useState<string | null>(null);
+
+  // Edits show immediately; the server props replace them once the save
+  // revalidates the page, or they roll back if it fails
+  const [optimisticValues, applyOptimisticValue] = useOptimistic(
+    synthesisValues,
+    (current: SynthesisValue[], update: SynthesisValue) => [
+      ...current.filter(v =>
+        !(v.data_source_id === update.data_source_id && v.parameter_id === update.parameter_id)
+      ),
+      update,
+    ]
+  );
 
   // Create a lookup map for synthesis values
   const valuesMap = new Map<string, SynthesisValue>();
-  synthesisValues.forEach(value => {
+  optimisticValues.forEach(value => {
     const key = `${value.data_source_id}-${value.parameter_id}`;
     valuesMap.set(key, value);
   });
 
+  const visibleSources = applyMatrixView(dataSources, synthesisParameters, valuesMap, view);
+
+  // A second click on the sorted column flips the direction
+  const sortBy = (key: string) => {
+    setView(current => ({
+      ...current,
+      sortBy: key,
+      sortDirection: current.sortBy === key && current.sortDirection === "asc" ? "desc" : "asc",
+    }));
+  };
+
+  const renderSortIndicator = (key: string) => {
+    if (view.sortBy !== key) return null;
+    return view.sortDirection === "asc"
+      ? <ArrowUp className="h-3 w-3 shrink-0" />
+      : <ArrowDown className="h-3 w-3 shrink-0" />;
+  };
+
   // Get value for a specific cell
   const getCellValue = (dataSourceId: string, parameterId: string): SynthesisValue | undefined => {
     const key = `${dataSourceId}-${parameterId}`;
@@ -92,12 +167,80 @@ export function SynthesisTable({
 
   const saveCell = () => {
     if (!editingCell) return;
-    
-    // TODO: Implement save to database
-    console.log("Saving cell:", editingCell, editValue);
-    
+
+    const { dataSourceId, parameterId } = editingCell;
+    const currentValue = getCellValue(dataSourceId, parameterId);
+    const value = editValue;
+
     setEditingCell(null);
     setEditValue("");
+
+    startTransition(async () => {
+      applyOptimisticValue({
+        ...(currentValue ?? {
+          id: `pending-${dataSourceId}-${parameterId}`,
+          data_source_id: dataSourceId,
+          parameter_id: parameterId,
+        }),
+        value: value.trim() || undefined,
+        is_verified: !!value.trim(),
+        edited_at: new Date().toISOString(),
+      });
+
+      const result = await saveSynthesisValue({ projectId, parameterId, dataSourceId, value });
+      if (result?.error) {
+        alert(`Failed to save value: ${result.error}`);
+      }
+    });
+  };
+
+  const openAddParameter = (open: boolean) => {
+    setIsAddingParameter(open);
+    if (!open) {
+      setNewParameter({ name: "", type: "text", description: "" });
+      setParameterError(null);
+    }
+  };
+
+  const addParameter = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsCreatingParameter(true);
+    setParameterError(null);
+
+    const result = await createSynthesisParameter({ projectId, ...newParameter });
+    setIsCreatingParameter(false);
+
+    if (result.error || !result.parameter) {
+      setParameterError(result.error || "Failed to add parameter");
+      return;
+    }
+
+    openAddParameter(false);
+    await extractParameter(result.parameter.id);
+  };
+
+  // Fills a parameter's column for every processed source
+  const extractParameter = async (parameterId: string) => {
+    try {
+      const response = await fetch('/api/synthesis/extract', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ projectId, parameterId }),
+      });
+
+      if (!response.ok) {
+        const result = await response.json();
+        throw new Error(result.error || 'Extraction failed');
+      }
+    } catch (error) {
+      console.error("Extraction error:", error);
+      alert(`Failed to start extraction: ${error instanceof Error ? error.message : "Please try again."}`);
+    } finally {
+      // Picks up the new run; the page keeps refreshing until it finishes
+      router.refresh();
+    }
   };
 
   const analyzeAndSuggestParameters = async () => {
@@ -112,22 +255,42 @@ export function SynthesisTable({
       });
 
       if (!response.ok) {
-        throw new Error('Analysis failed');
+        const result = await response.json();
+        throw new Error(result.error || 'Analysis failed');
       }
 
-      const result = await response.json();
-      console.log("Analysis result:", result);
-      
-      // Refresh the page to show new parameters
-      window.location.reload();
+      router.refresh();
     } catch (error) {
       console.error("Analysis error:", error);
-      alert("Failed to analyze sources. Please try again.");
+      alert(`Failed to analyze sources: ${error instanceof Error ? error.message : "Please try again."}`);
     } finally {
       setIsAnalyzing(false);
     }
   };
 
+  const acceptProposal = async (proposalId: string) => {
+    setDecidingProposalId(proposalId);
+    const result = await acceptParameterProposal(projectId, proposalId);
+    setDecidingProposalId(null);
+
+    if (result.error || !result.parameter) {
+      alert(`Failed to add parameter: ${result.error}`);
+      return;
+    }
+
+    await extractParameter(result.parameter.id);
+  };
+
+  const rejectProposal = async (proposalId: string) => {
+    setDecidingProposalId(proposalId);
+    const result = await rejectParameterProposal(projectId, proposalId);
+    setDecidingProposalId(null);
+
+    if (result.error) {
+      alert(`Failed to dismiss suggestion: ${result.error}`);
+    }
+  };
+
   const renderConfidenceIndicator = (confidence?: number) => {
     if (!confidence) return null;
     
@@ -176,24 +339,32 @@ export function SynthesisTable({
 
     return (
       <div 
-        className="group flex items-center justify-between min-h-[32px] cursor-pointer hover:bg-muted/50 rounded px-2 -mx-2 min-w-0"
-        onClick={() => startEditing(dataSource.id, parameter.id)}
+        className={`group flex items-center justify-between min-h-[32px] rounded px-2 -mx-2 min-w-0 ${canEdit ? "cursor-pointer hover:bg-muted/50" : ""}`}
+        onClick={canEdit ? () => startEditing(dataSource.id, parameter.id) : undefined}
+        title={cellValue?.edited_at ? `Edited ${new Date(cellValue.edited_at).toLocaleString()}` : undefined}
       >
         <div className="flex-1 min-w-0">
           <div className={`text-sm truncate ${isAiExtracted ? 'text-muted-foreground italic' : ''}`}>
             {displayValue || (
-              <span className="text-muted-foreground">Click to add</span>
+              <span className="text-muted-foreground">{canEdit ? "Click to add" : "—"}</span>
             )}
           </div>
-          {cellValue?.confidence && (
+          {cellValue?.is_verified ? (
+            <div className="mt-1 inline-flex items-center gap-1 text-xs text-green-600">
+              <Check className="h-3 w-3" />
+              Verified
+            </div>
+          ) : cellValue?.confidence ? (
             <div className="mt-1">
               {renderConfidenceIndicator(cellValue.confidence)}
             </div>
-          )}
-        </div>
-        <div className="opacity-0 group-hover:opacity-100 transition-opacity">
-          <Edit className="h-3 w-3 text-muted-foreground" />
+          ) : null}
         </div>
+        {canEdit && (
+          <div className="opacity-0 group-hover:opacity-100 transition-opacity">
+            <Edit className="h-3 w-3 text-muted-foreground" />
+          </div>
+        )}
       </div>
     );
   };
@@ -206,56 +377,86 @@ export function SynthesisTable({
           <h3 className="text-lg font-semibold">Synthesis Matrix</h3>
           <p className="text-sm text-muted-foreground">
             Track key parameters across your data sources
+            {isPending && <span className="ml-2 text-xs">Saving...</span>}
           </p>
         </div>
         
-        <Dialog>
-          <DialogTrigger asChild>
-            <Button className="gap-2">
-              <Plus className="h-4 w-4" />
-              Add Parameter
-            </Button>
-          </DialogTrigger>
-          <DialogContent>
-            <DialogHeader>
-              <DialogTitle>Add New Parameter</DialogTitle>
-            </DialogHeader>
-            <form className="space-y-4">
-              <div className="space-y-2">
-                <Label htmlFor="param-name">Parameter Name</Label>
-                <Input
-                  id="param-name"
-                  placeholder="e.g., Publication Year, Technology Maturity"
-                />
-              </div>
-              <div className="space-y-2">
-                <Label htmlFor="param-type">Type</Label>
-                <select 
-                  id="param-type"
-                  className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background"
+        <div className="flex items-center gap-2">
+          {canEdit && <SynthesisImport projectId={projectId} />}
+          {synthesisParameters.length > 0 && (
+            <SynthesisExport projectId={projectId} view={view} rowCount={visibleSources.length} />
+          )}
+          {canEdit && (
+            <Dialog open={isAddingParameter} onOpenChange={openAddParameter}>
+              <DialogTrigger asChild>
+                {/* A new column could not be filled until the run finishes */}
+                <Button
+                  className="gap-2"
+                  disabled={runActive}
+                  title={runActive ? "Wait for the running analysis to finish" : undefined}
                 >
-                  <option value="text">Text</option>
-                  <option value="number">Number</option>
-                  <option value="date">Date</option>
-                  <option value="category">Category</option>
-                </select>
-              </div>
-              <div className="space-y-2">
-                <Label htmlFor="param-desc">Description (optional)</Label>
-                <Input
-                  id="param-desc"
-                  placeholder="Brief description of what this tracks"
-                />
-              </div>
-              <div className="flex justify-end gap-3">
-                <Button type="button" variant="outline">Cancel</Button>
-                <Button type="submit">Add Parameter</Button>
-              </div>
-            </form>
-          </DialogContent>
-        </Dialog>
+                  <Plus className="h-4 w-4" />
+                  Add Parameter
+                </Button>
+              </DialogTrigger>
+              <DialogContent>
+                <DialogHeader>
+                  <DialogTitle>Add New Parameter</DialogTitle>
+                </DialogHeader>
+                <form className="space-y-4" onSubmit={addParameter}>
+                  <div className="space-y-2">
+                    <Label htmlFor="param-name">Parameter Name</Label>
+                    <Input
+                      id="param-name"
+                      placeholder="e.g., Publication Year, Technology Maturity"
+                      value={newParameter.name}
+                      onChange={(e) => setNewParameter({ ...newParameter, name: e.target.value })}
+                      required
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="param-type">Type</Label>
+                    <select 
+                      id="param-type"
+                      value={newParameter.type}
+                      onChange={(e) => setNewParameter({ ...newParameter, type: e.target.value })}
+                      className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background"
+                    >
+                      <option value="text">Text</option>
+                      <option value="number">Number</option>
+                      <option value="date">Date</option>
+                      <option value="category">Category</option>
+                    </select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="param-desc">Description (optional)</Label>
+                    <Input
+                      id="param-desc"
+                      placeholder="Brief description of what this tracks"
+                      value={newParameter.description}
+                      onChange={(e) => setNewParameter({ ...newParameter, description: e.target.value })}
+                    />
+                  </div>
+                  {parameterError && (
+                    <p className="text-sm text-red-600">{parameterError}</p>
+                  )}
+                  <div className="flex justify-end gap-3">
+                    <Button type="button" variant="outline" onClick={() => openAddParameter(false)}>Cancel</Button>
+                    <Button type="submit" disabled={isCreatingParameter || !newParameter.name.trim()}>
+                      {isCreatingParameter ? "Adding..." : "Add Parameter"}
+                    </Button>
+                  </div>
+                </form>
+              </DialogContent>
+            </Dialog>
+          )}
+        </div>
       </div>
 
+      {latestRun && (
+        <SynthesisRunProgress run={latestRun} active={runActive} sourceNames={sourceNames} />
+      )}
+
       {/* The Synthesis Table */}
       {synthesisParameters.length === 0 ? (
         <div className="flex flex-col items-center justify-center rounded-2xl border border-dashed border-border bg-card p-12 text-center">
@@ -264,88 +465,191 @@ export function SynthesisTable({
           </div>
           <h3 className="mt-4 text-lg font-semibold">No parameters yet</h3>
           <p className="mt-2 text-sm text-muted-foreground max-w-sm mb-6">
-            Add your first parameter to start tracking information across your sources.
+            {canEdit
+              ? "Add your first parameter to start tracking information across your sources."
+              : "An editor has not added any parameters yet."}
           </p>
-          <Button className="gap-2">
-            <Plus className="h-4 w-4" />
-            Add Parameter
-          </Button>
+          {canEdit && (
+            <Button className="gap-2" onClick={() => openAddParameter(true)} disabled={runActive}>
+              <Plus className="h-4 w-4" />
+              Add Parameter
+            </Button>
+          )}
         </div>
       ) : (
-        <div className="border border-border rounded-lg bg-card overflow-hidden">
-          {/* Table Header */}
-          <div className="bg-muted/50 border-b border-border">
-            <div className="flex">
-              <div className="w-64 px-6 py-3 font-medium text-sm border-r border-border">
-                Source Document
-              </div>
-              {synthesisParameters.map((param) => (
-                <div key={param.id} className="min-w-[200px] px-4 py-3 border-r border-border last:border-r-0">
-                  <div className="font-medium text-sm">{param.name}</div>
-                  {param.description && (
-                    <div className="text-xs text-muted-foreground mt-1">
-                      {param.description}
-                    </div>
-                  )}
-                  {param.is_system && (
-                    <div className="flex items-center gap-1 mt-1">
-                      <Brain className="h-3 w-3 text-blue-500" />
-                      <span className="text-xs text-blue-600">AI Discovered</span>
-                    </div>
-                  )}
-                </div>
-              ))}
+        <div className="space-y-3">
+          {/* Filters */}
+          <div className="flex flex-wrap items-center gap-3">
+            <div className="relative w-full max-w-xs">
+              <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+              <Input
+                placeholder="Filter sources and values"
+                value={view.query}
+                onChange={(e) => setView({ ...view, query: e.target.value })}
+                className="pl-9"
+              />
             </div>
+            <select
+              value={view.status}
+              onChange={(e) => setView({ ...view, status: e.target.value as MatrixView["status"] })}
+              className="flex h-10 rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background"
+            >
+              <option value="all">All sources</option>
+              <option value="unverified">With unverified values</option>
+              <option value="missing">With missing values</option>
+            </select>
+            {view.sortBy !== DEFAULT_MATRIX_VIEW.sortBy && (
+              <Button variant="ghost" size="sm" onClick={() => setView({ ...view, sortBy: DEFAULT_MATRIX_VIEW.sortBy, sortDirection: DEFAULT_MATRIX_VIEW.sortDirection })}>
+                Newest first
+              </Button>
+            )}
+            <span className="text-sm text-muted-foreground">
+              {visibleSources.length} of {dataSources.length} sources
+            </span>
           </div>
 
-          {/* Table Body */}
-          <div className="divide-y divide-border">
-            {dataSources.map((source) => (
-              <div key={source.id} className="flex hover:bg-muted/25 transition-colors">
-                <div className="w-64 px-6 py-4 border-r border-border">
-                  <div className="font-medium text-sm truncate">{source.name}</div>
-                  <div className="text-xs text-muted-foreground mt-1">
-                    {source.type} • {new Date(source.created_at).toLocaleDateString()}
-                  </div>
-                </div>
+          <div className="border border-border rounded-lg bg-card overflow-hidden">
+            {/* Table Header */}
+            <div className="bg-muted/50 border-b border-border">
+              <div className="flex">
+                <button
+                  type="button"
+                  onClick={() => sortBy("name")}
+                  className="w-64 px-6 py-3 font-medium text-sm border-r border-border flex items-center gap-1 text-left hover:text-foreground"
+                >
+                  Source Document
+                  {renderSortIndicator("name")}
+                </button>
                 {synthesisParameters.map((param) => (
-                  <div key={param.id} className="min-w-[200px] px-4 py-4 border-r border-border last:border-r-0">
-                    {renderCell(source, param)}
+                  <div key={param.id} className="min-w-[200px] px-4 py-3 border-r border-border last:border-r-0">
+                    <button
+                      type="button"
+                      onClick={() => sortBy(param.id)}
+                      className="font-medium text-sm flex items-center gap-1 text-left"
+                      title={`Sort by ${param.name}`}
+                    >
+                      {param.name}
+                      {renderSortIndicator(param.id)}
+                    </button>
+                    {param.description && (
+                      <div className="text-xs text-muted-foreground mt-1">
+                        {param.description}
+                      </div>
+                    )}
+                    {param.is_system && (
+                      <div className="flex items-center gap-1 mt-1">
+                        <Brain className="h-3 w-3 text-blue-500" />
+                        <span className="text-xs text-blue-600">AI Discovered</span>
+                      </div>
+                    )}
+                    {extractingParameterIds.has(param.id) && (
+                      <div className="flex items-center gap-1 mt-1">
+                        <Loader2 className="h-3 w-3 animate-spin text-muted-foreground" />
+                        <span className="text-xs text-muted-foreground">Extracting values...</span>
+                      </div>
+                    )}
                   </div>
                 ))}
               </div>
-            ))}
+            </div>
+
+            {/* Table Body */}
+            <div className="divide-y divide-border">
+              {visibleSources.length === 0 && (
+                <div className="px-6 py-8 text-center text-sm text-muted-foreground">
+                  No sources match these filters
+                </div>
+              )}
+              {visibleSources.map((source) => (
+                <div key={source.id} className="flex hover:bg-muted/25 transition-colors">
+                  <div className="w-64 px-6 py-4 border-r border-border">
+                    <div className="font-medium text-sm truncate">{source.name}</div>
+                    <div className="text-xs text-muted-foreground mt-1">
+                      {source.type} • {new Date(source.created_at).toLocaleDateString()}
+                    </div>
+                  </div>
+                  {synthesisParameters.map((param) => (
+                    <div key={param.id} className="min-w-[200px] px-4 py-4 border-r border-border last:border-r-0">
+                      {renderCell(source, param)}
+                    </div>
+                  ))}
+                </div>
+              ))}
+            </div>
           </div>
         </div>
       )}
 
       {/* AI Assistance Panel */}
-      <div className="rounded-lg border border-blue-200 bg-blue-50/50 dark:border-blue-800 dark:bg-blue-950/20 p-4">
-        <div className="flex items-start gap-3">
-          <div className="rounded-full bg-blue-100 p-2 dark:bg-blue-900/50">
-            <Brain className="h-4 w-4 text-blue-600 dark:text-blue-400" />
-          </div>
-          <div className="flex-1">
-            <h4 className="font-medium text-sm text-blue-900 dark:text-blue-100">
-              AI Parameter Suggestions
-            </h4>
-            <p className="text-sm text-blue-800 dark:text-blue-200 mt-1">
-              Based on your documents, I can suggest relevant parameters to track. 
-              Click below to analyze your sources and discover key dimensions.
-            </p>
-            <Button 
-              size="sm" 
-              variant="outline" 
-              className="mt-3 gap-2" 
-              onClick={analyzeAndSuggestParameters}
-              disabled={isAnalyzing}
-            >
-              <Brain className="h-3 w-3" />
-              {isAnalyzing ? "Analyzing Sources..." : "Analyze & Suggest Parameters"}
-            </Button>
+      {canEdit && (
+        <div className="rounded-lg border border-blue-200 bg-blue-50/50 dark:border-blue-800 dark:bg-blue-950/20 p-4">
+          <div className="flex items-start gap-3">
+            <div className="rounded-full bg-blue-100 p-2 dark:bg-blue-900/50">
+              <Brain className="h-4 w-4 text-blue-600 dark:text-blue-400" />
+            </div>
+            <div className="flex-1">
+              <h4 className="font-medium text-sm text-blue-900 dark:text-blue-100">
+                AI Parameter Suggestions
+              </h4>
+              <p className="text-sm text-blue-800 dark:text-blue-200 mt-1">
+                Based on your documents, I can suggest relevant parameters to track. 
+                Click below to analyze your sources and discover key dimensions.
+              </p>
+              <Button 
+                size="sm" 
+                variant="outline" 
+                className="mt-3 gap-2" 
+                onClick={analyzeAndSuggestParameters}
+                disabled={isAnalyzing || runActive}
+              >
+                <Brain className="h-3 w-3" />
+                {isAnalyzing || runActive ? "Analyzing Sources..." : "Analyze & Suggest Parameters"}
+              </Button>
+
+              {parameterProposals.length > 0 && (
+                <div className="mt-4 space-y-2">
+                  {parameterProposals.map((proposal) => (
+                    <div
+                      key={proposal.id}
+                      className="flex items-start justify-between gap-3 rounded-md border border-blue-200 bg-background p-3 dark:border-blue-800"
+                    >
+                      <div className="min-w-0">
+                        <div className="text-sm font-medium">
+                          {proposal.name}
+                          <span className="ml-2 text-xs font-normal text-muted-foreground">{proposal.type}</span>
+                        </div>
+                        {proposal.description && (
+                          <p className="text-xs text-muted-foreground mt-1">{proposal.description}</p>
+                        )}
+                      </div>
+                      <div className="flex shrink-0 gap-1">
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => acceptProposal(proposal.id)}
+                          disabled={!!decidingProposalId || runActive}
+                          title="Add to matrix"
+                        >
+                          <Check className="h-3 w-3" />
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => rejectProposal(proposal.id)}
+                          disabled={!!decidingProposalId}
+                          title="Dismiss"
+                        >
+                          <X className="h-3 w-3" />
+                        </Button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
           </div>
         </div>
-      </div>
+      )}
     </div>
   );
 }
\ No newline at end of file
@@ -7,6 +7,7 @@ import { Upload, File, Link as LinkIcon, X, Loader2, CheckCircle, AlertCircle }
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Card } from "@/components/ui/card";
+import { getUploadAccept, getUploadFormats } from "@/lib/ingestion/formats";
 
 interface UploadFile {
   file: File;
@@ -46,15 +47,7 @@ export function UploadZone({ projectId, onUploadComplete }: UploadZoneProps) {
 
   const { getRootProps, getInputProps, isDragActive } = useDropzone({
     onDrop,
-    accept: {
-      "application/pdf": [".pdf"],
-      "application/vnd.openxmlformats-officedocument.wordprocessingml.document": [".docx"],
-      "application/vnd.openxmlformats-officedocument.presentationml.presentation": [".pptx"],
-      "audio/mpeg": [".mp3"],
-      "audio/mp4": [".m4a"],
-      "audio/wav": [".wav"],
-      "text/plain": [".txt"],
-    },
+    accept: getUploadAccept(),
   });
 
   const removeFile = (id: string) => {
@@ -170,7 +163,7 @@ export function UploadZone({ projectId, onUploadComplete }: UploadZoneProps) {
             or click to browse
           </p>
           <p className="text-xs text-muted-foreground">
-            Supports: PDF, DOCX, PPTX, MP3, M4A, WAV, TXT
+            Supports: {getUploadFormats().map((format) => format.label).join(", ")}
           </p>
         </div>
       </Card>
@@ -247,10 +240,10 @@ export function UploadZone({ projectId, onUploadComplete }: UploadZoneProps) {
                       {(uploadFile.file.size / 1024 / 1024).toFixed(2)} MB
                     </p>
                     {uploadFile.status === 'uploading' && (
-                      <span className="text-xs text-blue-600">Processing...</span>
+                      <span className="text-xs text-blue-600">Uploading...</span>
                     )}
                     {uploadFile.status === 'success' && (
-                      <span className="text-xs text-green-600">Complete</span>
+                      <span className="text-xs text-green-600">Queued for processing</span>
                     )}
                     {uploadFile.status === 'error' && (
                       <span className="text-xs text-red-600">Failed</span>
@@ -0,0 +1,11 @@
+import { currentUser } from "@clerk/nextjs/server";
+
+/**
+ * Whether the signed-in user may use the admin routes. Admins are granted in
+ * the Clerk dashboard by setting the user's public metadata to
+ * `{ "role": "admin" }`; users cannot edit public metadata themselves.
+ */
+export async function isAdmin(): Promise<boolean> {
+  const user = await currentUser();
+  return user?.publicMetadata?.role === "admin";
+}
@@ -0,0 +1,249 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { getTableName, is } from "drizzle-orm";
+import { PgTable } from "drizzle-orm/pg-core";
+import postgres from "postgres";
+import * as schema from "@/lib/db/schema";
+import { getUploadAccept } from "@/lib/ingestion/formats";
+import { DOCUMENTS_BUCKET } from "@/lib/storage";
+import journal from "../../../supabase/migrations/meta/_journal.json";
+
+// Every storage bucket the app uses, with the settings provisioning applies
+const BUCKETS = [
+  {
+    id: DOCUMENTS_BUCKET,
+    options: {
+      // Files are served through signed URLs
+      public: false,
+      allowedMimeTypes: Object.keys(getUploadAccept()),
+      fileSizeLimit: 50 * 1024 * 1024, // 50MB
+    },
+  },
+];
+
+// Every extension the migrations create
+const REQUIRED_EXTENSIONS = ["vector"];
+
+const REQUIRED_ENV = [
+  "NEXT_PUBLIC_SUPABASE_URL",
+  "NEXT_PUBLIC_SUPABASE_ANON_KEY",
+  "SUPABASE_SERVICE_ROLE_KEY",
+  "NEXT_PUBLIC_CLERK_PUBLISHABLE_KEY",
+  "CLERK_SECRET_KEY",
+  "CRON_SECRET",
+];
+
+export interface EnvReport {
+  ok: boolean;
+  missing: string[];
+  // Only some features need these, e.g. UNSTRUCTURED_API_KEY for Office files
+  missingOptional: string[];
+}
+
+export interface BucketReport {
+  id: string;
+  ok: boolean;
+  exists: boolean;
+  public: boolean | null;
+  // Set when provisioning ran
+  action?: "created" | "updated";
+  error?: string;
+}
+
+export interface DatabaseReport {
+  ok: boolean;
+  error?: string;
+  extensions: { name: string; installed: boolean; version: string | null }[];
+  // Tables with RLS off or without any policy
+  rls: { table: string; exists: boolean; enabled: boolean; policies: number }[];
+  migrations: {
+    // The table applied migrations are recorded in
+    tracker: "drizzle" | "supabase" | null;
+    applied: number;
+    // Journal entries the database has not run
+    pending: string[];
+    // Applied migrations the journal does not know, i.e. the database is
+    // ahead of this deployment
+    unknown: number;
+  } | null;
+}
+
+export interface SetupReport {
+  healthy: boolean;
+  env: EnvReport;
+  buckets: BucketReport[];
+  database: DatabaseReport;
+}
+
+export function checkEnv(): EnvReport {
+  const missing = REQUIRED_ENV.filter((name) => !process.env[name]);
+  if (!process.env.DIRECT_URL && !process.env.DATABASE_URL) {
+    missing.push("DIRECT_URL or DATABASE_URL");
+  }
+
+  // Mirrors createLlmProvider
+  const provider = process.env.LLM_PROVIDER || "openai";
+  if (provider === "openai" && !process.env.OPENAI_API_KEY) missing.push("OPENAI_API_KEY");
+  if (provider === "local" && !process.env.LOCAL_LLM_BASE_URL) missing.push("LOCAL_LLM_BASE_URL");
+
+  const missingOptional = ["UNSTRUCTURED_API_KEY"].filter((name) => !process.env[name]);
+
+  return { ok: missing.length === 0, missing, missingOptional };
+}
+
+/**
+ * Compares the buckets against BUCKETS. With `provision`, creates missing
+ * buckets and brings the settings of existing ones back in line.
+ */
+export async function checkBuckets(
+  serviceClient: SupabaseClient,
+  { provision = false }: { provision?: boolean } = {}
+): Promise<BucketReport[]> {
+  const { data: existing, error } = await serviceClient.storage.listBuckets();
+  if (error) {
+    return BUCKETS.map(({ id }) => ({ id, ok: false, exists: false, public: null, error: error.message }));
+  }
+
+  return Promise.all(BUCKETS.map(async ({ id, options }): Promise<BucketReport> => {
+    const bucket = existing.find((b) => b.id === id);
+
+    if (provision) {
+      const { error: provisionError } = bucket
+        ? await serviceClient.storage.updateBucket(id, options)
+        : await serviceClient.storage.createBucket(id, options);
+
+      if (provisionError) {
+        return { id, ok: false, exists: !!bucket, public: bucket?.public ?? null, error: provisionError.message };
+      }
+      return { id, ok: true, exists: true, public: options.public, action: bucket ? "updated" : "created" };
+    }
+
+    if (!bucket) {
+      return { id, ok: false, exists: false, public: null };
+    }
+    return { id, ok: bucket.public === options.public, exists: true, public: bucket.public };
+  }));
+}
+
+// Tables defined in the Drizzle schema, all of which should have RLS
+function schemaTables(): string[] {
+  return (Object.values(schema) as unknown[])
+    .filter((value): value is PgTable => is(value, PgTable))
+    .map((table) => getTableName(table));
+}
+
+async function checkMigrations(sql: postgres.Sql): Promise<NonNullable<DatabaseReport["migrations"]>> {
+  const [{ drizzle, supabase }] = await sql`
+    select to_regclass('drizzle.__drizzle_migrations') as drizzle,
+           to_regclass('supabase_migrations.schema_migrations') as supabase
+  `;
+
+  // drizzle-kit records each migration by its journal timestamp; the
+  // Supabase CLI by the numeric prefix of the file name
+  let tracker: "drizzle" | "supabase" | null = null;
+  let appliedKeys: string[] = [];
+  if (drizzle) {
+    tracker = "drizzle";
+    appliedKeys = (await sql`select created_at from drizzle.__drizzle_migrations`).map((row) => String(row.created_at));
+  } else if (supabase) {
+    tracker = "supabase";
+    appliedKeys = (await sql`select version from supabase_migrations.schema_migrations`).map((row) => String(row.version));
+  }
+
+  const keyOf = (entry: (typeof journal.entries)[number]) =>
+    tracker === "drizzle" ? String(entry.when) : entry.tag.split("_")[0];
+  const applied = new Set(appliedKeys);
+  const known = new Set(journal.entries.map(keyOf));
+
+  return {
+    tracker,
+    applied: applied.size,
+    pending: journal.entries.filter((entry) => !applied.has(keyOf(entry))).map((entry) => entry.tag),
+    unknown: [...applied].filter((key) => !known.has(key)).length,
+  };
+}
+
+/**
+ * Extensions, RLS and migration state, read straight from Postgres since
+ * none of it is exposed through the Supabase API. Uses DIRECT_URL when set,
+ * as drizzle-kit does.
+ */
+export async function checkDatabase(): Promise<DatabaseReport> {
+  const databaseUrl = process.env.DIRECT_URL || process.env.DATABASE_URL;
+  if (!databaseUrl) {
+    return { ok: false, error: "Set DIRECT_URL or DATABASE_URL", extensions: [], rls: [], migrations: null };
+  }
+
+  // No prepared statements, so the transaction pooler works too
+  const sql = postgres(databaseUrl, { max: 1, prepare: false });
+  try {
+    const installed = await sql`
+      select extname, extversion from pg_extension where extname in ${sql(REQUIRED_EXTENSIONS)}
+    `;
+    const extensions = REQUIRED_EXTENSIONS.map((name) => {
+      const extension = installed.find((row) => row.extname === name);
+      return { name, installed: !!extension, version: extension?.extversion ?? null };
+    });
+
+    const tables = schemaTables();
+    const rows = await sql`
+      select c.relname, c.relrowsecurity, count(p.oid)::int as policies
+      from pg_class c
+      join pg_namespace n on n.oid = c.relnamespace
+      left join pg_policy p on p.polrelid = c.oid
+      where n.nspname = 'public' and c.relkind = 'r' and c.relname in ${sql(tables)}
+      group by c.relname, c.relrowsecurity
+    `;
+    const rls = tables
+      .map((table) => {
+        const row = rows.find((r) => r.relname === table);
+        return { table, exists: !!row, enabled: !!row?.relrowsecurity, policies: row?.policies ?? 0 };
+      })
+      .filter((table) => !table.enabled || table.policies === 0);
+
+    const migrations = await checkMigrations(sql);
+
+    return {
+      ok: extensions.every((e) => e.installed)
+        && rls.length === 0
+        && migrations.tracker !== null
+        && migrations.pending.length === 0,
+      extensions,
+      rls,
+      migrations,
+    };
+  } catch (error) {
+    return {
+      ok: false,
+      error: error instanceof Error ? error.message : "Database check failed",
+      extensions: [],
+      rls: [],
+      migrations: null,
+    };
+  } finally {
+    await sql.end();
+  }
+}
+
+/**
+ * The full setup report. Each part is checked on its own, so one broken
+ * piece of configuration doesn't hide the state of the rest.
+ */
+export async function getSetupReport(
+  serviceClient: SupabaseClient | null,
+  { provision = false }: { provision?: boolean } = {}
+): Promise<SetupReport> {
+  const env = checkEnv();
+  const [buckets, database] = await Promise.all([
+    serviceClient
+      ? checkBuckets(serviceClient, { provision })
+      : BUCKETS.map(({ id }) => ({ id, ok: false, exists: false, public: null, error: "Supabase configuration missing" })),
+    checkDatabase(),
+  ]);
+
+  return {
+    healthy: env.ok && buckets.every((b) => b.ok) && database.ok,
+    env,
+    buckets,
+    database,
+  };
+}
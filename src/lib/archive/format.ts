@@ -0,0 +1,98 @@
+import { z } from "zod";
+
+export const ARCHIVE_FORMAT = "nilavu-project-archive";
+export const ARCHIVE_VERSION = 1;
+
+export const MANIFEST_PATH = "manifest.json";
+
+/**
+ * The tables an archive holds, parents before children so rows can be
+ * inserted in this order. `references` lists the columns that point at
+ * another archived table's `id`; they are rewritten on import. Chunks and
+ * entity links are not listed in the archive's purpose but are needed for
+ * search and the entity pages to work on the imported copy.
+ */
+export const ARCHIVE_TABLES = [
+  { table: "projects", key: ["id"], filter: "id", references: {} },
+  { table: "data_sources", key: ["id"], filter: "project_id", references: { project_id: "projects" } },
+  { table: "source_chunks", key: ["id"], filter: "data_source_id", references: { data_source_id: "data_sources" } },
+  { table: "summaries", key: ["id"], filter: "data_source_id", references: { data_source_id: "data_sources", parent_id: "summaries" } },
+  { table: "entities", key: ["id"], filter: "project_id", references: { project_id: "projects" } },
+  { table: "data_source_entities", key: ["data_source_id", "entity_id"], filter: "data_source_id", references: { data_source_id: "data_sources", entity_id: "entities" } },
+  { table: "synthesis_parameters", key: ["id"], filter: "project_id", references: { project_id: "projects" } },
+  { table: "synthesis_values", key: ["id"], filter: "parameter_id", references: { parameter_id: "synthesis_parameters", data_source_id: "data_sources" } },
+] as const satisfies readonly {
+  table: string;
+  key: readonly string[];
+  // Column matched against the IDs of the rows already collected
+  filter: string;
+  references: Record<string, string>;
+}[];
+
+export type ArchiveTable = (typeof ARCHIVE_TABLES)[number]["table"];
+
+export type ArchiveRow = Record<string, unknown>;
+
+export type ArchiveTables = Record<ArchiveTable, ArchiveRow[]>;
+
+// An original upload, stored in the zip under `path`
+export interface ArchiveFile {
+  dataSourceId: string;
+  path: string;
+  storagePath: string;
+  contentType: string | null;
+}
+
+// A source whose upload could not be archived: its path is not one of the
+// project's, or the file is gone from storage
+export interface MissingArchiveFile {
+  dataSourceId: string;
+  name: string;
+  reason: "invalid-path" | "not-found";
+}
+
+export interface ProjectManifest {
+  format: typeof ARCHIVE_FORMAT;
+  version: typeof ARCHIVE_VERSION;
+  exportedAt: string;
+  tables: ArchiveTables;
+  files: ArchiveFile[];
+  // Absent from archives written before it was recorded
+  missingFiles?: MissingArchiveFile[];
+}
+
+const rowsSchema = z.array(z.record(z.string(), z.unknown()));
+
+export const projectManifestSchema = z.object({
+  format: z.literal(ARCHIVE_FORMAT),
+  version: z.literal(ARCHIVE_VERSION),
+  exportedAt: z.string(),
+  tables: z.object({
+    projects: rowsSchema.length(1),
+    data_sources: rowsSchema,
+    source_chunks: rowsSchema,
+    summaries: rowsSchema,
+    entities: rowsSchema,
+    data_source_entities: rowsSchema,
+    synthesis_parameters: rowsSchema,
+    synthesis_values: rowsSchema,
+  }),
+  files: z.array(z.object({
+    dataSourceId: z.string(),
+    path: z.string(),
+    storagePath: z.string(),
+    contentType: z.string().nullable(),
+  })),
+  missingFiles: z.array(z.object({
+    dataSourceId: z.string(),
+    name: z.string(),
+    reason: z.enum(["invalid-path", "not-found"]),
+  })).optional(),
+});
+
+export class ArchiveError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ArchiveError";
+  }
+}
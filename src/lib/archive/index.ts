@@ -0,0 +1,208 @@
+import JSZip from "jszip";
+import {
+  ARCHIVE_FORMAT,
+  ARCHIVE_TABLES,
+  ARCHIVE_VERSION,
+  ArchiveError,
+  MANIFEST_PATH,
+  projectManifestSchema,
+  type ArchiveFile,
+  type ArchiveRow,
+  type ArchiveTable,
+  type ArchiveTables,
+  type MissingArchiveFile,
+  type ProjectManifest,
+} from "./format";
+import { remapManifest } from "./remap";
+import { getStoredFilePath, isProjectStoragePath, isWebUrl } from "@/lib/storage";
+
+export { ArchiveError } from "./format";
+export type { MissingArchiveFile, ProjectManifest } from "./format";
+
+/**
+ * Where archive rows are read from and written to. The app passes a
+ * Supabase client (see ./supabase); scripts/project-archive.ts talks to
+ * Postgres directly so archives can be moved without the rest of the stack.
+ */
+export interface ArchiveDatabase {
+  // Rows of `table` whose `column` is one of `values`
+  select(table: ArchiveTable, column: string, values: string[], orderBy: readonly string[]): Promise<ArchiveRow[]>;
+  insert(table: ArchiveTable, rows: ArchiveRow[]): Promise<void>;
+  // Cascades to everything the project owns
+  deleteProject(projectId: string): Promise<void>;
+}
+
+// The `documents` bucket, or a stand-in for it
+export interface ArchiveStorage {
+  download(path: string): Promise<Uint8Array | null>;
+  upload(path: string, data: Uint8Array, contentType: string | null): Promise<void>;
+  remove(paths: string[]): Promise<void>;
+}
+
+// Rows per insert; chunk and summary rows carry 1536-dimension embeddings
+const INSERT_BATCH_SIZE = 100;
+
+export interface ExportedArchive {
+  data: Uint8Array;
+  // Also listed in the manifest
+  missingFiles: MissingArchiveFile[];
+}
+
+/**
+ * A zip of the project's rows (manifest.json) and the original uploads
+ * (files/<data source id>/<name>). Sources whose file can't be archived are
+ * archived without it and listed in `missingFiles`.
+ */
+export async function exportProjectArchive(
+  db: ArchiveDatabase,
+  storage: ArchiveStorage,
+  projectId: string
+): Promise<ExportedArchive> {
+  const tables = {} as ArchiveTables;
+
+  for (const { table, key, filter, references } of ARCHIVE_TABLES) {
+    const parent = (references as Record<string, ArchiveTable>)[filter];
+    const values = parent ? tables[parent].map((row) => String(row.id)) : [projectId];
+    tables[table] = values.length > 0 ? await db.select(table, filter, values, key) : [];
+  }
+
+  if (tables.projects.length === 0) {
+    throw new ArchiveError("Project not found");
+  }
+
+  const zip = new JSZip();
+  const files: ArchiveFile[] = [];
+  const missingFiles: MissingArchiveFile[] = [];
+
+  for (const source of tables.data_sources) {
+    const metadata = (source.metadata || {}) as Record<string, unknown>;
+    const missing = (reason: MissingArchiveFile["reason"]) =>
+      missingFiles.push({ dataSourceId: String(source.id), name: String(source.name), reason });
+
+    // Editors can write the path, and the download bypasses storage policies
+    const storagePath = getStoredFilePath(source, projectId);
+    if (!storagePath) {
+      // URL sources and placeholders have no file to miss
+      const contentUrl = source.content_url as string | null;
+      if (metadata.storagePath || (contentUrl && !isWebUrl(contentUrl))) missing("invalid-path");
+      continue;
+    }
+
+    const data = await storage.download(storagePath);
+    if (!data) {
+      missing("not-found");
+      continue;
+    }
+
+    const path = `files/${source.id}/${storagePath.split("/").pop()}`;
+    zip.file(path, data);
+    files.push({
+      dataSourceId: String(source.id),
+      path,
+      storagePath,
+      contentType: typeof metadata.type === "string" ? metadata.type : null,
+    });
+  }
+
+  const manifest: ProjectManifest = {
+    format: ARCHIVE_FORMAT,
+    version: ARCHIVE_VERSION,
+    exportedAt: new Date().toISOString(),
+    tables,
+    files,
+    missingFiles,
+  };
+  zip.file(MANIFEST_PATH, JSON.stringify(manifest));
+
+  return {
+    data: await zip.generateAsync({ type: "uint8array", compression: "DEFLATE" }),
+    missingFiles,
+  };
+}
+
+/**
+ * Recreates an archived project for `userId` with new IDs, uploading its
+ * files under the new project. On failure everything created so far is
+ * removed again. Returns the new project's ID.
+ */
+export async function importProjectArchive(
+  db: ArchiveDatabase,
+  storage: ArchiveStorage,
+  archive: ArrayBuffer | Uint8Array,
+  { userId }: { userId: string }
+): Promise<string> {
+  const zip = await JSZip.loadAsync(archive).catch(() => {
+    throw new ArchiveError("Not a zip file");
+  });
+
+  const manifestFile = zip.file(MANIFEST_PATH);
+  if (!manifestFile) {
+    throw new ArchiveError("The archive has no manifest");
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(await manifestFile.async("string"));
+  } catch {
+    throw new ArchiveError("The archive's manifest is not valid JSON");
+  }
+
+  const result = projectManifestSchema.safeParse(parsed);
+  if (!result.success) {
+    throw new ArchiveError("Not a project archive, or one from an unsupported version");
+  }
+
+  const { projectId, tables, dataSourceIds } = remapManifest(result.data, { userId });
+  const sources = new Map(tables.data_sources.map((source) => [String(source.id), source]));
+  const uploaded: string[] = [];
+  const withFiles = new Set<ArchiveRow>();
+  let projectCreated = false;
+
+  try {
+    for (const file of result.data.files) {
+      const source = sources.get(dataSourceIds.get(file.dataSourceId) || "");
+      const data = await zip.file(file.path)?.async("uint8array");
+      if (!source || !data) {
+        throw new ArchiveError(`The archive is missing ${file.path}`);
+      }
+
+      // Same layout as /api/upload
+      const path = `${userId}/${projectId}/${file.storagePath.split("/").pop()}`;
+      if (!isProjectStoragePath(path, projectId)) {
+        throw new ArchiveError(`The archive has an invalid file name for ${file.path}`);
+      }
+      await storage.upload(path, data, file.contentType);
+      uploaded.push(path);
+
+      source.metadata = { ...(source.metadata as Record<string, unknown>), storagePath: path };
+      source.content_url = path;
+      withFiles.add(source);
+    }
+
+    // Any other stored-file reference came from the manifest as written,
+    // and could point at another project's files
+    for (const source of tables.data_sources) {
+      if (withFiles.has(source)) continue;
+      if (source.metadata && typeof source.metadata === "object") {
+        const metadata = { ...(source.metadata as Record<string, unknown>) };
+        delete metadata.storagePath;
+        source.metadata = metadata;
+      }
+      if (!isWebUrl(source.content_url as string | null)) source.content_url = "";
+    }
+
+    for (const { table } of ARCHIVE_TABLES) {
+      const rows = tables[table];
+      for (let i = 0; i < rows.length; i += INSERT_BATCH_SIZE) {
+        await db.insert(table, rows.slice(i, i + INSERT_BATCH_SIZE));
+        projectCreated = true;
+      }
+    }
+  } catch (error) {
+    if (projectCreated) await db.deleteProject(projectId).catch(() => {});
+    if (uploaded.length > 0) await storage.remove(uploaded).catch(() => {});
+    throw error;
+  }
+
+  return projectId;
+}
@@ -0,0 +1,105 @@
+import { ARCHIVE_TABLES, ArchiveError, type ArchiveRow, type ArchiveTable, type ArchiveTables, type ProjectManifest } from "./format";
+
+export interface RemapOptions {
+  // Owner of the recreated project
+  userId: string;
+  newId?: () => string;
+}
+
+export interface RemappedProject {
+  projectId: string;
+  tables: ArchiveTables;
+  // Old data source ID -> new
+  dataSourceIds: Map<string, string>;
+}
+
+/**
+ * The manifest's rows with fresh IDs and every foreign key rewritten to
+ * match, owned by `userId`. Sources that were still being ingested when the
+ * archive was made are marked failed so they can be retried; nothing else
+ * would pick them up.
+ */
+export function remapManifest(
+  manifest: ProjectManifest,
+  { userId, newId = () => crypto.randomUUID() }: RemapOptions
+): RemappedProject {
+  const ids = new Map<ArchiveTable, Map<string, string>>();
+
+  // Every ID first, so self-references (summaries.parent_id) resolve
+  for (const { table, key } of ARCHIVE_TABLES) {
+    const tableIds = new Map<string, string>();
+    if (key.length === 1 && key[0] === "id") {
+      for (const row of manifest.tables[table]) {
+        tableIds.set(String(row.id), newId());
+      }
+    }
+    ids.set(table, tableIds);
+  }
+
+  const now = new Date().toISOString();
+  const tables = {} as ArchiveTables;
+
+  for (const { table, references } of ARCHIVE_TABLES) {
+    tables[table] = manifest.tables[table].map((row) => {
+      const copy: ArchiveRow = { ...row };
+      if ("id" in row) copy.id = ids.get(table)!.get(String(row.id));
+
+      for (const [column, target] of Object.entries(references) as [string, ArchiveTable][]) {
+        if (row[column] === null || row[column] === undefined) continue;
+
+        const mapped = ids.get(target)!.get(String(row[column]));
+        if (!mapped) {
+          throw new ArchiveError(`A ${table} row references a ${target} row that is not in the archive`);
+        }
+        copy[column] = mapped;
+      }
+      return copy;
+    });
+  }
+
+  const [project] = tables.projects;
+  Object.assign(project, { user_id: userId, created_at: now, updated_at: now });
+
+  for (const source of tables.data_sources) {
+    if (source.status === "pending" || source.status === "processing") {
+      source.status = "failed";
+      source.error_details = {
+        stage: "queue",
+        message: "The archive was made before this source finished processing",
+        occurredAt: now,
+        retryCount: 0,
+      };
+    }
+  }
+
+  // Manual edits keep their verification but now belong to the new owner
+  for (const value of tables.synthesis_values) {
+    if (value.edited_by) value.edited_by = userId;
+  }
+
+  tables.summaries = parentsFirst(tables.summaries);
+
+  return {
+    projectId: String(project.id),
+    tables,
+    dataSourceIds: ids.get("data_sources")!,
+  };
+}
+
+// Orders summaries so each parent is inserted before its children
+function parentsFirst(rows: ArchiveRow[]): ArchiveRow[] {
+  const ordered: ArchiveRow[] = [];
+  const placed = new Set<unknown>();
+  let remaining = rows;
+
+  while (remaining.length > 0) {
+    const ready = remaining.filter((row) => !row.parent_id || placed.has(row.parent_id));
+    if (ready.length === 0) {
+      throw new ArchiveError("The archive's summaries form a cycle");
+    }
+    ready.forEach((row) => placed.add(row.id));
+    ordered.push(...ready);
+    remaining = remaining.filter((row) => !placed.has(row.id));
+  }
+  return ordered;
+}
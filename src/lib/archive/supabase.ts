@@ -0,0 +1,80 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { DOCUMENTS_BUCKET } from "@/lib/storage";
+import type { ArchiveDatabase, ArchiveStorage } from "./index";
+
+// PostgREST returns at most this many rows per request
+const PAGE_SIZE = 1000;
+// IDs per `in` filter, to keep request URLs short
+const FILTER_CHUNK_SIZE = 100;
+
+/**
+ * Archive rows through PostgREST. Pass a user-scoped client so RLS limits
+ * exports to the caller's projects and imports to their own.
+ */
+export function supabaseArchiveDatabase(supabase: SupabaseClient): ArchiveDatabase {
+  return {
+    async select(table, column, values, orderBy) {
+      const rows: Record<string, unknown>[] = [];
+
+      for (let i = 0; i < values.length; i += FILTER_CHUNK_SIZE) {
+        for (let from = 0; ; from += PAGE_SIZE) {
+          let query = supabase
+            .from(table)
+            .select("*")
+            .in(column, values.slice(i, i + FILTER_CHUNK_SIZE));
+          for (const key of orderBy) {
+            query = query.order(key, { ascending: true });
+          }
+
+          const { data, error } = await query.range(from, from + PAGE_SIZE - 1);
+          if (error) {
+            throw new Error(`Failed to read ${table}: ${error.message}`);
+          }
+
+          rows.push(...(data || []));
+          if (!data || data.length < PAGE_SIZE) break;
+        }
+      }
+      return rows;
+    },
+
+    async insert(table, rows) {
+      const { error } = await supabase.from(table).insert(rows);
+      if (error) {
+        throw new Error(`Failed to write ${table}: ${error.message}`);
+      }
+    },
+
+    async deleteProject(projectId) {
+      const { error } = await supabase.from("projects").delete().eq("id", projectId);
+      if (error) {
+        throw new Error(`Failed to delete project: ${error.message}`);
+      }
+    },
+  };
+}
+
+// The documents bucket. It is private, so pass the service-role client.
+export function supabaseArchiveStorage(supabase: SupabaseClient, bucket = DOCUMENTS_BUCKET): ArchiveStorage {
+  return {
+    async download(path) {
+      const { data, error } = await supabase.storage.from(bucket).download(path);
+      if (error || !data) return null;
+      return new Uint8Array(await data.arrayBuffer());
+    },
+
+    async upload(path, data, contentType) {
+      const { error } = await supabase.storage
+        .from(bucket)
+        .upload(path, data, { contentType: contentType || undefined, upsert: false });
+
+      if (error) {
+        throw new Error(`Failed to upload ${path}: ${error.message}`);
+      }
+    },
+
+    async remove(paths) {
+      await supabase.storage.from(bucket).remove(paths);
+    },
+  };
+}
@@ -0,0 +1,106 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { LlmClient } from "@/lib/llm";
+import { searchProjectPassages, type SearchResult } from "@/lib/search";
+
+export interface ChatCitation {
+  marker: number; // The [n] used in the answer text
+  dataSourceId: string;
+  dataSourceName: string;
+  passageId: string;
+  kind: SearchResult["kind"];
+  snippet: string;
+  pageStart: number | null;
+  pageEnd: number | null;
+}
+
+export interface ChatTurn {
+  role: "user" | "assistant";
+  content: string;
+}
+
+// Passages retrieved per question
+const RETRIEVAL_LIMIT = 12;
+// Prior turns sent along so follow-up questions make sense
+const HISTORY_TURNS = 6;
+const SNIPPET_LENGTH = 280;
+
+const SYSTEM_PROMPT = `You are a research assistant answering questions about a project's source documents.
+Answer ONLY from the numbered passages provided. Cite every claim inline with the passage number in square brackets, e.g. [2] or [1][4].
+If the passages do not contain the answer, say so plainly instead of guessing. Do not cite passages you did not use.`;
+
+/**
+ * Retrieves the passages most relevant to `question` and answers from them
+ * alone, returning the answer with the citations it actually used.
+ */
+export async function answerFromSources(
+  supabase: SupabaseClient,
+  llm: LlmClient,
+  projectId: string,
+  question: string,
+  history: ChatTurn[] = []
+): Promise<{ answer: string; citations: ChatCitation[] }> {
+  const passages = await searchProjectPassages(supabase, llm, projectId, question, RETRIEVAL_LIMIT);
+
+  if (passages.length === 0) {
+    return {
+      answer: "I couldn't find anything in this project's sources to answer that. Try adding or processing more sources.",
+      citations: [],
+    };
+  }
+
+  const context = passages
+    .map((passage, index) => `[${index + 1}] ${passage.data_source_name} (${describePassage(passage)})\n${passage.content}`)
+    .join("\n\n---\n\n");
+
+  const answer = await llm.chat("chat", {
+    messages: [
+      { role: "system", content: SYSTEM_PROMPT },
+      ...history.slice(-HISTORY_TURNS).map((turn) => ({ role: turn.role, content: turn.content })),
+      {
+        role: "user",
+        content: `Passages:\n\n${context}\n\nQuestion: ${question}`,
+      },
+    ],
+    temperature: 0.2,
+  });
+
+  return { answer, citations: collectCitations(answer, passages) };
+}
+
+function collectCitations(answer: string, passages: SearchResult[]): ChatCitation[] {
+  const markers = new Set<number>();
+  for (const match of answer.matchAll(/\[(\d+)\]/g)) {
+    const marker = Number(match[1]);
+    if (marker >= 1 && marker <= passages.length) {
+      markers.add(marker);
+    }
+  }
+
+  return [...markers]
+    .sort((a, b) => a - b)
+    .map((marker) => {
+      const passage = passages[marker - 1];
+      return {
+        marker,
+        dataSourceId: passage.data_source_id,
+        dataSourceName: passage.data_source_name,
+        passageId: passage.id,
+        kind: passage.kind,
+        snippet: passage.content.length > SNIPPET_LENGTH
+          ? `${passage.content.substring(0, SNIPPET_LENGTH)}…`
+          : passage.content,
+        pageStart: passage.page_start,
+        pageEnd: passage.page_end,
+      };
+    });
+}
+
+function describePassage(passage: SearchResult): string {
+  if (passage.kind === "summary") return `${passage.summary_level} summary`;
+  if (passage.page_start !== null) {
+    return passage.page_start === passage.page_end
+      ? `page ${passage.page_start}`
+      : `pages ${passage.page_start}-${passage.page_end}`;
+  }
+  return `passage ${(passage.chunk_index ?? 0) + 1}`;
+}
@@ -1,24 +1,82 @@
-import { pgTable, uuid, text, timestamp, jsonb, integer, real, primaryKey, pgEnum, boolean } from 'drizzle-orm/pg-core';
-import { relations } from 'drizzle-orm';
+import { pgTable, uuid, text, timestamp, jsonb, integer, real, primaryKey, pgEnum, boolean, index, uniqueIndex, vector } from 'drizzle-orm/pg-core';
+import { relations, sql } from 'drizzle-orm';
 
 // Enums
 export const dataSourceStatusEnum = pgEnum('data_source_status', ['pending', 'processing', 'processed', 'failed']);
 export const summaryLevelEnum = pgEnum('summary_level', ['sentence', 'paragraph', 'full']);
+export const chatMessageRoleEnum = pgEnum('chat_message_role', ['user', 'assistant']);
+export const ingestionJobStatusEnum = pgEnum('ingestion_job_status', ['pending', 'processing', 'completed', 'failed']);
+export const parameterProposalStatusEnum = pgEnum('parameter_proposal_status', ['pending', 'accepted', 'rejected']);
+export const synthesisRunStatusEnum = pgEnum('synthesis_run_status', ['pending', 'running', 'completed', 'failed']);
+export const projectRoleEnum = pgEnum('project_role', ['owner', 'editor', 'viewer']); // Most to least privileged
 
 // Projects Table
 export const projects = pgTable('projects', {
   id: uuid('id').defaultRandom().primaryKey(),
-  userId: text('user_id').notNull(),
+  userId: text('user_id').notNull(), // Creator; always an owner in project_members
   name: text('name').notNull(),
   description: text('description'),
+  modelSettings: jsonb('model_settings'), // Per-task model overrides, e.g. { "extraction": "gpt-4o-mini" }
+  spendingCap: real('spending_cap'), // USD; new LLM work is refused once estimated spend reaches it
+  archivedAt: timestamp('archived_at'), // Set while archived: listed apart on the dashboard, otherwise unchanged
   createdAt: timestamp('created_at').defaultNow().notNull(),
   updatedAt: timestamp('updated_at').defaultNow().notNull(),
 });
 
 export const projectsRelations = relations(projects, ({ many }) => ({
+  members: many(projectMembers),
+  invitations: many(projectInvitations),
   dataSources: many(dataSources),
   entities: many(entities),
   synthesisParameters: many(synthesisParameters),
+  parameterProposals: many(parameterProposals),
+  synthesisRuns: many(synthesisRuns),
+  llmUsage: many(llmUsage),
+  chatConversations: many(chatConversations),
+}));
+
+// Project Members Table - who can open a project, and what they may do there
+export const projectMembers = pgTable('project_members', {
+  projectId: uuid('project_id').references(() => projects.id, { onDelete: 'cascade' }).notNull(),
+  userId: text('user_id').notNull(), // Clerk user id
+  role: projectRoleEnum('role').notNull(),
+  invitedBy: text('invited_by'),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+}, (t) => ({
+  pk: primaryKey({ columns: [t.projectId, t.userId] }),
+  userIdx: index('project_members_user_id_idx').on(t.userId),
+}));
+
+export const projectMembersRelations = relations(projectMembers, ({ one }) => ({
+  project: one(projects, {
+    fields: [projectMembers.projectId],
+    references: [projects.id],
+  }),
+}));
+
+// Project Invitations Table - a link that adds whoever signs in with `email`
+export const projectInvitations = pgTable('project_invitations', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  projectId: uuid('project_id').references(() => projects.id, { onDelete: 'cascade' }).notNull(),
+  email: text('email').notNull(),
+  role: projectRoleEnum('role').notNull(),
+  token: text('token').notNull(),
+  invitedBy: text('invited_by').notNull(),
+  expiresAt: timestamp('expires_at').notNull(),
+  acceptedBy: text('accepted_by'),
+  acceptedAt: timestamp('accepted_at'),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (t) => ({
+  tokenIdx: uniqueIndex('project_invitations_token_idx').on(t.token),
+  projectIdx: index('project_invitations_project_id_idx').on(t.projectId),
+}));
+
+export const projectInvitationsRelations = relations(projectInvitations, ({ one }) => ({
+  project: one(projects, {
+    fields: [projectInvitations.projectId],
+    references: [projects.id],
+  }),
 }));
 
 // Data Sources Table
@@ -30,6 +88,7 @@ export const dataSources = pgTable('data_sources', {
   contentUrl: text('content_url').notNull(),
   status: dataSourceStatusEnum('status').default('pending').notNull(),
   metadata: jsonb('metadata'), // File size, mime type, etc.
+  errorDetails: jsonb('error_details'), // { stage, message, occurredAt, retryCount } from the last failed attempt
   createdAt: timestamp('created_at').defaultNow().notNull(),
   updatedAt: timestamp('updated_at').defaultNow().notNull(),
 });
@@ -40,7 +99,58 @@ export const dataSourcesRelations = relations(dataSources, ({ one, many }) => ({
     references: [projects.id],
   }),
   summaries: many(summaries),
+  chunks: many(sourceChunks),
   dataSourceEntities: many(dataSourceEntities),
+  ingestionJobs: many(ingestionJobs),
+}));
+
+// Source Chunks Table - the full extracted text of a source, in order
+export const sourceChunks = pgTable('source_chunks', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  dataSourceId: uuid('data_source_id').references(() => dataSources.id, { onDelete: 'cascade' }).notNull(),
+  chunkIndex: integer('chunk_index').notNull(),
+  content: text('content').notNull(),
+  charStart: integer('char_start').notNull(), // Offsets into the joined full text
+  charEnd: integer('char_end').notNull(),
+  pageStart: integer('page_start'), // Where the extractor reports pages (Unstructured)
+  pageEnd: integer('page_end'),
+  elementStart: integer('element_start'), // Unstructured element indexes
+  elementEnd: integer('element_end'),
+  embedding: vector('embedding', { dimensions: 1536 }), // text-embedding-3-small
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (t) => ({
+  sourceChunkIdx: uniqueIndex('source_chunks_data_source_id_chunk_index_idx').on(t.dataSourceId, t.chunkIndex),
+  embeddingIdx: index('source_chunks_embedding_idx').using('hnsw', t.embedding.op('vector_cosine_ops')),
+}));
+
+export const sourceChunksRelations = relations(sourceChunks, ({ one }) => ({
+  dataSource: one(dataSources, {
+    fields: [sourceChunks.dataSourceId],
+    references: [dataSources.id],
+  }),
+}));
+
+// Ingestion Jobs Table - background extraction + summarization queue
+export const ingestionJobs = pgTable('ingestion_jobs', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  dataSourceId: uuid('data_source_id').references(() => dataSources.id, { onDelete: 'cascade' }).notNull(),
+  status: ingestionJobStatusEnum('status').default('pending').notNull(),
+  attempts: integer('attempts').default(0).notNull(),
+  maxAttempts: integer('max_attempts').default(3).notNull(),
+  runAt: timestamp('run_at').defaultNow().notNull(), // Next time the job may be picked up (backoff)
+  lockedAt: timestamp('locked_at'), // Set while a worker holds the job
+  lastError: text('last_error'),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+}, (t) => ({
+  statusRunAtIdx: index('ingestion_jobs_status_run_at_idx').on(t.status, t.runAt),
+}));
+
+export const ingestionJobsRelations = relations(ingestionJobs, ({ one }) => ({
+  dataSource: one(dataSources, {
+    fields: [ingestionJobs.dataSourceId],
+    references: [dataSources.id],
+  }),
 }));
 
 // Summaries Table
@@ -50,9 +160,12 @@ export const summaries = pgTable('summaries', {
   parentId: uuid('parent_id'), // Self-referencing for hierarchy
   content: text('content').notNull(),
   level: summaryLevelEnum('level').notNull(),
+  embedding: vector('embedding', { dimensions: 1536 }),
   createdAt: timestamp('created_at').defaultNow().notNull(),
   updatedAt: timestamp('updated_at').defaultNow().notNull(),
-});
+}, (t) => ({
+  embeddingIdx: index('summaries_embedding_idx').using('hnsw', t.embedding.op('vector_cosine_ops')),
+}));
 
 export const summariesRelations = relations(summaries, ({ one, many }) => ({
   dataSource: one(dataSources, {
@@ -75,9 +188,14 @@ export const entities = pgTable('entities', {
   projectId: uuid('project_id').references(() => projects.id, { onDelete: 'cascade' }).notNull(),
   name: text('name').notNull(),
   type: text('type').notNull(), // e.g., 'parameter', 'organization', 'person'
+  normalizedName: text('normalized_name').notNull(), // Dedup key within a project and type, see normalizeEntityName
+  aliases: text('aliases').array().notNull().default([]), // Names of entities merged into this one; ingestion resolves them here
   description: text('description'),
+  embedding: vector('embedding', { dimensions: 1536 }), // Of name and description, for duplicate detection
   createdAt: timestamp('created_at').defaultNow().notNull(),
-});
+}, (t) => ({
+  projectTypeNameIdx: uniqueIndex('entities_project_id_type_normalized_name_idx').on(t.projectId, t.type, t.normalizedName),
+}));
 
 export const entitiesRelations = relations(entities, ({ one, many }) => ({
   project: one(projects, {
@@ -92,16 +210,11 @@ export const dataSourceEntities = pgTable('data_source_entities', {
   dataSourceId: uuid('data_source_id').references(() => dataSources.id, { onDelete: 'cascade' }).notNull(),
   entityId: uuid('entity_id').references(() => entities.id, { onDelete: 'cascade' }).notNull(),
   value: text('value'), // The specific value found in this source
-  confidence: integer('confidence'), // Storing as integer 0-100 or float? Using integer for simplicity/storage often better, or real. Plan said float. Let's use real or doublePrecision.
-  // Actually, let's use 'real' for float.
-  // But wait, the plan said "Float (AI confidence score)".
-  // Drizzle 'real' is standard for float4.
-  // Let's stick to the plan but maybe use 'real' type.
-  // Wait, I need to import 'real' or 'doublePrecision'.
-  // Let's use 'real' for now.
+  confidence: real('confidence'), // 0-1, as reported by the extraction model
   context: text('context'), // Snippet
 }, (t) => ({
   pk: primaryKey({ columns: [t.dataSourceId, t.entityId] }),
+  entityIdx: index('data_source_entities_entity_id_idx').on(t.entityId),
 }));
 
 export const dataSourceEntitiesRelations = relations(dataSourceEntities, ({ one }) => ({
@@ -145,9 +258,13 @@ export const synthesisValues = pgTable('synthesis_values', {
   confidence: real('confidence'), // 0.0 to 1.0
   context: text('context'), // Source snippet
   isVerified: boolean('is_verified').default(false), // Human verification
+  editedBy: text('edited_by'), // Clerk user id of the last manual edit
+  editedAt: timestamp('edited_at'),
   createdAt: timestamp('created_at').defaultNow().notNull(),
   updatedAt: timestamp('updated_at').defaultNow().notNull(),
-});
+}, (t) => ({
+  cellIdx: uniqueIndex('synthesis_values_parameter_id_data_source_id_idx').on(t.parameterId, t.dataSourceId),
+}));
 
 export const synthesisValuesRelations = relations(synthesisValues, ({ one }) => ({
   parameter: one(synthesisParameters, {
@@ -159,3 +276,150 @@ export const synthesisValuesRelations = relations(synthesisValues, ({ one }) =>
     references: [dataSources.id],
   }),
 }));
+
+// Parameter Proposals Table - AI suggestions awaiting the user's accept/reject
+export const parameterProposals = pgTable('parameter_proposals', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  projectId: uuid('project_id').references(() => projects.id, { onDelete: 'cascade' }).notNull(),
+  name: text('name').notNull(),
+  type: text('type').notNull(), // 'text', 'number', 'date', 'category'
+  description: text('description'),
+  importance: real('importance'), // 0.0 to 1.0, as ranked by the model
+  status: parameterProposalStatusEnum('status').default('pending').notNull(),
+  parameterId: uuid('parameter_id').references(() => synthesisParameters.id, { onDelete: 'set null' }), // Set once accepted
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+}, (t) => ({
+  projectStatusIdx: index('parameter_proposals_project_id_status_idx').on(t.projectId, t.status),
+}));
+
+export const parameterProposalsRelations = relations(parameterProposals, ({ one }) => ({
+  project: one(projects, {
+    fields: [parameterProposals.projectId],
+    references: [projects.id],
+  }),
+  parameter: one(synthesisParameters, {
+    fields: [parameterProposals.parameterId],
+    references: [synthesisParameters.id],
+  }),
+}));
+
+// Synthesis Runs Table - one discovery and/or extraction pass over a project
+export const synthesisRuns = pgTable('synthesis_runs', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  projectId: uuid('project_id').references(() => projects.id, { onDelete: 'cascade' }).notNull(),
+  userId: text('user_id').notNull(), // Who started the run
+  discover: boolean('discover').default(false).notNull(), // Whether to suggest new parameters first
+  status: synthesisRunStatusEnum('status').default('pending').notNull(),
+  phase: text('phase'), // 'discovery' | 'extraction' while running
+  proposalsCreated: integer('proposals_created').default(0).notNull(),
+  error: text('error'), // Discovery or run-level failure; cell failures live on the items
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(), // Bumped as items finish, to spot abandoned runs
+  finishedAt: timestamp('finished_at'),
+}, (t) => ({
+  projectCreatedIdx: index('synthesis_runs_project_id_created_at_idx').on(t.projectId, t.createdAt),
+  // One pending or running run per project
+  activeIdx: uniqueIndex('synthesis_runs_project_id_active_idx').on(t.projectId).where(sql`${t.status} in ('pending', 'running')`),
+}));
+
+export const synthesisRunsRelations = relations(synthesisRuns, ({ one, many }) => ({
+  project: one(projects, {
+    fields: [synthesisRuns.projectId],
+    references: [projects.id],
+  }),
+  items: many(synthesisRunItems),
+}));
+
+// Synthesis Run Items Table - one cell (parameter x source) to extract in a run
+export const synthesisRunItems = pgTable('synthesis_run_items', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  runId: uuid('run_id').references(() => synthesisRuns.id, { onDelete: 'cascade' }).notNull(),
+  parameterId: uuid('parameter_id').references(() => synthesisParameters.id, { onDelete: 'cascade' }).notNull(),
+  dataSourceId: uuid('data_source_id').references(() => dataSources.id, { onDelete: 'cascade' }).notNull(),
+  status: synthesisRunStatusEnum('status').default('pending').notNull(),
+  error: text('error'),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+}, (t) => ({
+  runIdx: index('synthesis_run_items_run_id_idx').on(t.runId),
+}));
+
+export const synthesisRunItemsRelations = relations(synthesisRunItems, ({ one }) => ({
+  run: one(synthesisRuns, {
+    fields: [synthesisRunItems.runId],
+    references: [synthesisRuns.id],
+  }),
+  parameter: one(synthesisParameters, {
+    fields: [synthesisRunItems.parameterId],
+    references: [synthesisParameters.id],
+  }),
+  dataSource: one(dataSources, {
+    fields: [synthesisRunItems.dataSourceId],
+    references: [dataSources.id],
+  }),
+}));
+
+// LLM Usage Table - one row per model call, for cost accounting
+export const llmUsage = pgTable('llm_usage', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  projectId: uuid('project_id').references(() => projects.id, { onDelete: 'cascade' }).notNull(),
+  dataSourceId: uuid('data_source_id').references(() => dataSources.id, { onDelete: 'set null' }),
+  operation: text('operation').notNull(), // e.g. 'summary:sentence', 'discovery', 'extraction', 'transcription'
+  provider: text('provider').notNull(),
+  model: text('model').notNull(),
+  promptTokens: integer('prompt_tokens').default(0).notNull(),
+  completionTokens: integer('completion_tokens').default(0).notNull(),
+  audioSeconds: real('audio_seconds'), // Transcription only
+  estimatedCost: real('estimated_cost').default(0).notNull(), // USD, from src/lib/llm/pricing.ts
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (t) => ({
+  projectCreatedIdx: index('llm_usage_project_id_created_at_idx').on(t.projectId, t.createdAt),
+}));
+
+export const llmUsageRelations = relations(llmUsage, ({ one }) => ({
+  project: one(projects, {
+    fields: [llmUsage.projectId],
+    references: [projects.id],
+  }),
+  dataSource: one(dataSources, {
+    fields: [llmUsage.dataSourceId],
+    references: [dataSources.id],
+  }),
+}));
+
+// Chat Conversations Table - "ask your sources" threads, shared across the project
+export const chatConversations = pgTable('chat_conversations', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  projectId: uuid('project_id').references(() => projects.id, { onDelete: 'cascade' }).notNull(),
+  userId: text('user_id').notNull(), // Who started the conversation
+  title: text('title').notNull(),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+});
+
+export const chatConversationsRelations = relations(chatConversations, ({ one, many }) => ({
+  project: one(projects, {
+    fields: [chatConversations.projectId],
+    references: [projects.id],
+  }),
+  messages: many(chatMessages),
+}));
+
+// Chat Messages Table
+export const chatMessages = pgTable('chat_messages', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  conversationId: uuid('conversation_id').references(() => chatConversations.id, { onDelete: 'cascade' }).notNull(),
+  role: chatMessageRoleEnum('role').notNull(),
+  content: text('content').notNull(),
+  citations: jsonb('citations'), // Assistant only: [{ marker, dataSourceId, passageId, snippet, ... }]
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (t) => ({
+  conversationIdx: index('chat_messages_conversation_id_idx').on(t.conversationId, t.createdAt),
+}));
+
+export const chatMessagesRelations = relations(chatMessages, ({ one }) => ({
+  conversation: one(chatConversations, {
+    fields: [chatMessages.conversationId],
+    references: [chatConversations.id],
+  }),
+}));
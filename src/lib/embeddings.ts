@@ -0,0 +1,36 @@
+import type { LlmClient } from "@/lib/llm";
+
+// Default model; override with LLM_MODEL_EMBEDDING. Whatever the model, its
+// vectors must match the vector(…) dimensions in src/lib/db/schema.ts.
+export const EMBEDDING_MODEL = "text-embedding-3-small";
+export const EMBEDDING_DIMENSIONS = 1536;
+
+const BATCH_SIZE = 100;
+// Comfortably under the model's 8k-token input limit
+const MAX_INPUT_CHARS = 24000;
+
+/**
+ * Embeds texts in batches, returning one vector per input in the same order.
+ */
+export async function embedTexts(
+  llm: LlmClient,
+  texts: string[],
+  options?: { operation?: string }
+): Promise<number[][]> {
+  const embeddings: number[][] = [];
+
+  for (let i = 0; i < texts.length; i += BATCH_SIZE) {
+    const batch = texts
+      .slice(i, i + BATCH_SIZE)
+      .map((text) => text.substring(0, MAX_INPUT_CHARS) || " ");
+
+    embeddings.push(...await llm.embed(batch, options));
+  }
+
+  return embeddings;
+}
+
+export async function embedText(llm: LlmClient, text: string): Promise<number[]> {
+  const [embedding] = await embedTexts(llm, [text]);
+  return embedding;
+}
@@ -0,0 +1,210 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { LlmClient } from "@/lib/llm";
+import { mapWithConcurrency } from "@/lib/async";
+import { packWindows } from "@/lib/ingestion/summarize";
+import type { TextChunk } from "@/lib/ingestion/chunking";
+import { ENTITY_TYPES, extractedEntitiesSchema, type EntityType } from "./schemas";
+
+// A mention of one entity in one source, merged across the source's windows
+export interface EntityMention {
+  name: string; // As written in the source
+  type: EntityType;
+  normalizedName: string;
+  description: string | null;
+  context: string | null;
+  confidence: number;
+}
+
+const WINDOW_CHARS = 12000;
+const WINDOW_CONCURRENCY = 3;
+
+const SYSTEM_PROMPT = `You extract named entities from research documents.
+Return the people, organizations, locations, technologies, products and events the text names, as JSON:
+{
+  "entities": [
+    {
+      "name": "Name exactly as written",
+      "type": "${ENTITY_TYPES.join("|")}",
+      "description": "What it is, in a few words",
+      "context": "A short quote (max 200 characters) where it is mentioned",
+      "confidence": 0.9
+    }
+  ]
+}
+Only include entities that are actually named, not generic nouns ("the university", "researchers"). Use the fullest form of a name the text gives. Return at most 40 entities, the most significant first.`;
+
+/**
+ * Folds a name to its dedup key: case, accents, punctuation and a leading
+ * "The" are ignored, so "M.I.T." and "mit" or "The Lancet" and "Lancet" meet.
+ */
+export function normalizeEntityName(name: string): string {
+  return name
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/&/g, " and ")
+    .replace(/\.(?=\S)/g, "")
+    .replace(/[^\p{L}\p{N}]+/gu, " ")
+    .trim()
+    .replace(/^the /, "");
+}
+
+/**
+ * Named entities mentioned anywhere in the source. Long sources are read
+ * window by window; an entity found in several windows is reported once,
+ * with its most confident mention.
+ */
+export async function extractSourceEntities(
+  llm: LlmClient,
+  chunks: TextChunk[]
+): Promise<EntityMention[]> {
+  const windows = packWindows(chunks.map((chunk) => chunk.content), WINDOW_CHARS);
+
+  const results = await mapWithConcurrency(windows, WINDOW_CONCURRENCY, (text) =>
+    llm.chatJson("entities", {
+      operation: "entities",
+      messages: [
+        { role: "system", content: SYSTEM_PROMPT },
+        { role: "user", content: text },
+      ],
+      schema: extractedEntitiesSchema,
+      temperature: 0.1,
+    })
+  );
+
+  const mentions = new Map<string, EntityMention>();
+
+  for (const { entities } of results) {
+    for (const entity of entities) {
+      if (!entity?.type) continue;
+
+      const normalizedName = normalizeEntityName(entity.name);
+      if (!normalizedName) continue;
+
+      const key = `${entity.type}:${normalizedName}`;
+      const existing = mentions.get(key);
+      if (existing && existing.confidence >= entity.confidence) continue;
+
+      mentions.set(key, {
+        name: entity.name,
+        type: entity.type,
+        normalizedName,
+        description: entity.description ?? existing?.description ?? null,
+        context: entity.context ?? existing?.context ?? null,
+        confidence: entity.confidence,
+      });
+    }
+  }
+
+  return [...mentions.values()];
+}
+
+/**
+ * Replaces the source's rows in data_source_entities with `mentions`,
+ * creating project entities for names not seen before. Entities are shared
+ * by every source in the project that mentions them, and a name that was
+ * merged into another entity resolves to that entity through its aliases.
+ */
+export async function storeSourceEntities(
+  supabase: SupabaseClient,
+  projectId: string,
+  dataSourceId: string,
+  mentions: EntityMention[]
+): Promise<void> {
+  const { error: deleteError } = await supabase
+    .from("data_source_entities")
+    .delete()
+    .eq("data_source_id", dataSourceId);
+
+  if (deleteError) {
+    throw new Error(`Failed to clear previous entities: ${deleteError.message}`);
+  }
+
+  if (mentions.length === 0) return;
+
+  const entityIds = await loadAliasedEntityIds(supabase, projectId);
+  const unresolved = mentions.filter((mention) => !entityIds.has(`${mention.type}:${mention.normalizedName}`));
+
+  if (unresolved.length > 0) {
+    // Another source may be creating the same entity concurrently; whichever
+    // insert loses is ignored and both resolve to the same row below
+    const { error: insertError } = await supabase
+      .from("entities")
+      .upsert(
+        unresolved.map((mention) => ({
+          project_id: projectId,
+          name: mention.name,
+          type: mention.type,
+          normalized_name: mention.normalizedName,
+          description: mention.description,
+        })),
+        { onConflict: "project_id,type,normalized_name", ignoreDuplicates: true }
+      );
+
+    if (insertError) {
+      throw new Error(`Failed to save entities: ${insertError.message}`);
+    }
+
+    const { data: entities, error: selectError } = await supabase
+      .from("entities")
+      .select("id, type, normalized_name")
+      .eq("project_id", projectId)
+      .in("normalized_name", [...new Set(unresolved.map((mention) => mention.normalizedName))]);
+
+    if (selectError) {
+      throw new Error(`Failed to load entities: ${selectError.message}`);
+    }
+
+    for (const entity of entities || []) {
+      entityIds.set(`${entity.type}:${entity.normalized_name}`, entity.id);
+    }
+  }
+
+  // Two names in one source can now resolve to the same entity ("MIT" and
+  // its merged alias); keep the more confident mention
+  const links = new Map<string, EntityMention>();
+  for (const mention of mentions) {
+    const entityId = entityIds.get(`${mention.type}:${mention.normalizedName}`);
+    if (!entityId) continue;
+
+    const existing = links.get(entityId);
+    if (!existing || mention.confidence > existing.confidence) {
+      links.set(entityId, mention);
+    }
+  }
+
+  const { error: linkError } = await supabase
+    .from("data_source_entities")
+    .insert([...links].map(([entityId, mention]) => ({
+      data_source_id: dataSourceId,
+      entity_id: entityId,
+      value: mention.name,
+      confidence: mention.confidence,
+      context: mention.context,
+    })));
+
+  if (linkError) {
+    throw new Error(`Failed to save entity mentions: ${linkError.message}`);
+  }
+}
+
+// "type:normalized alias" → entity ID, for every alias in the project
+async function loadAliasedEntityIds(supabase: SupabaseClient, projectId: string): Promise<Map<string, string>> {
+  const { data, error } = await supabase
+    .from("entities")
+    .select("id, type, aliases")
+    .eq("project_id", projectId)
+    .neq("aliases", "{}");
+
+  if (error) {
+    throw new Error(`Failed to load entity aliases: ${error.message}`);
+  }
+
+  const entityIds = new Map<string, string>();
+  for (const entity of data || []) {
+    for (const alias of entity.aliases as string[]) {
+      entityIds.set(`${entity.type}:${normalizeEntityName(alias)}`, entity.id);
+    }
+  }
+  return entityIds;
+}
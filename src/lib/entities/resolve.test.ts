@@ -0,0 +1,135 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { LlmClient } from "@/lib/llm";
+import { PAGE_SIZE } from "@/lib/supabase/paging";
+import { findDuplicateClusters } from "./resolve";
+
+type Row = Record<string, unknown>;
+
+// Enough rows that the last ones are only reachable on a second page
+const ENTITY_COUNT = PAGE_SIZE + 100;
+
+/**
+ * Just enough of the Supabase client for findDuplicateClusters, serving
+ * in-memory rows. Like PostgREST, it never returns more than PAGE_SIZE rows
+ * for one request, whatever range is asked for.
+ */
+function fakeSupabase(tables: Record<string, Row[]>, functions: Record<string, Row[]>) {
+  const query = (rows: Row[]) => {
+    const filters: ((row: Row) => boolean)[] = [];
+    const orders: string[] = [];
+    let from = 0;
+    let to = Infinity;
+
+    const builder = {
+      select: () => builder,
+      eq: (column: string, value: unknown) => {
+        filters.push((row) => row[column] === value);
+        return builder;
+      },
+      is: (column: string, value: unknown) => {
+        filters.push((row) => (row[column] ?? null) === value);
+        return builder;
+      },
+      order: (column: string) => {
+        orders.push(column);
+        return builder;
+      },
+      range: (start: number, end: number) => {
+        from = start;
+        to = end;
+        return builder;
+      },
+      then: (resolve: (result: { data: Row[]; error: null }) => unknown) => {
+        const matched = rows
+          .filter((row) => filters.every((filter) => filter(row)))
+          .sort((a, b) => {
+            for (const column of orders) {
+              const order = String(a[column]).localeCompare(String(b[column]));
+              if (order !== 0) return order;
+            }
+            return 0;
+          });
+        const end = Math.min(to + 1, from + PAGE_SIZE);
+        return Promise.resolve(resolve({ data: matched.slice(from, end), error: null }));
+      },
+    };
+    return builder;
+  };
+
+  return {
+    from: (table: string) => query(tables[table] || []),
+    rpc: (name: string) => query(functions[name] || []),
+  } as unknown as SupabaseClient;
+}
+
+// Every entity already has an embedding, so nothing should be embedded
+const llm = {
+  embed: () => {
+    throw new Error("Unexpected embedding request");
+  },
+} as unknown as LlmClient;
+
+function entity(index: number, name: string, type = `type-${index}`): Row {
+  return {
+    id: `entity-${String(index).padStart(5, "0")}`,
+    project_id: "project",
+    name,
+    type,
+    normalized_name: name.toLowerCase(),
+    aliases: [],
+    description: null,
+    embedding: [1, 0],
+    mentions: [{ count: 1 }],
+  };
+}
+
+// Each in a type of its own, so none is compared with another
+function distinctEntities(): Row[] {
+  return Array.from({ length: ENTITY_COUNT }, (_, index) => entity(index, `Entity ${index}`));
+}
+
+test("clusters entities that are only loaded on a later page", async () => {
+  const entities = distinctEntities();
+  // Same name and type, both past the first page
+  entities[ENTITY_COUNT - 20] = entity(ENTITY_COUNT - 20, "Acme Research", "organization");
+  entities[ENTITY_COUNT - 10] = entity(ENTITY_COUNT - 10, "Acme Research", "organization");
+
+  const clusters = await findDuplicateClusters(
+    fakeSupabase({ entities }, { entity_similarity_pairs: [] }),
+    llm,
+    "project"
+  );
+
+  assert.equal(clusters.length, 1);
+  assert.deepEqual(
+    clusters[0].members.map((member) => member.id).sort(),
+    [entities[ENTITY_COUNT - 20].id, entities[ENTITY_COUNT - 10].id]
+  );
+});
+
+test("uses embedding similarities past the first page of the comparison", async () => {
+  const entities = distinctEntities();
+  // Names too different to match; only the embeddings say they are the same
+  const first = entities[ENTITY_COUNT - 20] = entity(ENTITY_COUNT - 20, "Northwind", "organization");
+  const second = entities[ENTITY_COUNT - 10] = entity(ENTITY_COUNT - 10, "Contoso", "organization");
+
+  // A full page of other pairs sorts ahead of the one that matters
+  const pairs: Row[] = entities.slice(0, PAGE_SIZE).map((other, index) => ({
+    entity_id: other.id,
+    other_entity_id: entities[(index + 1) % ENTITY_COUNT].id,
+    similarity: 0.86,
+  }));
+  pairs.push({ entity_id: first.id, other_entity_id: second.id, similarity: 0.95 });
+
+  const clusters = await findDuplicateClusters(
+    fakeSupabase({ entities }, { entity_similarity_pairs: pairs }),
+    llm,
+    "project"
+  );
+
+  const cluster = clusters.find((c) => c.members.some((member) => member.id === first.id));
+  assert.ok(cluster, "entities similar only by embedding were not clustered");
+  assert.deepEqual(cluster.members.map((member) => member.id).sort(), [first.id, second.id]);
+});
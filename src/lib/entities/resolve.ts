@@ -0,0 +1,243 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { LlmClient } from "@/lib/llm";
+import { embedTexts } from "@/lib/embeddings";
+import { selectAllRows } from "@/lib/supabase/paging";
+import { normalizeEntityName } from "./extract";
+
+export interface ClusterMember {
+  id: string;
+  name: string;
+  aliases: string[];
+  description: string | null;
+  mentionCount: number;
+}
+
+export interface EntityCluster {
+  type: string;
+  members: ClusterMember[];
+  // The member the others would most naturally merge into
+  suggestedTargetId: string;
+}
+
+interface EntityRow {
+  id: string;
+  name: string;
+  type: string;
+  normalized_name: string;
+  aliases: string[];
+  description: string | null;
+  mentions: { count: number }[];
+}
+
+interface SimilarityPair {
+  entity_id: string;
+  other_entity_id: string;
+  similarity: number;
+}
+
+// Either signal alone is enough when it is this strong...
+const NAME_MATCH = 0.85;
+const EMBEDDING_MATCH = 0.92;
+// ...otherwise both must agree, at least this much each
+const WEAK_NAME_MATCH = 0.5;
+const WEAK_EMBEDDING_MATCH = 0.85;
+
+// Words left out of acronyms and comparisons ("University of Oxford" / "UO")
+const STOP_WORDS = new Set(["of", "and", "the", "for", "de", "la", "du", "der", "at", "in"]);
+// Legal suffixes that don't distinguish organizations ("OpenAI" / "OpenAI Inc")
+const ORGANIZATION_SUFFIXES = new Set(["inc", "incorporated", "ltd", "limited", "llc", "corp", "corporation", "co", "company", "gmbh", "plc", "sa", "ag"]);
+
+/**
+ * Groups the project's entities into clusters that likely name the same
+ * thing, by name similarity (including acronyms and initials) and by the
+ * similarity of their embeddings. Entities without an embedding are embedded
+ * first and the vectors stored, so later runs only embed new entities.
+ * Only suggestions: nothing is merged here.
+ */
+export async function findDuplicateClusters(
+  supabase: SupabaseClient,
+  llm: LlmClient,
+  projectId: string
+): Promise<EntityCluster[]> {
+  const entities = await selectAllRows<EntityRow>("entities", () => supabase
+    .from("entities")
+    .select("id, name, type, normalized_name, aliases, description, mentions:data_source_entities(count)")
+    .eq("project_id", projectId)
+    .order("id", { ascending: true }));
+
+  await embedMissingEntities(supabase, llm, projectId);
+
+  // The function returns rows like a table, so it pages the same way
+  const embeddingPairs = await selectAllRows<SimilarityPair>("entity similarities", () => supabase
+    .rpc("entity_similarity_pairs", {
+      p_project_id: projectId,
+      p_min_similarity: WEAK_EMBEDDING_MATCH,
+    })
+    .order("entity_id", { ascending: true })
+    .order("other_entity_id", { ascending: true }));
+
+  const embeddingSimilarity = new Map<string, number>();
+  for (const pair of embeddingPairs) {
+    embeddingSimilarity.set(pairKey(pair.entity_id, pair.other_entity_id), pair.similarity);
+  }
+
+  const byId = new Map(entities.map((entity) => [entity.id, entity]));
+  const parent = new Map(entities.map((entity) => [entity.id, entity.id]));
+  const find = (id: string): string => {
+    while (parent.get(id) !== id) id = parent.get(id)!;
+    return id;
+  };
+
+  const byType = new Map<string, EntityRow[]>();
+  for (const entity of entities) {
+    byType.set(entity.type, [...(byType.get(entity.type) || []), entity]);
+  }
+
+  for (const [type, group] of byType) {
+    for (let i = 0; i < group.length; i++) {
+      for (let j = i + 1; j < group.length; j++) {
+        const nameScore = nameSimilarity(type, group[i], group[j]);
+        const embeddingScore = embeddingSimilarity.get(pairKey(group[i].id, group[j].id)) ?? 0;
+
+        const likelySame = nameScore >= NAME_MATCH
+          || embeddingScore >= EMBEDDING_MATCH
+          || (nameScore >= WEAK_NAME_MATCH && embeddingScore >= WEAK_EMBEDDING_MATCH);
+
+        if (likelySame) {
+          parent.set(find(group[i].id), find(group[j].id));
+        }
+      }
+    }
+  }
+
+  const clusters = new Map<string, EntityRow[]>();
+  for (const entity of entities) {
+    const root = find(entity.id);
+    clusters.set(root, [...(clusters.get(root) || []), byId.get(entity.id)!]);
+  }
+
+  return [...clusters.values()]
+    .filter((members) => members.length > 1)
+    .map((members) => {
+      const sorted = members
+        .map((member) => ({
+          id: member.id,
+          name: member.name,
+          aliases: member.aliases,
+          description: member.description,
+          mentionCount: member.mentions[0]?.count ?? 0,
+        }))
+        // Most mentioned first, then the fuller name
+        .sort((a, b) => b.mentionCount - a.mentionCount || b.name.length - a.name.length);
+
+      return { type: members[0].type, members: sorted, suggestedTargetId: sorted[0].id };
+    })
+    .sort((a, b) => b.members.length - a.members.length);
+}
+
+async function embedMissingEntities(supabase: SupabaseClient, llm: LlmClient, projectId: string) {
+  const entities = await selectAllRows<{ id: string; name: string; type: string; description: string | null }>(
+    "entities to embed",
+    () => supabase
+      .from("entities")
+      .select("id, name, type, description")
+      .eq("project_id", projectId)
+      .is("embedding", null)
+      .order("id", { ascending: true })
+  );
+  if (entities.length === 0) return;
+
+  const embeddings = await embedTexts(
+    llm,
+    entities.map((entity) => `${entity.name} (${entity.type})${entity.description ? `: ${entity.description}` : ""}`),
+    { operation: "entities:embedding" }
+  );
+
+  for (const [index, entity] of entities.entries()) {
+    const { error } = await supabase
+      .from("entities")
+      .update({ embedding: embeddings[index] })
+      .eq("id", entity.id);
+
+    if (error) {
+      throw new Error(`Failed to save entity embedding: ${error.message}`);
+    }
+  }
+}
+
+/**
+ * 0–1 likelihood, from names alone, that two entities of `type` are the
+ * same: the best match across their names and aliases.
+ */
+function nameSimilarity(type: string, a: EntityRow, b: EntityRow): number {
+  let best = 0;
+
+  for (const nameA of [a.normalized_name, ...a.aliases.map(normalizeEntityName)]) {
+    for (const nameB of [b.normalized_name, ...b.aliases.map(normalizeEntityName)]) {
+      const wordsA = significantWords(type, nameA);
+      const wordsB = significantWords(type, nameB);
+
+      if (wordsA.join(" ") === wordsB.join(" ")) return 1;
+
+      if (type === "person") {
+        if (matchesInitials(wordsA, wordsB) || matchesInitials(wordsB, wordsA)) return 0.9;
+      } else if (isAcronymOf(wordsA, wordsB) || isAcronymOf(wordsB, wordsA)) {
+        return 0.9;
+      }
+
+      best = Math.max(best, diceCoefficient(wordsA.join(" "), wordsB.join(" ")));
+    }
+  }
+
+  return best;
+}
+
+function significantWords(type: string, normalizedName: string): string[] {
+  const words = normalizedName.split(" ").filter(Boolean);
+  const kept = words.filter((word) => !STOP_WORDS.has(word)
+    && !(type === "organization" && ORGANIZATION_SUFFIXES.has(word)));
+  return kept.length > 0 ? kept : words;
+}
+
+// "mit" / ["massachusetts", "institute", "technology"]
+function isAcronymOf(short: string[], long: string[]): boolean {
+  if (short.length !== 1 || long.length < 2) return false;
+  return short[0] === long.map((word) => word[0]).join("");
+}
+
+// ["j", "smith"] / ["john", "smith"]: same surname, initials agree
+function matchesInitials(short: string[], long: string[]): boolean {
+  if (short.length !== long.length || short.length < 2) return false;
+  if (short[short.length - 1] !== long[long.length - 1]) return false;
+
+  return short.slice(0, -1).every((word, index) =>
+    word === long[index] || (word.length === 1 && long[index].startsWith(word))
+  );
+}
+
+// Sørensen–Dice over character bigrams
+function diceCoefficient(a: string, b: string): number {
+  if (a.length < 2 || b.length < 2) return a === b ? 1 : 0;
+
+  const bigrams = new Map<string, number>();
+  for (let i = 0; i < a.length - 1; i++) {
+    const bigram = a.substring(i, i + 2);
+    bigrams.set(bigram, (bigrams.get(bigram) || 0) + 1);
+  }
+
+  let overlap = 0;
+  for (let i = 0; i < b.length - 1; i++) {
+    const bigram = b.substring(i, i + 2);
+    const count = bigrams.get(bigram) || 0;
+    if (count > 0) {
+      bigrams.set(bigram, count - 1);
+      overlap++;
+    }
+  }
+
+  return (2 * overlap) / (a.length + b.length - 2);
+}
+
+function pairKey(a: string, b: string): string {
+  return a < b ? `${a}:${b}` : `${b}:${a}`;
+}
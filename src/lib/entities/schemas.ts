@@ -0,0 +1,53 @@
+import { z } from "zod";
+import { optionalTextSchema, scoreSchema } from "@/lib/synthesis/schemas";
+
+export const ENTITY_TYPES = ["person", "organization", "location", "technology", "product", "event"] as const;
+export type EntityType = (typeof ENTITY_TYPES)[number];
+
+const ENTITY_TYPE_ALIASES: Record<string, EntityType> = {
+  people: "person",
+  author: "person",
+  researcher: "person",
+  org: "organization",
+  company: "organization",
+  institution: "organization",
+  university: "organization",
+  agency: "organization",
+  place: "location",
+  country: "location",
+  city: "location",
+  method: "technology",
+  tool: "technology",
+  software: "technology",
+  framework: "technology",
+};
+
+/**
+ * One of ENTITY_TYPES, case-insensitively, or a known alias of one. Other
+ * types become null and the entity is dropped.
+ */
+export const entityTypeSchema = z
+  .string()
+  .transform((type): EntityType | null => {
+    const normalized = type.trim().toLowerCase();
+    if ((ENTITY_TYPES as readonly string[]).includes(normalized)) {
+      return normalized as EntityType;
+    }
+    return ENTITY_TYPE_ALIASES[normalized] ?? null;
+  })
+  .catch(null);
+
+export const extractedEntitySchema = z.object({
+  name: z.string().trim().min(1).max(200),
+  type: entityTypeSchema,
+  description: optionalTextSchema,
+  context: optionalTextSchema,
+  confidence: scoreSchema.catch(0.5),
+});
+
+export const extractedEntitiesSchema = z.object({
+  // A malformed entry is skipped rather than failing the whole answer
+  entities: z.array(extractedEntitySchema.nullable().catch(null)),
+});
+
+export type ExtractedEntity = z.output<typeof extractedEntitySchema>;
@@ -0,0 +1,188 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { PLACEHOLDER_SOURCE_TYPE } from "@/lib/synthesis/import";
+
+export type GraphNodeKind = "source" | "entity" | "value";
+
+export interface GraphNode {
+  id: string; // "source:<id>", "entity:<id>" or "value:<parameterId>:<value>"
+  kind: GraphNodeKind;
+  label: string;
+  // Source type (pdf, url…), entity type (person, organization…) or "parameter"
+  type: string;
+  degree: number;
+}
+
+export interface GraphEdge {
+  source: string;
+  target: string;
+  kind: "mentions" | "value";
+  weight: number; // Mention confidence; 1 for parameter values
+}
+
+export interface ProjectGraph {
+  nodes: GraphNode[];
+  edges: GraphEdge[];
+  // Entity and value nodes were dropped to stay under MAX_GRAPH_NODES
+  truncated: boolean;
+}
+
+export interface GraphOptions {
+  // Entity types to include, plus "parameter" for shared category values.
+  // Everything when omitted.
+  types?: string[];
+  // Only the nodes within `depth` hops of this node
+  focus?: string;
+  depth?: number;
+  // Hide entities and values mentioned by fewer sources than this
+  minSources?: number;
+}
+
+// Beyond this the graph page becomes unreadable and slow to lay out
+export const MAX_GRAPH_NODES = 400;
+
+/**
+ * Sources, the entities they mention and the category values they share
+ * (from synthesis_values), as a graph: two sources are connected through
+ * every entity or value they have in common. Pass a user-scoped client so
+ * RLS limits it to what the caller can see.
+ */
+export async function buildProjectGraph(
+  supabase: SupabaseClient,
+  projectId: string,
+  { types, focus, depth = 2, minSources = 1 }: GraphOptions = {}
+): Promise<ProjectGraph> {
+  const includeType = (type: string) => !types || types.length === 0 || types.includes(type);
+
+  const [{ data: sources, error: sourcesError }, { data: entities, error: entitiesError }, { data: parameters }] = await Promise.all([
+    supabase
+      .from("data_sources")
+      .select("id, name, type")
+      .eq("project_id", projectId)
+      .eq("status", "processed")
+      .neq("type", PLACEHOLDER_SOURCE_TYPE),
+    supabase
+      .from("entities")
+      .select("id, name, type, mentions:data_source_entities(data_source_id, confidence)")
+      .eq("project_id", projectId),
+    supabase
+      .from("synthesis_parameters")
+      .select("id, name")
+      .eq("project_id", projectId)
+      .eq("type", "category"),
+  ]);
+
+  if (sourcesError || entitiesError) {
+    throw new Error(`Failed to load graph: ${(sourcesError || entitiesError)!.message}`);
+  }
+
+  const sourceIds = new Set((sources || []).map((source) => source.id as string));
+  const nodes = new Map<string, GraphNode>();
+  const edges: GraphEdge[] = [];
+
+  for (const source of sources || []) {
+    nodes.set(`source:${source.id}`, { id: `source:${source.id}`, kind: "source", label: source.name, type: source.type, degree: 0 });
+  }
+
+  // Entity and value nodes with their edges, before the size limit is applied
+  const candidates: { node: GraphNode; edges: GraphEdge[] }[] = [];
+
+  for (const entity of (entities || []) as { id: string; name: string; type: string; mentions: { data_source_id: string; confidence: number | null }[] }[]) {
+    if (!includeType(entity.type)) continue;
+
+    const id = `entity:${entity.id}`;
+    const mentions = entity.mentions.filter((mention) => sourceIds.has(mention.data_source_id));
+    if (mentions.length === 0 || mentions.length < minSources) continue;
+
+    candidates.push({
+      node: { id, kind: "entity", label: entity.name, type: entity.type, degree: 0 },
+      edges: mentions.map((mention) => ({
+        source: `source:${mention.data_source_id}`,
+        target: id,
+        kind: "mentions",
+        weight: mention.confidence ?? 1,
+      })),
+    });
+  }
+
+  if (includeType("parameter") && parameters && parameters.length > 0) {
+    const { data: values } = await supabase
+      .from("synthesis_values")
+      .select("parameter_id, data_source_id, value, extracted_value")
+      .in("parameter_id", parameters.map((parameter) => parameter.id));
+
+    const parameterNames = new Map(parameters.map((parameter) => [parameter.id as string, parameter.name as string]));
+    const byValue = new Map<string, { label: string; sourceIds: Set<string> }>();
+
+    for (const row of values || []) {
+      // A human value wins over the extracted one, as in the synthesis table
+      const value = ((row.value || row.extracted_value) as string | null)?.trim();
+      if (!value || !sourceIds.has(row.data_source_id)) continue;
+
+      const id = `value:${row.parameter_id}:${value.toLowerCase()}`;
+      const entry = byValue.get(id) ?? { label: `${parameterNames.get(row.parameter_id)}: ${value}`, sourceIds: new Set() };
+      entry.sourceIds.add(row.data_source_id);
+      byValue.set(id, entry);
+    }
+
+    for (const [id, { label, sourceIds: valueSourceIds }] of byValue) {
+      if (valueSourceIds.size < minSources) continue;
+
+      candidates.push({
+        node: { id, kind: "value", label, type: "parameter", degree: 0 },
+        edges: [...valueSourceIds].map((sourceId) => ({ source: `source:${sourceId}`, target: id, kind: "value", weight: 1 })),
+      });
+    }
+  }
+
+  // The best-connected entities and values make the most useful graph
+  candidates.sort((a, b) => b.edges.length - a.edges.length);
+  const room = Math.max(MAX_GRAPH_NODES - nodes.size, 0);
+  const truncated = !focus && candidates.length > room;
+
+  for (const candidate of focus ? candidates : candidates.slice(0, room)) {
+    nodes.set(candidate.node.id, candidate.node);
+    edges.push(...candidate.edges);
+  }
+
+  const graph = focus ? neighborhood(nodes, edges, focus, depth) : { nodes, edges };
+
+  for (const edge of graph.edges) {
+    graph.nodes.get(edge.source)!.degree++;
+    graph.nodes.get(edge.target)!.degree++;
+  }
+
+  return { nodes: [...graph.nodes.values()], edges: graph.edges, truncated };
+}
+
+// Nodes within `depth` hops of `focus`, and the edges between them
+function neighborhood(
+  nodes: Map<string, GraphNode>,
+  edges: GraphEdge[],
+  focus: string,
+  depth: number
+): { nodes: Map<string, GraphNode>; edges: GraphEdge[] } {
+  if (!nodes.has(focus)) return { nodes: new Map(), edges: [] };
+
+  const adjacent = new Map<string, string[]>();
+  const link = (from: string, to: string) => {
+    const list = adjacent.get(from);
+    if (list) list.push(to);
+    else adjacent.set(from, [to]);
+  };
+  for (const edge of edges) {
+    link(edge.source, edge.target);
+    link(edge.target, edge.source);
+  }
+
+  const reached = new Set([focus]);
+  let frontier = [focus];
+  for (let hop = 0; hop < depth && frontier.length > 0; hop++) {
+    frontier = frontier.flatMap((id) => adjacent.get(id) || []).filter((id) => !reached.has(id));
+    frontier.forEach((id) => reached.add(id));
+  }
+
+  return {
+    nodes: new Map([...nodes].filter(([id]) => reached.has(id)).map(([id, node]) => [id, { ...node, degree: 0 }])),
+    edges: edges.filter((edge) => reached.has(edge.source) && reached.has(edge.target)),
+  };
+}
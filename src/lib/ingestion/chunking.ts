@@ -0,0 +1,116 @@
+// A run of extracted text with the position it came from, when known
+export interface TextSegment {
+  text: string;
+  pageNumber?: number;
+  elementIndex?: number; // Index into the Unstructured element list
+}
+
+export interface TextChunk {
+  index: number;
+  content: string;
+  charStart: number; // Offsets into the joined full text
+  charEnd: number;
+  pageStart?: number;
+  pageEnd?: number;
+  elementStart?: number;
+  elementEnd?: number;
+}
+
+export const SEGMENT_SEPARATOR = "\n\n";
+const DEFAULT_CHUNK_CHARS = 4000;
+
+interface Piece {
+  start: number;
+  end: number;
+  segment: TextSegment;
+}
+
+/**
+ * Joins segments into the source's full text and cuts it into ordered chunks
+ * of at most `maxChars`. Chunks break between segments where possible and
+ * only split a segment (at a sentence or word boundary) when it is too long
+ * on its own. Chunk content is always an exact slice of the full text.
+ */
+export function chunkSegments(
+  segments: TextSegment[],
+  maxChars = DEFAULT_CHUNK_CHARS
+): { fullText: string; chunks: TextChunk[] } {
+  const cleaned = segments
+    .map((segment) => ({ ...segment, text: segment.text.trim() }))
+    .filter((segment) => segment.text.length > 0);
+
+  const fullText = cleaned.map((segment) => segment.text).join(SEGMENT_SEPARATOR);
+
+  const pieces: Piece[] = [];
+  let offset = 0;
+  for (const segment of cleaned) {
+    for (const [start, end] of splitRange(segment.text, maxChars)) {
+      pieces.push({ start: offset + start, end: offset + end, segment });
+    }
+    offset += segment.text.length + SEGMENT_SEPARATOR.length;
+  }
+
+  const chunks: TextChunk[] = [];
+  let group: Piece[] = [];
+
+  const flush = () => {
+    if (group.length === 0) return;
+    const charStart = group[0].start;
+    const charEnd = group[group.length - 1].end;
+    const pages = group.map((p) => p.segment.pageNumber).filter((n): n is number => n !== undefined);
+    const elements = group.map((p) => p.segment.elementIndex).filter((n): n is number => n !== undefined);
+
+    chunks.push({
+      index: chunks.length,
+      content: fullText.slice(charStart, charEnd),
+      charStart,
+      charEnd,
+      pageStart: pages.length ? Math.min(...pages) : undefined,
+      pageEnd: pages.length ? Math.max(...pages) : undefined,
+      elementStart: elements.length ? Math.min(...elements) : undefined,
+      elementEnd: elements.length ? Math.max(...elements) : undefined,
+    });
+    group = [];
+  };
+
+  for (const piece of pieces) {
+    if (group.length > 0 && piece.end - group[0].start > maxChars) {
+      flush();
+    }
+    group.push(piece);
+  }
+  flush();
+
+  return { fullText, chunks };
+}
+
+// Splits text into [start, end) ranges no longer than maxChars, preferring
+// to cut after a sentence end, then at whitespace, in the back half of a range.
+function splitRange(text: string, maxChars: number): Array<[number, number]> {
+  const ranges: Array<[number, number]> = [];
+  let start = 0;
+
+  while (start < text.length) {
+    let end = Math.min(start + maxChars, text.length);
+
+    if (end < text.length) {
+      const window = text.slice(start + Math.floor(maxChars / 2), end);
+      const sentenceBreak = Math.max(window.lastIndexOf(". "), window.lastIndexOf("\n"));
+      const wordBreak = window.lastIndexOf(" ");
+      const cut = sentenceBreak >= 0 ? sentenceBreak + 1 : wordBreak;
+      if (cut >= 0) {
+        end = start + Math.floor(maxChars / 2) + cut;
+      }
+    }
+
+    const trimmedEnd = start + text.slice(start, end).trimEnd().length;
+    if (trimmedEnd > start) {
+      ranges.push([start, trimmedEnd]);
+    }
+
+    start = end;
+    while (start < text.length && /\s/.test(text[start])) start++;
+  }
+
+  return ranges;
+}
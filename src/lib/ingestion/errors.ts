@@ -0,0 +1,29 @@
+export type IngestionStage = "download" | "fetch" | "extraction" | "chunking" | "embedding" | "summarization" | "entities" | "queue";
+
+// Shape stored in `data_sources.error_details`
+export interface IngestionErrorDetails {
+  stage: IngestionStage;
+  message: string;
+  occurredAt: string;
+  retryCount: number;
+}
+
+/**
+ * Error raised by a pipeline stage. `retryable` is false for failures that
+ * another attempt cannot fix (unsupported format, empty document).
+ */
+export class IngestionError extends Error {
+  constructor(
+    public readonly stage: IngestionStage,
+    message: string,
+    public readonly retryable = true
+  ) {
+    super(message);
+    this.name = "IngestionError";
+  }
+}
+
+export function toIngestionError(error: unknown, stage: IngestionStage): IngestionError {
+  if (error instanceof IngestionError) return error;
+  return new IngestionError(stage, error instanceof Error ? error.message : "Unknown error");
+}
@@ -0,0 +1,16 @@
+import type { Extractor } from "./types";
+
+// Transcribes recordings with the configured transcription model (Whisper by default)
+export const audioExtractor: Extractor = {
+  type: "audio",
+  async extract(input, { llm }) {
+    const audioFile = new File([input.content], input.fileName, { type: input.mimeType });
+
+    const text = await llm.transcribe(audioFile);
+
+    return {
+      text,
+      metadata: { transcribed: true },
+    };
+  },
+};
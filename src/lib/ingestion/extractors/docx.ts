@@ -0,0 +1,7 @@
+import { partitionWithUnstructured } from "./unstructured";
+import type { Extractor } from "./types";
+
+export const docxExtractor: Extractor = {
+  type: "docx",
+  extract: (input) => partitionWithUnstructured(input),
+};
@@ -0,0 +1,56 @@
+import * as cheerio from "cheerio";
+import type { Extractor } from "./types";
+
+// Main-content containers, most specific first
+const CONTENT_SELECTORS = [
+  "article",
+  "main",
+  '[role="main"]',
+  ".content",
+  ".post-content",
+  ".entry-content",
+  ".article-content",
+  ".story-body",
+  "body",
+];
+
+export const htmlExtractor: Extractor = {
+  type: "url",
+  async extract(input) {
+    const $ = cheerio.load(new TextDecoder().decode(input.content));
+
+    // Extract title
+    const title = $("title").text().trim() ||
+                  $("h1").first().text().trim() ||
+                  (input.sourceUrl && new URL(input.sourceUrl).pathname.split("/").pop()) ||
+                  "Untitled Document";
+
+    // Remove script and style elements
+    $("script, style, nav, footer, aside, .advertisement").remove();
+
+    let contentElement = null;
+    for (const selector of CONTENT_SELECTORS) {
+      contentElement = $(selector).first();
+      if (contentElement.length > 0) break;
+    }
+
+    const text = (contentElement && contentElement.length > 0 ? contentElement : $("body"))
+      .text()
+      .replace(/\s+/g, " ") // Normalize whitespace
+      .trim();
+
+    return {
+      text,
+      title,
+      metadata: {
+        description: $('meta[name="description"]').attr("content") || "",
+        author: $('meta[name="author"]').attr("content") || "",
+        publishedTime: $('meta[property="article:published_time"]').attr("content") ||
+                       $('meta[name="publishedDate"]').attr("content") || "",
+        keywords: $('meta[name="keywords"]').attr("content") || "",
+        originalUrl: input.sourceUrl,
+        scrapedAt: new Date().toISOString(),
+      },
+    };
+  },
+};
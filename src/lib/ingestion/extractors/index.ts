@@ -0,0 +1,25 @@
+import { getFormatForMimeType } from "../formats";
+import { audioExtractor } from "./audio";
+import { docxExtractor } from "./docx";
+import { htmlExtractor } from "./html";
+import { pdfExtractor } from "./pdf";
+import { pptxExtractor } from "./pptx";
+import { textExtractor } from "./text";
+import type { Extractor } from "./types";
+
+export type { Extractor, ExtractionContext, ExtractionInput, ExtractionResult } from "./types";
+
+const extractors = new Map<string, Extractor>(
+  [pdfExtractor, docxExtractor, pptxExtractor, textExtractor, audioExtractor, htmlExtractor].map(
+    (extractor) => [extractor.type, extractor]
+  )
+);
+
+export function getExtractorForType(documentType: string): Extractor | undefined {
+  return extractors.get(documentType);
+}
+
+export function getExtractorForMimeType(mimeType: string): Extractor | undefined {
+  const format = getFormatForMimeType(mimeType);
+  return format ? extractors.get(format.type) : undefined;
+}
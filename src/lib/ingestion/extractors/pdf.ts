@@ -0,0 +1,7 @@
+import { partitionWithUnstructured } from "./unstructured";
+import type { Extractor } from "./types";
+
+export const pdfExtractor: Extractor = {
+  type: "pdf",
+  extract: (input) => partitionWithUnstructured(input),
+};
@@ -0,0 +1,7 @@
+import { partitionWithUnstructured } from "./unstructured";
+import type { Extractor } from "./types";
+
+export const pptxExtractor: Extractor = {
+  type: "pptx",
+  extract: (input) => partitionWithUnstructured(input),
+};
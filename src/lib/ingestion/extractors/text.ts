@@ -0,0 +1,11 @@
+import type { Extractor } from "./types";
+
+export const textExtractor: Extractor = {
+  type: "txt",
+  async extract(input) {
+    return {
+      text: new TextDecoder().decode(input.content),
+      metadata: {},
+    };
+  },
+};
@@ -0,0 +1,25 @@
+import type { LlmClient } from "@/lib/llm";
+import type { TextSegment } from "../chunking";
+
+export interface ExtractionInput {
+  content: ArrayBuffer;
+  fileName: string;
+  mimeType: string;
+  sourceUrl?: string; // Set for web sources
+}
+
+export interface ExtractionResult {
+  text: string;
+  segments?: TextSegment[]; // Positioned pieces of `text`, when the format has structure
+  metadata: Record<string, unknown>;
+  title?: string; // Replaces the data source name when present (web pages)
+}
+
+export interface ExtractionContext {
+  llm: LlmClient;
+}
+
+export interface Extractor {
+  type: string; // Matches a DocumentFormat type
+  extract(input: ExtractionInput, context: ExtractionContext): Promise<ExtractionResult>;
+}
@@ -0,0 +1,63 @@
+import { UnstructuredClient } from "unstructured-client";
+import { SEGMENT_SEPARATOR, type TextSegment } from "../chunking";
+import type { ExtractionInput, ExtractionResult } from "./types";
+
+/**
+ * Partitions a document with Unstructured.io and joins the element text.
+ * Shared by the PDF, DOCX and PPTX extractors.
+ */
+export async function partitionWithUnstructured(input: ExtractionInput): Promise<ExtractionResult> {
+  if (!process.env.UNSTRUCTURED_API_KEY) {
+    throw new Error("UNSTRUCTURED_API_KEY is not set");
+  }
+
+  const unstructuredClient = new UnstructuredClient({
+    serverURL: "https://api.unstructured.io",
+    security: {
+      apiKeyAuth: process.env.UNSTRUCTURED_API_KEY,
+    },
+  });
+
+  const partitionResponse = await unstructuredClient.general.partition({
+    partitionParameters: {
+      files: {
+        content: new Uint8Array(input.content),
+        fileName: input.fileName,
+      },
+      // Use default strategy for optimal processing
+      languages: ["en"],
+    },
+  });
+
+  if (!partitionResponse || !Array.isArray(partitionResponse)) {
+    throw new Error("Unstructured API returned unexpected response format");
+  }
+
+  // partitionResponse is directly an array of elements
+  const elements = partitionResponse;
+
+  // Keep each element's page and position so chunks can point back to them
+  const segments: TextSegment[] = elements
+    .map((element, elementIndex) => ({
+      text: typeof element.text === "string" ? element.text.trim() : "",
+      pageNumber: element.metadata?.page_number ?? undefined,
+      elementIndex,
+    }))
+    .filter((segment) => segment.text.length > 0);
+
+  // Extract metadata
+  const titles = elements
+    .filter((element) => element.category === "Title")
+    .map((element) => element.text);
+
+  return {
+    text: segments.map((segment) => segment.text).join(SEGMENT_SEPARATOR),
+    segments,
+    metadata: {
+      unstructuredProcessed: true,
+      elementCount: elements.length,
+      titles,
+      processingStrategy: "default",
+    },
+  };
+}
@@ -0,0 +1,76 @@
+// Source formats the ingestion pipeline understands. Kept free of server-only
+// imports so the upload UI can share it; each `type` has a matching extractor
+// registered in ./extractors.
+
+export interface DocumentFormat {
+  type: string; // Stored in data_sources.type
+  label: string;
+  accept: Record<string, string[]>; // MIME type -> file extensions
+  mimePrefix?: string; // Also matches any MIME type with this prefix
+  uploadable?: boolean; // false for formats only reached through URLs
+}
+
+export const DOCUMENT_FORMATS: DocumentFormat[] = [
+  {
+    type: "pdf",
+    label: "PDF",
+    accept: { "application/pdf": [".pdf"] },
+  },
+  {
+    type: "docx",
+    label: "DOCX",
+    accept: {
+      "application/vnd.openxmlformats-officedocument.wordprocessingml.document": [".docx"],
+      "application/msword": [".doc"],
+    },
+  },
+  {
+    type: "pptx",
+    label: "PPTX",
+    accept: {
+      "application/vnd.openxmlformats-officedocument.presentationml.presentation": [".pptx"],
+      "application/vnd.ms-powerpoint": [".ppt"],
+    },
+  },
+  {
+    type: "txt",
+    label: "TXT",
+    accept: { "text/plain": [".txt"] },
+  },
+  {
+    type: "audio",
+    label: "MP3, M4A, WAV",
+    accept: {
+      "audio/mpeg": [".mp3"],
+      "audio/mp4": [".m4a"],
+      "audio/wav": [".wav"],
+    },
+    mimePrefix: "audio/",
+  },
+  {
+    type: "url",
+    label: "HTML",
+    accept: { "text/html": [".html", ".htm"] },
+    uploadable: false,
+  },
+];
+
+export function getFormatForMimeType(mimeType: string): DocumentFormat | undefined {
+  const normalized = mimeType.split(";")[0].trim().toLowerCase();
+  return (
+    DOCUMENT_FORMATS.find((format) => normalized in format.accept) ||
+    DOCUMENT_FORMATS.find((format) => format.mimePrefix && normalized.startsWith(format.mimePrefix))
+  );
+}
+
+export function getDocumentType(mimeType: string): string {
+  return getFormatForMimeType(mimeType)?.type || "document";
+}
+
+export function getUploadFormats(): DocumentFormat[] {
+  return DOCUMENT_FORMATS.filter((format) => format.uploadable !== false);
+}
+
+export function getUploadAccept(): Record<string, string[]> {
+  return Object.assign({}, ...getUploadFormats().map((format) => format.accept));
+}
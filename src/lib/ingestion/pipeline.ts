@@ -0,0 +1,219 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { getExtractorForMimeType, type ExtractionInput } from "./extractors";
+import { getUploadFormats } from "./formats";
+import { chunkSegments, type TextChunk } from "./chunking";
+import { generateSummaries, type StoredSummary } from "./summarize";
+import { embedTexts } from "@/lib/embeddings";
+import { extractSourceEntities, storeSourceEntities } from "@/lib/entities/extract";
+import { getProjectLlmClient, SpendingCapError, type LlmClient } from "@/lib/llm";
+import { DOCUMENTS_BUCKET, getSourceFilePath } from "@/lib/storage";
+import { IngestionError, toIngestionError } from "./errors";
+
+export interface IngestionDataSource {
+  id: string;
+  project_id: string;
+  type: string;
+  name: string;
+  content_url: string;
+  metadata: Record<string, unknown> | null;
+}
+
+// Below this much text a summary isn't worth generating
+const MIN_SUMMARY_LENGTH = 50;
+
+/**
+ * Load → extract → chunk → embed → summarize → entities for one data source.
+ * Each stage raises an IngestionError tagged with its stage so failures are
+ * reported precisely.
+ */
+export async function runIngestionPipeline(supabase: SupabaseClient, dataSource: IngestionDataSource) {
+  let llm: LlmClient;
+  try {
+    llm = await getProjectLlmClient(supabase, dataSource.project_id, { dataSourceId: dataSource.id });
+  } catch (error) {
+    // A retry won't help until the cap is raised; the user can retry then
+    if (error instanceof SpendingCapError) {
+      throw new IngestionError("queue", error.message, false);
+    }
+    throw error;
+  }
+
+  const input = dataSource.type === "url"
+    ? await fetchWebSource(dataSource)
+    : await downloadStoredFile(supabase, dataSource);
+
+  const extractor = getExtractorForMimeType(input.mimeType);
+  if (!extractor) {
+    const supported = getUploadFormats().map((format) => format.label).join(", ");
+    throw new IngestionError(
+      "extraction",
+      `Unsupported file type ${input.mimeType}. Supported types: ${supported}`,
+      false
+    );
+  }
+
+  let extraction;
+  try {
+    extraction = await extractor.extract(input, { llm });
+  } catch (extractionError) {
+    throw toIngestionError(extractionError, "extraction");
+  }
+
+  const { fullText, chunks } = chunkSegments(extraction.segments ?? [{ text: extraction.text }]);
+  if (!fullText) {
+    throw new IngestionError("extraction", "No text could be extracted from this source", false);
+  }
+
+  await supabase
+    .from("data_sources")
+    .update({
+      ...(extraction.title ? { name: extraction.title } : {}),
+      metadata: {
+        ...dataSource.metadata,
+        ...extraction.metadata,
+        characterCount: fullText.length,
+        wordCount: fullText.split(/\s+/).filter(Boolean).length,
+        chunkCount: chunks.length,
+      },
+    })
+    .eq("id", dataSource.id);
+
+  let chunkEmbeddings: number[][];
+  try {
+    chunkEmbeddings = await embedTexts(llm, chunks.map((chunk) => chunk.content));
+  } catch (embeddingError) {
+    throw toIngestionError(embeddingError, "embedding");
+  }
+
+  try {
+    await storeChunks(supabase, dataSource.id, chunks, chunkEmbeddings);
+  } catch (chunkError) {
+    throw toIngestionError(chunkError, "chunking");
+  }
+
+  if (fullText.length > MIN_SUMMARY_LENGTH) {
+    let summaries: StoredSummary[];
+    try {
+      summaries = await generateSummaries(supabase, llm, dataSource.id, chunks);
+    } catch (summaryError) {
+      throw toIngestionError(summaryError, "summarization");
+    }
+
+    try {
+      await storeSummaryEmbeddings(supabase, llm, summaries);
+    } catch (embeddingError) {
+      throw toIngestionError(embeddingError, "embedding");
+    }
+  }
+
+  try {
+    const mentions = await extractSourceEntities(llm, chunks);
+    await storeSourceEntities(supabase, dataSource.project_id, dataSource.id, mentions);
+  } catch (entityError) {
+    throw toIngestionError(entityError, "entities");
+  }
+}
+
+const CHUNK_INSERT_BATCH = 100;
+
+// Replaces the source's chunks, so a retried job never leaves duplicates
+async function storeChunks(
+  supabase: SupabaseClient,
+  dataSourceId: string,
+  chunks: TextChunk[],
+  embeddings: number[][]
+) {
+  const { error: deleteError } = await supabase
+    .from("source_chunks")
+    .delete()
+    .eq("data_source_id", dataSourceId);
+
+  if (deleteError) {
+    throw new Error(`Failed to clear previous chunks: ${deleteError.message}`);
+  }
+
+  for (let i = 0; i < chunks.length; i += CHUNK_INSERT_BATCH) {
+    const { error } = await supabase
+      .from("source_chunks")
+      .insert(chunks.slice(i, i + CHUNK_INSERT_BATCH).map((chunk, offset) => ({
+        data_source_id: dataSourceId,
+        chunk_index: chunk.index,
+        content: chunk.content,
+        char_start: chunk.charStart,
+        char_end: chunk.charEnd,
+        page_start: chunk.pageStart ?? null,
+        page_end: chunk.pageEnd ?? null,
+        element_start: chunk.elementStart ?? null,
+        element_end: chunk.elementEnd ?? null,
+        embedding: embeddings[i + offset],
+      })));
+
+    if (error) {
+      throw new Error(`Failed to save chunks: ${error.message}`);
+    }
+  }
+}
+
+async function storeSummaryEmbeddings(supabase: SupabaseClient, llm: LlmClient, summaries: StoredSummary[]) {
+  const embeddings = await embedTexts(llm, summaries.map((summary) => summary.content));
+
+  for (const [index, summary] of summaries.entries()) {
+    const { error } = await supabase
+      .from("summaries")
+      .update({ embedding: embeddings[index] })
+      .eq("id", summary.id);
+
+    if (error) {
+      throw new Error(`Failed to save summary embedding: ${error.message}`);
+    }
+  }
+}
+
+async function downloadStoredFile(supabase: SupabaseClient, dataSource: IngestionDataSource): Promise<ExtractionInput> {
+  const metadata = dataSource.metadata || {};
+  // Downloads use the service role; see getSourceFilePath
+  const storagePath = getSourceFilePath(dataSource, dataSource.project_id);
+  if (!storagePath) {
+    throw new IngestionError("download", "Data source has no stored file in its project", false);
+  }
+
+  const { data: blob, error } = await supabase.storage
+    .from(DOCUMENTS_BUCKET)
+    .download(storagePath);
+
+  if (error || !blob) {
+    throw new IngestionError("download", `Failed to download file: ${error?.message || "empty response"}`);
+  }
+
+  return {
+    content: await blob.arrayBuffer(),
+    fileName: (metadata.originalName as string | undefined) || dataSource.name,
+    mimeType: (metadata.type as string | undefined) || blob.type,
+  };
+}
+
+async function fetchWebSource(dataSource: IngestionDataSource): Promise<ExtractionInput> {
+  const url = dataSource.content_url;
+
+  try {
+    const response = await fetch(url, {
+      headers: {
+        "User-Agent": "Mozilla/5.0 (compatible; Nilavu Research Bot)"
+      },
+      signal: AbortSignal.timeout(10000)
+    });
+
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    }
+
+    return {
+      content: await response.arrayBuffer(),
+      fileName: new URL(url).pathname.split("/").pop() || "index.html",
+      mimeType: response.headers.get("content-type") || "text/html",
+      sourceUrl: url,
+    };
+  } catch (fetchError) {
+    throw toIngestionError(fetchError, "fetch");
+  }
+}
@@ -0,0 +1,132 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+export interface IngestionJob {
+  id: string;
+  data_source_id: string;
+  status: "pending" | "processing" | "completed" | "failed";
+  attempts: number;
+  max_attempts: number;
+  run_at: string;
+  locked_at: string | null;
+  last_error: string | null;
+}
+
+// A job left in `processing` longer than this is assumed to belong to a
+// worker that died (e.g. a serverless timeout) and may be claimed again.
+const LOCK_TIMEOUT_MS = 15 * 60 * 1000;
+
+const BACKOFF_BASE_MS = 30 * 1000;
+const BACKOFF_MAX_MS = 30 * 60 * 1000;
+
+export function getBackoffDelay(attempts: number): number {
+  return Math.min(BACKOFF_BASE_MS * 2 ** Math.max(attempts - 1, 0), BACKOFF_MAX_MS);
+}
+
+// Returns the source's pending or running job if it already has one
+export async function enqueueIngestionJob(supabase: SupabaseClient, dataSourceId: string) {
+  const { data: existing } = await supabase
+    .from("ingestion_jobs")
+    .select("*")
+    .eq("data_source_id", dataSourceId)
+    .in("status", ["pending", "processing"])
+    .limit(1)
+    .maybeSingle();
+
+  if (existing) {
+    return existing as IngestionJob;
+  }
+
+  const { data, error } = await supabase
+    .from("ingestion_jobs")
+    .insert({ data_source_id: dataSourceId })
+    .select()
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to enqueue ingestion job: ${error.message}`);
+  }
+
+  return data as IngestionJob;
+}
+
+/**
+ * Claims the next runnable job. The update is conditional on `attempts` still
+ * matching what we read, so two workers racing for the same row can't both win.
+ */
+export async function claimNextJob(supabase: SupabaseClient): Promise<IngestionJob | null> {
+  const now = new Date();
+  const staleLock = new Date(now.getTime() - LOCK_TIMEOUT_MS);
+
+  const { data: candidates, error } = await supabase
+    .from("ingestion_jobs")
+    .select("*")
+    .or(`status.eq.pending,and(status.eq.processing,locked_at.lt.${staleLock.toISOString()})`)
+    .lte("run_at", now.toISOString())
+    .order("run_at", { ascending: true })
+    .limit(5);
+
+  if (error) {
+    throw new Error(`Failed to load ingestion jobs: ${error.message}`);
+  }
+
+  for (const candidate of (candidates || []) as IngestionJob[]) {
+    const { data: claimed } = await supabase
+      .from("ingestion_jobs")
+      .update({
+        status: "processing",
+        attempts: candidate.attempts + 1,
+        locked_at: now.toISOString(),
+        updated_at: now.toISOString(),
+      })
+      .eq("id", candidate.id)
+      .eq("attempts", candidate.attempts)
+      .select()
+      .maybeSingle();
+
+    if (claimed) {
+      return claimed as IngestionJob;
+    }
+  }
+
+  return null;
+}
+
+export async function completeJob(supabase: SupabaseClient, job: IngestionJob) {
+  await supabase
+    .from("ingestion_jobs")
+    .update({
+      status: "completed",
+      locked_at: null,
+      last_error: null,
+      updated_at: new Date().toISOString(),
+    })
+    .eq("id", job.id);
+}
+
+/**
+ * Records the failure and either schedules a retry with exponential backoff
+ * or, once attempts are exhausted (or the error isn't retryable), marks the
+ * job as permanently failed. Returns true if the job will be retried.
+ */
+export async function failJob(
+  supabase: SupabaseClient,
+  job: IngestionJob,
+  reason: string,
+  { retryable = true }: { retryable?: boolean } = {}
+): Promise<boolean> {
+  const willRetry = retryable && job.attempts < job.max_attempts;
+  const now = Date.now();
+
+  await supabase
+    .from("ingestion_jobs")
+    .update({
+      status: willRetry ? "pending" : "failed",
+      locked_at: null,
+      last_error: reason,
+      run_at: new Date(willRetry ? now + getBackoffDelay(job.attempts) : now).toISOString(),
+      updated_at: new Date(now).toISOString(),
+    })
+    .eq("id", job.id);
+
+  return willRetry;
+}
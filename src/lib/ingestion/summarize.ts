@@ -0,0 +1,161 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { LlmClient } from "@/lib/llm";
+import { mapWithConcurrency } from "@/lib/async";
+import type { TextChunk } from "./chunking";
+
+// Most text sent in a single summarization call; chunks are packed into
+// windows of this size for the map step
+const WINDOW_CHARS = 12000;
+const MAP_CONCURRENCY = 3;
+// Reduce rounds before we stop recursing and truncate instead
+const MAX_REDUCE_DEPTH = 4;
+
+const DETAILED_SYSTEM_PROMPT = "You are a research analyst. Create a detailed sentence-level summary of the key points in this document. Focus on facts, findings, methodologies, and conclusions.";
+const SECTION_SYSTEM_PROMPT = "You are a research analyst. Summarize this section of a longer document in detail. Keep every fact, figure, finding, name and conclusion; drop only repetition and filler.";
+
+type SummaryLevel = "sentence" | "paragraph" | "full";
+
+export interface StoredSummary {
+  id: string;
+  content: string;
+}
+
+/**
+ * Writes the sentence → paragraph → full summary chain for a source, each
+ * level condensing the one before it and linked through `parent_id`. The
+ * sentence level covers every chunk: long sources are summarized section
+ * by section (map) and the section summaries combined (reduce).
+ */
+export async function generateSummaries(
+  supabase: SupabaseClient,
+  llm: LlmClient,
+  dataSourceId: string,
+  chunks: TextChunk[]
+): Promise<StoredSummary[]> {
+  // Clear anything a previous, partially failed attempt left behind
+  await supabase
+    .from("summaries")
+    .delete()
+    .eq("data_source_id", dataSourceId);
+
+  // Generate sentence-level summary (most detailed)
+  const sentenceContent = await summarizeDetailed(llm, chunks.map(labelChunk));
+  const sentenceRecord = await insertSummary(supabase, dataSourceId, "sentence", sentenceContent);
+
+  // Generate paragraph-level summary (mid-level)
+  const paragraphContent = await summarize(
+    llm,
+    "summary:paragraph",
+    "You are a research analyst. Create a concise paragraph-level summary that captures the main themes and key findings.",
+    `Based on this detailed summary, create a shorter paragraph summary:\n\n${sentenceContent}`
+  );
+  const paragraphRecord = await insertSummary(supabase, dataSourceId, "paragraph", paragraphContent, sentenceRecord.id);
+
+  // Generate full-document summary (highest level)
+  const fullContent = await summarize(
+    llm,
+    "summary:full",
+    "You are a research analyst. Create a concise, high-level summary in 2-3 sentences that captures the essence of this document.",
+    `Create a brief executive summary:\n\n${paragraphContent}`
+  );
+  const fullRecord = await insertSummary(supabase, dataSourceId, "full", fullContent, paragraphRecord.id);
+
+  return [
+    { id: sentenceRecord.id, content: sentenceContent },
+    { id: paragraphRecord.id, content: paragraphContent },
+    { id: fullRecord.id, content: fullContent },
+  ];
+}
+
+async function summarizeDetailed(llm: LlmClient, texts: string[], depth = 0): Promise<string> {
+  const windows = packWindows(texts);
+
+  if (windows.length === 1 || depth >= MAX_REDUCE_DEPTH) {
+    const input = windows.join("\n\n").substring(0, WINDOW_CHARS);
+    return summarize(
+      llm,
+      "summary:sentence",
+      DETAILED_SYSTEM_PROMPT,
+      depth === 0
+        ? `Please create a detailed summary of this document:\n\n${input}`
+        : `These are summaries of consecutive sections of one document. Combine them into a single detailed summary of the whole document:\n\n${input}`
+    );
+  }
+
+  // Map: summarize each window independently
+  const sectionSummaries = await mapWithConcurrency(windows, MAP_CONCURRENCY, (window, index) =>
+    summarize(
+      llm,
+      "summary:section",
+      SECTION_SYSTEM_PROMPT,
+      `Summarize part ${index + 1} of ${windows.length} of this document:\n\n${window}`
+    )
+  );
+
+  // Reduce: the section summaries may themselves need more than one window
+  return summarizeDetailed(llm, sectionSummaries, depth + 1);
+}
+
+// Greedily packs texts, in order, into windows of at most `windowChars`
+export function packWindows(texts: string[], windowChars = WINDOW_CHARS): string[] {
+  const windows: string[] = [];
+  let current = "";
+
+  for (const text of texts) {
+    const piece = text.substring(0, windowChars);
+    if (current && current.length + piece.length + 2 > windowChars) {
+      windows.push(current);
+      current = "";
+    }
+    current = current ? `${current}\n\n${piece}` : piece;
+  }
+
+  if (current) windows.push(current);
+  return windows;
+}
+
+function labelChunk(chunk: TextChunk): string {
+  if (chunk.pageStart === undefined) return chunk.content;
+  const pages = chunk.pageStart === chunk.pageEnd
+    ? `page ${chunk.pageStart}`
+    : `pages ${chunk.pageStart}-${chunk.pageEnd}`;
+  return `[${pages}]\n${chunk.content}`;
+}
+
+// Retried while the model returns an empty answer, so a blank summary is
+// never stored
+async function summarize(llm: LlmClient, operation: string, systemPrompt: string, userPrompt: string): Promise<string> {
+  return llm.chat("summarization", {
+    operation,
+    messages: [
+      { role: "system", content: systemPrompt },
+      { role: "user", content: userPrompt },
+    ],
+    temperature: 0.3,
+  });
+}
+
+async function insertSummary(
+  supabase: SupabaseClient,
+  dataSourceId: string,
+  level: SummaryLevel,
+  content: string,
+  parentId?: string
+): Promise<{ id: string }> {
+  const { data, error } = await supabase
+    .from("summaries")
+    .insert({
+      data_source_id: dataSourceId,
+      parent_id: parentId,
+      content,
+      level,
+    })
+    .select("id")
+    .single();
+
+  if (error || !data) {
+    throw new Error(`Failed to save ${level} summary: ${error?.message || "no row returned"}`);
+  }
+
+  return data;
+}
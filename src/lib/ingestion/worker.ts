@@ -0,0 +1,86 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { createServiceClient } from "@/lib/supabase/service";
+import { claimNextJob, completeJob, failJob, type IngestionJob } from "./queue";
+import { runIngestionPipeline, type IngestionDataSource } from "./pipeline";
+import { toIngestionError, type IngestionError, type IngestionErrorDetails } from "./errors";
+
+/**
+ * Drains up to `maxJobs` runnable jobs from the queue, one at a time.
+ * Safe to call concurrently: claiming is atomic per job.
+ */
+export async function runIngestionWorker({ maxJobs = 5 }: { maxJobs?: number } = {}) {
+  const supabase = createServiceClient();
+  let processed = 0;
+  let failed = 0;
+
+  while (processed + failed < maxJobs) {
+    const job = await claimNextJob(supabase);
+    if (!job) break;
+
+    if (await runJob(supabase, job)) {
+      processed++;
+    } else {
+      failed++;
+    }
+  }
+
+  return { processed, failed };
+}
+
+async function runJob(supabase: SupabaseClient, job: IngestionJob): Promise<boolean> {
+  try {
+    const { data: dataSource, error } = await supabase
+      .from("data_sources")
+      .select("*")
+      .eq("id", job.data_source_id)
+      .single();
+
+    if (error || !dataSource) {
+      throw new Error("Data source not found");
+    }
+
+    await updateSource(supabase, job.data_source_id, { status: "processing" });
+
+    await runIngestionPipeline(supabase, dataSource as IngestionDataSource);
+
+    await updateSource(supabase, job.data_source_id, { status: "processed", error_details: null });
+    await completeJob(supabase, job);
+    return true;
+  } catch (error) {
+    const ingestionError = toIngestionError(error, "queue");
+    console.error(`Ingestion job ${job.id} failed (attempt ${job.attempts}/${job.max_attempts}):`, error);
+
+    const willRetry = await failJob(supabase, job, ingestionError.message, {
+      retryable: ingestionError.retryable,
+    });
+
+    await updateSource(supabase, job.data_source_id, {
+      status: willRetry ? "pending" : "failed",
+      error_details: toErrorDetails(ingestionError, job.attempts - 1),
+    });
+    return false;
+  }
+}
+
+export async function markSourceFailed(supabase: SupabaseClient, dataSourceId: string, error: IngestionError) {
+  await updateSource(supabase, dataSourceId, {
+    status: "failed",
+    error_details: toErrorDetails(error, 0),
+  });
+}
+
+function toErrorDetails(error: IngestionError, retryCount: number): IngestionErrorDetails {
+  return {
+    stage: error.stage,
+    message: error.message,
+    occurredAt: new Date().toISOString(),
+    retryCount,
+  };
+}
+
+async function updateSource(supabase: SupabaseClient, dataSourceId: string, fields: Record<string, unknown>) {
+  await supabase
+    .from("data_sources")
+    .update({ ...fields, updated_at: new Date().toISOString() })
+    .eq("id", dataSourceId);
+}
@@ -0,0 +1,185 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { z } from "zod";
+import { EMBEDDING_DIMENSIONS } from "@/lib/embeddings";
+import { resolveModels, type ModelSettings } from "./models";
+import { estimateCost } from "./pricing";
+import { createFakeProvider } from "./providers/fake";
+import { createOpenAIProvider } from "./providers/openai";
+import { completeJson, completeText } from "./structured";
+import type { ChatMessage, LlmProvider, LlmTask, TokenUsage } from "./types";
+import { assertWithinSpendingCap, createUsageRecorder, type UsageRecorder } from "./usage";
+
+export type { ChatMessage, LlmProvider, LlmTask } from "./types";
+export { LlmOutputError } from "./structured";
+export { assertWithinSpendingCap, SpendingCapError } from "./usage";
+
+interface ChatOptions {
+  messages: ChatMessage[];
+  temperature?: number;
+  // Label for usage accounting, e.g. "summary:paragraph". Defaults to the task.
+  operation?: string;
+  // Attributes the cost to a source when the client covers several
+  dataSourceId?: string;
+}
+
+type CallOptions = Pick<ChatOptions, "operation" | "dataSourceId">;
+
+/**
+ * What the rest of the app uses for model calls. Callers name the task, not
+ * the model; the client picks the configured model for it.
+ */
+export interface LlmClient {
+  provider: string;
+  models: Record<LlmTask, string>;
+  // Text answer, retried while empty
+  chat(task: LlmTask, options: ChatOptions): Promise<string>;
+  // JSON answer validated against `schema`, repaired or retried when it fails
+  chatJson<T extends z.ZodType>(
+    task: LlmTask,
+    options: ChatOptions & { schema: T; maxAttempts?: number }
+  ): Promise<z.output<T>>;
+  // One vector per input, in order. Batching is up to the caller (see embedTexts).
+  embed(texts: string[], options?: CallOptions): Promise<number[][]>;
+  transcribe(file: File, options?: CallOptions): Promise<string>;
+}
+
+/**
+ * The backend selected by LLM_PROVIDER:
+ * - "openai" (default): OPENAI_API_KEY
+ * - "local": an OpenAI-compatible server at LOCAL_LLM_BASE_URL (Ollama,
+ *   llama.cpp server), with optional LOCAL_LLM_API_KEY
+ * - "fake": deterministic offline answers, for tests
+ */
+export function createLlmProvider(): LlmProvider {
+  const providerName = process.env.LLM_PROVIDER || "openai";
+
+  switch (providerName) {
+    case "openai":
+      if (!process.env.OPENAI_API_KEY) {
+        throw new Error("OPENAI_API_KEY is not set");
+      }
+      return createOpenAIProvider({ apiKey: process.env.OPENAI_API_KEY });
+
+    case "local":
+      if (!process.env.LOCAL_LLM_BASE_URL) {
+        throw new Error("LOCAL_LLM_BASE_URL is not set");
+      }
+      return createOpenAIProvider({
+        name: "local",
+        baseURL: process.env.LOCAL_LLM_BASE_URL,
+        // Local servers usually ignore the key, but the SDK requires one
+        apiKey: process.env.LOCAL_LLM_API_KEY || "local",
+        sendEmbeddingDimensions: false,
+      });
+
+    case "fake":
+      return createFakeProvider();
+
+    default:
+      throw new Error(`Unknown LLM_PROVIDER "${providerName}"`);
+  }
+}
+
+export function createLlmClient({
+  provider = createLlmProvider(),
+  modelSettings,
+  recordUsage,
+}: { provider?: LlmProvider; modelSettings?: ModelSettings | null; recordUsage?: UsageRecorder } = {}): LlmClient {
+  const models = resolveModels(modelSettings);
+
+  // The provider, reporting every call (retries included) under `operation`
+  const tracked = (operation: string, dataSourceId?: string): LlmProvider => {
+    if (!recordUsage) return provider;
+
+    const record = (model: string, usage: TokenUsage | null, audioSeconds?: number | null) =>
+      recordUsage({
+        operation,
+        dataSourceId,
+        provider: provider.name,
+        model,
+        usage,
+        audioSeconds,
+        estimatedCost: estimateCost(provider.name, model, usage, audioSeconds),
+      });
+
+    return {
+      name: provider.name,
+      async chat(request) {
+        const response = await provider.chat(request);
+        await record(request.model, response.usage);
+        return response;
+      },
+      async embed(request) {
+        const response = await provider.embed(request);
+        await record(request.model, response.usage);
+        return response;
+      },
+      async transcribe(request) {
+        const response = await provider.transcribe(request);
+        await record(request.model, null, response.durationSeconds ?? 0);
+        return response;
+      },
+    };
+  };
+
+  return {
+    provider: provider.name,
+    models,
+
+    chat(task, { messages, temperature, operation = task, dataSourceId }) {
+      return completeText(tracked(operation, dataSourceId), { model: models[task], messages, temperature });
+    },
+
+    chatJson(task, { messages, temperature, schema, maxAttempts, operation = task, dataSourceId }) {
+      return completeJson(tracked(operation, dataSourceId), { model: models[task], messages, temperature, schema, maxAttempts });
+    },
+
+    async embed(texts, { operation = "embedding", dataSourceId } = {}) {
+      const { embeddings } = await tracked(operation, dataSourceId).embed({
+        model: models.embedding,
+        input: texts,
+        dimensions: EMBEDDING_DIMENSIONS,
+      });
+
+      // The vector columns are fixed-size; a mismatched model would fail on insert
+      const wrongSize = embeddings.find((embedding) => embedding.length !== EMBEDDING_DIMENSIONS);
+      if (wrongSize) {
+        throw new Error(
+          `Embedding model ${models.embedding} returned ${wrongSize.length} dimensions; the database expects ${EMBEDDING_DIMENSIONS}`
+        );
+      }
+
+      return embeddings;
+    },
+
+    async transcribe(file, { operation = "transcription", dataSourceId } = {}) {
+      const { text } = await tracked(operation, dataSourceId).transcribe({ model: models.transcription, file });
+      return text;
+    },
+  };
+}
+
+/**
+ * A client for work on one project: it uses the project's own model choices
+ * (projects.model_settings) on top of the environment defaults and records
+ * every call in llm_usage, attributed to `dataSourceId` when given. Throws
+ * SpendingCapError if the project's spending cap has been reached.
+ */
+export async function getProjectLlmClient(
+  supabase: SupabaseClient,
+  projectId: string,
+  { dataSourceId }: { dataSourceId?: string } = {}
+): Promise<LlmClient> {
+  await assertWithinSpendingCap(supabase, projectId);
+
+  const { data: project } = await supabase
+    .from("projects")
+    .select("model_settings")
+    .eq("id", projectId)
+    .single();
+
+  return createLlmClient({
+    modelSettings: project?.model_settings as ModelSettings | null,
+    recordUsage: createUsageRecorder(supabase, projectId, dataSourceId),
+  });
+}
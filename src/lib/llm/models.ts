@@ -0,0 +1,44 @@
+import { EMBEDDING_MODEL } from "@/lib/embeddings";
+import type { LlmTask } from "./types";
+
+export const LLM_TASKS: LlmTask[] = ["summarization", "discovery", "extraction", "entities", "chat", "embedding", "transcription"];
+
+// Per-task model overrides, as stored in projects.model_settings
+export type ModelSettings = Partial<Record<LlmTask, string>>;
+
+const DEFAULT_MODELS: Record<LlmTask, string> = {
+  summarization: "gpt-4",
+  discovery: "gpt-4-turbo-preview",
+  extraction: "gpt-4-turbo-preview",
+  entities: "gpt-4-turbo-preview",
+  chat: "gpt-4",
+  embedding: EMBEDDING_MODEL,
+  transcription: "whisper-1",
+};
+
+// Embeddings are excluded: every vector in the database must come from the
+// same model for similarity search to mean anything
+export const PROJECT_CONFIGURABLE_TASKS: LlmTask[] = LLM_TASKS.filter((task) => task !== "embedding");
+
+/**
+ * The model for each task: built-in default, then LLM_MODEL_<TASK> from the
+ * environment (e.g. LLM_MODEL_EXTRACTION=llama3.1), then the project's own
+ * overrides.
+ */
+export function resolveModels(projectSettings?: ModelSettings | null): Record<LlmTask, string> {
+  const models = { ...DEFAULT_MODELS };
+
+  for (const task of LLM_TASKS) {
+    const fromEnv = process.env[`LLM_MODEL_${task.toUpperCase()}`]?.trim();
+    if (fromEnv) models[task] = fromEnv;
+  }
+
+  for (const task of PROJECT_CONFIGURABLE_TASKS) {
+    const fromProject = projectSettings?.[task];
+    if (typeof fromProject === "string" && fromProject.trim()) {
+      models[task] = fromProject.trim();
+    }
+  }
+
+  return models;
+}
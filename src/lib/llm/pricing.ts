@@ -0,0 +1,65 @@
+import type { TokenUsage } from "./types";
+
+interface TokenPrice {
+  input: number; // USD per 1M prompt tokens
+  output: number; // USD per 1M completion tokens
+}
+
+// List prices for the OpenAI models we default to or commonly configure.
+// Longer keys win, so "gpt-4o-mini" is not priced as "gpt-4o" or "gpt-4".
+const TOKEN_PRICES: Record<string, TokenPrice> = {
+  "gpt-4": { input: 30, output: 60 },
+  "gpt-4-turbo": { input: 10, output: 30 },
+  "gpt-4-turbo-preview": { input: 10, output: 30 },
+  "gpt-4o": { input: 2.5, output: 10 },
+  "gpt-4o-mini": { input: 0.15, output: 0.6 },
+  "gpt-4.1": { input: 2, output: 8 },
+  "gpt-4.1-mini": { input: 0.4, output: 1.6 },
+  "gpt-3.5-turbo": { input: 0.5, output: 1.5 },
+  "text-embedding-3-small": { input: 0.02, output: 0 },
+  "text-embedding-3-large": { input: 0.13, output: 0 },
+  "text-embedding-ada-002": { input: 0.1, output: 0 },
+};
+
+// USD per minute of audio
+const TRANSCRIPTION_PRICES: Record<string, number> = {
+  "whisper-1": 0.006,
+};
+
+/**
+ * Estimated USD cost of a call. Local and fake providers are free; models we
+ * have no price for are recorded at 0 rather than guessed.
+ */
+export function estimateCost(
+  provider: string,
+  model: string,
+  usage: TokenUsage | null,
+  audioSeconds?: number | null
+): number {
+  if (provider !== "openai") return 0;
+
+  if (audioSeconds !== undefined && audioSeconds !== null) {
+    return ((TRANSCRIPTION_PRICES[model] ?? 0) * audioSeconds) / 60;
+  }
+
+  const price = findTokenPrice(model);
+  if (!price || !usage) return 0;
+
+  return (usage.promptTokens * price.input + usage.completionTokens * price.output) / 1_000_000;
+}
+
+// Cents are enough for display; tiny non-zero amounts shouldn't read as free
+export function formatCost(cost: number): string {
+  return cost > 0 && cost < 0.01 ? "<$0.01" : `$${cost.toFixed(2)}`;
+}
+
+// Dated snapshots ("gpt-4o-2024-08-06") are priced like their base model
+function findTokenPrice(model: string): TokenPrice | undefined {
+  if (TOKEN_PRICES[model]) return TOKEN_PRICES[model];
+
+  const base = Object.keys(TOKEN_PRICES)
+    .filter((key) => model.startsWith(`${key}-`))
+    .sort((a, b) => b.length - a.length)[0];
+
+  return base ? TOKEN_PRICES[base] : undefined;
+}
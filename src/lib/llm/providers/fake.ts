@@ -0,0 +1,84 @@
+import type { ChatRequest, LlmProvider } from "../types";
+
+interface FakeProviderOptions {
+  // Canned answer for a chat request. The default echoes the last user
+  // message, or returns "{}" in JSON mode.
+  respond?: (request: ChatRequest) => string;
+}
+
+/**
+ * Deterministic, offline provider for tests and local development: the same
+ * input always produces the same output and nothing leaves the machine.
+ * Embeddings are stable pseudo-random unit vectors seeded by the text, so
+ * identical texts match exactly and different texts do not.
+ */
+export function createFakeProvider({ respond }: FakeProviderOptions = {}): LlmProvider {
+  return {
+    name: "fake",
+
+    async chat(request) {
+      const content = respond
+        ? respond(request)
+        : request.json
+          ? "{}"
+          : `Fake response: ${lastUserMessage(request).substring(0, 200)}`;
+
+      return {
+        content,
+        usage: {
+          promptTokens: estimateTokens(request.messages.map((message) => message.content).join("\n")),
+          completionTokens: estimateTokens(content),
+        },
+      };
+    },
+
+    async embed({ input, dimensions }) {
+      return {
+        embeddings: input.map((text) => fakeEmbedding(text, dimensions)),
+        usage: { promptTokens: estimateTokens(input.join("\n")), completionTokens: 0 },
+      };
+    },
+
+    async transcribe({ file }) {
+      return {
+        text: `Fake transcript of ${file.name}`,
+        durationSeconds: 0,
+      };
+    },
+  };
+}
+
+function lastUserMessage(request: ChatRequest): string {
+  return [...request.messages].reverse().find((message) => message.role === "user")?.content || "";
+}
+
+// Roughly four characters per token for English text
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+function fakeEmbedding(text: string, dimensions: number): number[] {
+  const random = mulberry32(fnv1a(text));
+  const vector = Array.from({ length: dimensions }, () => random() * 2 - 1);
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0)) || 1;
+  return vector.map((value) => value / norm);
+}
+
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+function mulberry32(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
@@ -0,0 +1,72 @@
+import OpenAI from "openai";
+import type { LlmProvider } from "../types";
+
+interface OpenAIProviderOptions {
+  name?: string;
+  apiKey: string;
+  baseURL?: string; // An OpenAI-compatible server, e.g. http://localhost:11434/v1 for Ollama
+  // Only OpenAI's own embedding models accept a `dimensions` parameter
+  sendEmbeddingDimensions?: boolean;
+}
+
+/**
+ * Talks to the OpenAI API, or to any server implementing the same endpoints
+ * (Ollama, llama.cpp server, vLLM, LocalAI) when `baseURL` is set.
+ */
+export function createOpenAIProvider({
+  name = "openai",
+  apiKey,
+  baseURL,
+  sendEmbeddingDimensions = true,
+}: OpenAIProviderOptions): LlmProvider {
+  const openai = new OpenAI({ apiKey, baseURL });
+
+  return {
+    name,
+
+    async chat({ model, messages, temperature, json }) {
+      const completion = await openai.chat.completions.create({
+        model,
+        messages,
+        temperature,
+        ...(json ? { response_format: { type: "json_object" as const } } : {}),
+      });
+
+      return {
+        content: completion.choices[0]?.message?.content || "",
+        usage: completion.usage
+          ? { promptTokens: completion.usage.prompt_tokens, completionTokens: completion.usage.completion_tokens }
+          : null,
+      };
+    },
+
+    async embed({ model, input, dimensions }) {
+      const response = await openai.embeddings.create({
+        model,
+        input,
+        ...(sendEmbeddingDimensions ? { dimensions } : {}),
+      });
+
+      // The API may return items out of order; `index` is authoritative
+      const ordered = [...response.data].sort((a, b) => a.index - b.index);
+
+      return {
+        embeddings: ordered.map((item) => item.embedding),
+        usage: response.usage ? { promptTokens: response.usage.prompt_tokens, completionTokens: 0 } : null,
+      };
+    },
+
+    async transcribe({ model, file }) {
+      const transcription = await openai.audio.transcriptions.create({
+        file,
+        model,
+        response_format: "verbose_json",
+      });
+
+      return {
+        text: transcription.text,
+        durationSeconds: transcription.duration ?? null,
+      };
+    },
+  };
+}
@@ -0,0 +1,115 @@
+import { z } from "zod";
+import type { ChatMessage, LlmProvider } from "./types";
+
+export interface StructuredCompletionOptions<T extends z.ZodType> {
+  model: string;
+  messages: ChatMessage[];
+  schema: T;
+  temperature?: number;
+  // Total model calls, including the first
+  maxAttempts?: number;
+}
+
+const DEFAULT_MAX_ATTEMPTS = 3;
+
+/**
+ * The model kept answering with output that does not match the schema.
+ * `output` is its last answer, kept for logging.
+ */
+export class LlmOutputError extends Error {
+  constructor(message: string, public readonly output: string) {
+    super(message);
+    this.name = "LlmOutputError";
+  }
+}
+
+/**
+ * Runs a JSON-mode completion and validates the answer against `schema`.
+ * Cheap fixes (code fences, prose around the object) are applied locally;
+ * anything else is sent back to the model with the validation errors so it
+ * can correct itself, up to `maxAttempts` calls.
+ */
+export async function completeJson<T extends z.ZodType>(
+  provider: LlmProvider,
+  { model, messages, schema, temperature, maxAttempts = DEFAULT_MAX_ATTEMPTS }: StructuredCompletionOptions<T>
+): Promise<z.output<T>> {
+  const conversation = [...messages];
+  let lastOutput = "";
+  let lastProblem = "";
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    const response = await provider.chat({ model, messages: conversation, temperature, json: true });
+    lastOutput = response.content;
+
+    const parsed = parseJsonLoosely(lastOutput);
+    if (parsed === undefined) {
+      lastProblem = "The response was not valid JSON.";
+    } else {
+      const result = schema.safeParse(parsed);
+      if (result.success) {
+        return result.data;
+      }
+      lastProblem = z.prettifyError(result.error);
+    }
+
+    conversation.push(
+      { role: "assistant", content: lastOutput },
+      {
+        role: "user",
+        content: `Your previous response did not match the required format:\n${lastProblem}\n\nRespond again with corrected JSON only.`,
+      }
+    );
+  }
+
+  console.error("Invalid structured output from model:", lastOutput);
+  throw new LlmOutputError(`Model returned invalid output after ${maxAttempts} attempts: ${lastProblem}`, lastOutput);
+}
+
+/**
+ * Plain-text counterpart of `completeJson`: retries while the answer fails
+ * `schema` (by default, while it is empty).
+ */
+export async function completeText(
+  provider: LlmProvider,
+  {
+    model,
+    messages,
+    schema = z.string().trim().min(1),
+    temperature,
+    maxAttempts = DEFAULT_MAX_ATTEMPTS,
+  }: Omit<StructuredCompletionOptions<z.ZodType<string>>, "schema"> & { schema?: z.ZodType<string> }
+): Promise<string> {
+  let lastOutput = "";
+  let lastProblem = "";
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    const response = await provider.chat({ model, messages, temperature });
+    lastOutput = response.content;
+
+    const result = schema.safeParse(lastOutput);
+    if (result.success) {
+      return result.data;
+    }
+    lastProblem = z.prettifyError(result.error);
+  }
+
+  throw new LlmOutputError(`Model returned invalid output after ${maxAttempts} attempts: ${lastProblem}`, lastOutput);
+}
+
+// JSON.parse, falling back to the outermost {...} for answers wrapped in
+// code fences or prose. Returns undefined when nothing parses.
+function parseJsonLoosely(content: string): unknown {
+  try {
+    return JSON.parse(content);
+  } catch {
+    const start = content.indexOf("{");
+    const end = content.lastIndexOf("}");
+    if (start === -1 || end <= start) return undefined;
+
+    try {
+      return JSON.parse(content.substring(start, end + 1));
+    } catch {
+      return undefined;
+    }
+  }
+}
@@ -0,0 +1,63 @@
+// What a model call is for. Each task can run on a different model.
+export type LlmTask =
+  | "summarization"
+  | "discovery"
+  | "extraction"
+  | "entities"
+  | "chat"
+  | "embedding"
+  | "transcription";
+
+export interface ChatMessage {
+  role: "system" | "user" | "assistant";
+  content: string;
+}
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+export interface ChatRequest {
+  model: string;
+  messages: ChatMessage[];
+  temperature?: number;
+  json?: boolean; // Ask for a single JSON object (JSON mode)
+}
+
+export interface ChatResponse {
+  content: string;
+  usage: TokenUsage | null; // Null when the backend doesn't report it
+}
+
+export interface EmbeddingRequest {
+  model: string;
+  input: string[];
+  dimensions: number;
+}
+
+export interface EmbeddingResponse {
+  embeddings: number[][]; // Same order as the input
+  usage: TokenUsage | null;
+}
+
+export interface TranscriptionRequest {
+  model: string;
+  file: File;
+}
+
+export interface TranscriptionResponse {
+  text: string;
+  durationSeconds: number | null;
+}
+
+/**
+ * One model backend. Providers only translate requests; model choice,
+ * validation and retries live in the client built on top of them.
+ */
+export interface LlmProvider {
+  name: string;
+  chat(request: ChatRequest): Promise<ChatResponse>;
+  embed(request: EmbeddingRequest): Promise<EmbeddingResponse>;
+  transcribe(request: TranscriptionRequest): Promise<TranscriptionResponse>;
+}
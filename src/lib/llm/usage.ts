@@ -0,0 +1,122 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { TokenUsage } from "./types";
+
+export interface UsageRecord {
+  operation: string;
+  dataSourceId?: string; // Overrides the recorder's default source
+  provider: string;
+  model: string;
+  usage: TokenUsage | null;
+  audioSeconds?: number | null;
+  estimatedCost: number;
+}
+
+export type UsageRecorder = (record: UsageRecord) => Promise<void>;
+
+export interface UsageTotals {
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  estimatedCost: number;
+  byOperation: Record<string, { calls: number; estimatedCost: number }>;
+}
+
+/**
+ * Refused because the project's spending cap has been reached. Raised
+ * before work starts, never in the middle of a call.
+ */
+export class SpendingCapError extends Error {
+  constructor(public readonly cap: number, public readonly spent: number) {
+    super(`This project has reached its spending cap of $${cap.toFixed(2)} (spent $${spent.toFixed(2)})`);
+    this.name = "SpendingCapError";
+  }
+}
+
+/**
+ * Writes one llm_usage row per call. Accounting must never break the work
+ * it measures, so failures are only logged.
+ */
+export function createUsageRecorder(
+  supabase: SupabaseClient,
+  projectId: string,
+  dataSourceId?: string | null
+): UsageRecorder {
+  return async (record) => {
+    const { error } = await supabase
+      .from("llm_usage")
+      .insert({
+        project_id: projectId,
+        data_source_id: record.dataSourceId ?? dataSourceId ?? null,
+        operation: record.operation,
+        provider: record.provider,
+        model: record.model,
+        prompt_tokens: record.usage?.promptTokens ?? 0,
+        completion_tokens: record.usage?.completionTokens ?? 0,
+        audio_seconds: record.audioSeconds ?? null,
+        estimated_cost: record.estimatedCost,
+      });
+
+    if (error) {
+      console.error("Failed to record LLM usage:", error);
+    }
+  };
+}
+
+/**
+ * Totals per project for the given IDs. Projects with no usage are present
+ * with zeroes.
+ */
+export async function getUsageTotals(
+  supabase: SupabaseClient,
+  projectIds: string[]
+): Promise<Map<string, UsageTotals>> {
+  const totals = new Map<string, UsageTotals>(
+    projectIds.map((id) => [id, { calls: 0, promptTokens: 0, completionTokens: 0, estimatedCost: 0, byOperation: {} }])
+  );
+  if (projectIds.length === 0) return totals;
+
+  const { data, error } = await supabase.rpc("project_usage_totals", { p_project_ids: projectIds });
+  if (error) {
+    throw new Error(`Failed to load usage: ${error.message}`);
+  }
+
+  for (const row of (data || []) as {
+    project_id: string;
+    operation: string;
+    calls: number;
+    prompt_tokens: number;
+    completion_tokens: number;
+    estimated_cost: number;
+  }[]) {
+    const total = totals.get(row.project_id);
+    if (!total) continue;
+
+    total.calls += Number(row.calls);
+    total.promptTokens += Number(row.prompt_tokens);
+    total.completionTokens += Number(row.completion_tokens);
+    total.estimatedCost += Number(row.estimated_cost);
+    total.byOperation[row.operation] = { calls: Number(row.calls), estimatedCost: Number(row.estimated_cost) };
+  }
+
+  return totals;
+}
+
+/**
+ * Throws SpendingCapError if the project has a cap and has reached it.
+ * Call before starting any new LLM work for the project.
+ */
+export async function assertWithinSpendingCap(supabase: SupabaseClient, projectId: string): Promise<void> {
+  const { data: project } = await supabase
+    .from("projects")
+    .select("spending_cap")
+    .eq("id", projectId)
+    .single();
+
+  const cap = project?.spending_cap;
+  if (cap === null || cap === undefined) return;
+
+  const spent = (await getUsageTotals(supabase, [projectId])).get(projectId)?.estimatedCost ?? 0;
+  if (spent >= cap) {
+    throw new SpendingCapError(cap, spent);
+  }
+}
@@ -0,0 +1,41 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+// Most to least privileged, as in the project_role enum
+export const PROJECT_ROLES = ["owner", "editor", "viewer"] as const;
+export type ProjectRole = (typeof PROJECT_ROLES)[number];
+
+/**
+ * What each role may do:
+ * - viewer: read everything, search, chat and export
+ * - editor: also add and retry sources, edit the matrix and entities, and
+ *   start anything that spends from the LLM budget
+ * - owner: also change project settings and manage members
+ */
+export function hasProjectRole(role: ProjectRole, minimum: ProjectRole): boolean {
+  return PROJECT_ROLES.indexOf(role) <= PROJECT_ROLES.indexOf(minimum);
+}
+
+export function insufficientRoleMessage(minimum: ProjectRole): string {
+  return minimum === "owner"
+    ? "Only project owners can do this"
+    : "Viewers cannot change this project";
+}
+
+/**
+ * The project with the caller's role on it, or null if it does not exist or
+ * they are not a member. The role comes from project_members, so pass a
+ * user-scoped client and the caller's Clerk user id.
+ */
+export async function getProjectAccess(supabase: SupabaseClient, projectId: string, userId: string) {
+  const { data, error } = await supabase
+    .from("projects")
+    .select("*, members:project_members!inner(role)")
+    .eq("id", projectId)
+    .eq("members.user_id", userId)
+    .single();
+
+  if (error || !data) return null;
+
+  const { members, ...project } = data;
+  return { project, role: (members as { role: ProjectRole }[])[0].role };
+}
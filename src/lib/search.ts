@@ -0,0 +1,45 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { LlmClient } from "@/lib/llm";
+import { embedText } from "@/lib/embeddings";
+
+export interface SearchResult {
+  kind: "chunk" | "summary";
+  id: string;
+  data_source_id: string;
+  data_source_name: string;
+  data_source_type: string;
+  content: string;
+  chunk_index: number | null;
+  page_start: number | null;
+  page_end: number | null;
+  summary_level: "sentence" | "paragraph" | "full" | null;
+  similarity: number;
+}
+
+export const MAX_SEARCH_RESULTS = 50;
+
+/**
+ * Ranks a project's chunks and summaries against a free-text query.
+ * Pass a user-scoped client so RLS limits results to what the caller can see.
+ */
+export async function searchProjectPassages(
+  supabase: SupabaseClient,
+  llm: LlmClient,
+  projectId: string,
+  query: string,
+  limit = 10
+): Promise<SearchResult[]> {
+  const queryEmbedding = await embedText(llm, query);
+
+  const { data, error } = await supabase.rpc("match_project_passages", {
+    p_project_id: projectId,
+    query_embedding: queryEmbedding,
+    match_count: Math.min(Math.max(limit, 1), MAX_SEARCH_RESULTS),
+  });
+
+  if (error) {
+    throw new Error(`Search failed: ${error.message}`);
+  }
+
+  return (data || []) as SearchResult[];
+}
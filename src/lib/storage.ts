@@ -0,0 +1,81 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+// Private bucket for uploaded files. For those, data_sources.content_url is
+// the object path in it; for URL sources it is the web address.
+export const DOCUMENTS_BUCKET = "documents";
+
+// Long enough to start a download or begin streaming a recording, short
+// enough that a shared link soon stops working
+export const SIGNED_URL_EXPIRY_SECONDS = 5 * 60;
+
+export function isWebUrl(contentUrl: string | null | undefined): contentUrl is string {
+  return !!contentUrl && /^https?:\/\//i.test(contentUrl);
+}
+
+/**
+ * Whether `path` is one of this project's uploads, i.e. has the
+ * `<userId>/<projectId>/<file>` layout /api/upload writes. Paths are read
+ * from data_sources rows that editors can write, so check this before using
+ * one with the service-role client, which could otherwise reach any
+ * project's files.
+ */
+export function isProjectStoragePath(path: unknown, projectId: string): path is string {
+  if (typeof path !== "string") return false;
+  const segments = path.split("/");
+  return segments.length === 3
+    && segments[1] === projectId
+    && segments.every((segment) => segment !== "" && segment !== "." && segment !== "..");
+}
+
+/**
+ * The upload a source's file is served and re-ingested from: content_url,
+ * when it is the path recorded in metadata.storagePath at upload and one of
+ * `projectId`'s. Signing and downloading use the service-role client, so
+ * anything else (URL sources, placeholders, paths an editor wrote) is null.
+ */
+export function getSourceFilePath(
+  source: { content_url?: unknown; metadata?: unknown },
+  projectId: string
+): string | null {
+  const metadata = (source.metadata || {}) as Record<string, unknown>;
+  return isProjectStoragePath(source.content_url, projectId) && source.content_url === metadata.storagePath
+    ? source.content_url
+    : null;
+}
+
+/**
+ * The object path of a source's upload, if it is one of `projectId`'s:
+ * metadata.storagePath, or else content_url, which is all uploads made
+ * before storagePath was recorded have. Null for URL sources, placeholders
+ * and paths outside the project.
+ */
+export function getStoredFilePath(
+  source: { content_url?: unknown; metadata?: unknown },
+  projectId: string
+): string | null {
+  const metadata = (source.metadata || {}) as Record<string, unknown>;
+  for (const path of [metadata.storagePath, source.content_url]) {
+    if (isProjectStoragePath(path, projectId)) return path;
+  }
+  return null;
+}
+
+/**
+ * A short-lived link to a stored file. Needs the service-role client: the
+ * bucket has no storage policies, so callers check project access first.
+ * With `downloadName` the browser saves the file instead of opening it.
+ */
+export async function createSignedFileUrl(
+  supabase: SupabaseClient,
+  path: string,
+  downloadName?: string
+): Promise<string> {
+  const { data, error } = await supabase.storage
+    .from(DOCUMENTS_BUCKET)
+    .createSignedUrl(path, SIGNED_URL_EXPIRY_SECONDS, downloadName ? { download: downloadName } : undefined);
+
+  if (error || !data) {
+    throw new Error(`Failed to sign ${path}: ${error?.message || "empty response"}`);
+  }
+  return data.signedUrl;
+}
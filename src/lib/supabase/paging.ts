@@ -0,0 +1,31 @@
+// PostgREST returns at most this many rows per request
+export const PAGE_SIZE = 1000;
+
+interface PageResult<T> {
+  data: T[] | null;
+  error: { message: string } | null;
+}
+
+/**
+ * Every row a query matches, a page at a time, so results past PostgREST's
+ * row cap aren't silently dropped. `buildQuery` makes a fresh request for
+ * each page and must order by a unique key so pages don't overlap. Throws
+ * on the first failed page, naming `what` was being loaded.
+ */
+export async function selectAllRows<T>(
+  what: string,
+  buildQuery: () => { range(from: number, to: number): PromiseLike<PageResult<T>> }
+): Promise<T[]> {
+  const rows: T[] = [];
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await buildQuery().range(from, from + PAGE_SIZE - 1);
+    if (error) {
+      throw new Error(`Failed to load ${what}: ${error.message}`);
+    }
+
+    rows.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+  return rows;
+}
@@ -0,0 +1,14 @@
+import { createClient as createSupabaseClient } from '@supabase/supabase-js'
+
+// Service-role client for background work that runs without a user session.
+// Bypasses RLS, so callers must scope every query themselves.
+export function createServiceClient() {
+  if (!process.env.NEXT_PUBLIC_SUPABASE_URL || !process.env.SUPABASE_SERVICE_ROLE_KEY) {
+    throw new Error('Supabase configuration missing')
+  }
+
+  return createSupabaseClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL,
+    process.env.SUPABASE_SERVICE_ROLE_KEY
+  )
+}
@@ -0,0 +1,195 @@
+import ExcelJS from "exceljs";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { isWebUrl } from "@/lib/storage";
+import { selectAllRows } from "@/lib/supabase/paging";
+import { applyMatrixView, cellDisplayValue, indexMatrixValues, type MatrixView } from "./matrix";
+
+export const EXPORT_FORMATS = ["csv", "xlsx", "json"] as const;
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+// Extra columns written after each parameter's value column
+export const EXPORT_COMPANIONS = ["confidence", "verified", "context"] as const;
+export type ExportCompanion = (typeof EXPORT_COMPANIONS)[number];
+
+interface ExportSource {
+  id: string;
+  name: string;
+  type: string;
+  content_url: string | null;
+  created_at: string;
+}
+
+interface ExportParameter {
+  id: string;
+  name: string;
+  type: string;
+  description: string | null;
+}
+
+interface ExportValue {
+  data_source_id: string;
+  parameter_id: string;
+  value: string | null;
+  extracted_value: string | null;
+  confidence: number | null;
+  context: string | null;
+  is_verified: boolean;
+}
+
+export interface SynthesisMatrix {
+  sources: ExportSource[]; // Filtered and in view order
+  parameters: ExportParameter[];
+  values: Map<string, ExportValue>;
+}
+
+type Cell = string | number | null;
+
+/**
+ * The synthesis matrix as the table shows it for `view`. Pass a user-scoped
+ * client so RLS limits it to what the caller can see.
+ */
+export async function loadSynthesisMatrix(
+  supabase: SupabaseClient,
+  projectId: string,
+  view: MatrixView
+): Promise<SynthesisMatrix> {
+  const [sources, { data: parameters, error: parametersError }] = await Promise.all([
+    selectAllRows<ExportSource>("sources", () => supabase
+      .from("data_sources")
+      .select("id, name, type, content_url, created_at")
+      .eq("project_id", projectId)
+      .eq("status", "processed")
+      .order("id", { ascending: true })),
+    supabase
+      .from("synthesis_parameters")
+      .select("id, name, type, description")
+      .eq("project_id", projectId)
+      .order("display_order", { ascending: true }),
+  ]);
+
+  if (parametersError) {
+    throw new Error(`Failed to load synthesis matrix: ${parametersError.message}`);
+  }
+
+  const values = parameters && parameters.length > 0
+    ? await selectAllRows<ExportValue>("synthesis values", () => supabase
+        .from("synthesis_values")
+        .select("data_source_id, parameter_id, value, extracted_value, confidence, context, is_verified")
+        .in("parameter_id", parameters.map((parameter) => parameter.id))
+        .order("id", { ascending: true }))
+    : [];
+
+  const valueMap = indexMatrixValues(values);
+
+  return {
+    sources: applyMatrixView(sources, parameters || [], valueMap, view),
+    parameters: parameters || [],
+    values: valueMap,
+  };
+}
+
+// One header row and one row per source, shared by the CSV and XLSX writers
+function toRows(matrix: SynthesisMatrix, companions: ExportCompanion[]): Cell[][] {
+  const header: Cell[] = ["Source", "Type", "URL", "Added"];
+  for (const parameter of matrix.parameters) {
+    header.push(parameter.name);
+    for (const companion of companions) {
+      header.push(`${parameter.name} (${companion})`);
+    }
+  }
+
+  const rows = matrix.sources.map((source) => {
+    const row: Cell[] = [source.name, source.type, sourceUrl(source), source.created_at.slice(0, 10)];
+    for (const parameter of matrix.parameters) {
+      const value = matrix.values.get(`${source.id}-${parameter.id}`);
+      const display = cellDisplayValue(value);
+      row.push(display || null);
+      for (const companion of companions) {
+        row.push(display ? companionCell(value!, companion) : null);
+      }
+    }
+    return row;
+  });
+
+  return [header, ...rows];
+}
+
+// Uploaded files have a private storage path rather than a URL worth sharing
+function sourceUrl(source: ExportSource): string | null {
+  return isWebUrl(source.content_url) ? source.content_url : null;
+}
+
+function companionCell(value: ExportValue, companion: ExportCompanion): Cell {
+  switch (companion) {
+    case "confidence":
+      return value.confidence;
+    case "verified":
+      return value.is_verified ? "yes" : "no";
+    case "context":
+      return value.context;
+  }
+}
+
+// Spreadsheets run cells starting with these as formulas
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+function csvField(cell: Cell): string {
+  if (cell === null) return "";
+  let text = String(cell);
+  if (typeof cell === "string" && FORMULA_PREFIX.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv(matrix: SynthesisMatrix, companions: ExportCompanion[]): string {
+  // The byte order mark makes Excel read the file as UTF-8
+  return "\uFEFF" + toRows(matrix, companions).map((row) => row.map(csvField).join(",")).join("\r\n") + "\r\n";
+}
+
+export async function toXlsx(
+  matrix: SynthesisMatrix,
+  companions: ExportCompanion[],
+  sheetName: string
+): Promise<Buffer> {
+  const workbook = new ExcelJS.Workbook();
+  // Sheet names are limited to 31 characters and may not contain []:*?/\
+  const sheet = workbook.addWorksheet(sheetName.replace(/[[\]:*?/\\]/g, " ").slice(0, 31) || "Synthesis", {
+    views: [{ state: "frozen", xSplit: 1, ySplit: 1 }],
+  });
+
+  for (const row of toRows(matrix, companions)) {
+    sheet.addRow(row);
+  }
+
+  sheet.getRow(1).font = { bold: true };
+  sheet.columns.forEach((column, index) => {
+    column.width = index === 0 ? 40 : 20;
+  });
+
+  return Buffer.from(await workbook.xlsx.writeBuffer());
+}
+
+export function toJson(
+  matrix: SynthesisMatrix,
+  companions: ExportCompanion[],
+  project: { id: string; name: string }
+) {
+  return {
+    project,
+    exported_at: new Date().toISOString(),
+    parameters: matrix.parameters,
+    rows: matrix.sources.map((source) => ({
+      source: { id: source.id, name: source.name, type: source.type, url: sourceUrl(source), created_at: source.created_at },
+      values: Object.fromEntries(matrix.parameters.map((parameter) => {
+        const value = matrix.values.get(`${source.id}-${parameter.id}`);
+        const display = cellDisplayValue(value) || null;
+        if (companions.length === 0) return [parameter.name, display];
+
+        const cell: Record<string, Cell | boolean> = { value: display };
+        for (const companion of companions) {
+          cell[companion] = !display ? null : companion === "verified" ? value!.is_verified : companionCell(value!, companion);
+        }
+        return [parameter.name, cell];
+      })),
+    })),
+  };
+}
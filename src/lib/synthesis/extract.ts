@@ -0,0 +1,117 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { LlmClient } from "@/lib/llm";
+import { embedText } from "@/lib/embeddings";
+import { extractedValueSchema, type ExtractedValue } from "./schemas";
+
+export interface ParameterDefinition {
+  id: string;
+  name: string;
+  type: string;
+  description?: string | null;
+}
+
+// Chunks retrieved per source, ranked against the parameter
+const CHUNK_LIMIT = 5;
+
+const SYSTEM_PROMPT = `You extract a single field from a research document for a synthesis matrix.
+Use ONLY the summaries and passages provided. If the document does not state the value, return null rather than guessing.
+Respond with JSON only: {"value": string | null, "confidence": number between 0 and 1, "context": short verbatim snippet supporting the value, or null}`;
+
+// The parameter as a retrieval query; embed once and reuse for every source
+export async function embedParameter(llm: LlmClient, parameter: ParameterDefinition): Promise<number[]> {
+  return embedText(llm, describeParameter(parameter));
+}
+
+/**
+ * Fills one cell, grounding the value in the source's summaries and the
+ * chunks most similar to the parameter. Only the AI columns are written, so
+ * a human `value` on the same cell survives.
+ */
+export async function extractCellValue(
+  supabase: SupabaseClient,
+  llm: LlmClient,
+  parameter: ParameterDefinition,
+  dataSourceId: string,
+  queryEmbedding: number[]
+): Promise<void> {
+  const extracted = await extractFromSource(supabase, llm, parameter, dataSourceId, queryEmbedding);
+
+  const { error } = await supabase
+    .from("synthesis_values")
+    .upsert({
+      parameter_id: parameter.id,
+      data_source_id: dataSourceId,
+      extracted_value: extracted.value,
+      confidence: extracted.confidence,
+      context: extracted.context,
+      updated_at: new Date().toISOString(),
+    }, { onConflict: "parameter_id,data_source_id" });
+
+  if (error) {
+    throw new Error(`Failed to save value: ${error.message}`);
+  }
+}
+
+async function extractFromSource(
+  supabase: SupabaseClient,
+  llm: LlmClient,
+  parameter: ParameterDefinition,
+  dataSourceId: string,
+  queryEmbedding: number[]
+): Promise<ExtractedValue> {
+  const [{ data: source }, { data: summaries }, { data: chunks, error: chunksError }] = await Promise.all([
+    supabase
+      .from("data_sources")
+      .select("name, type")
+      .eq("id", dataSourceId)
+      .single(),
+    supabase
+      .from("summaries")
+      .select("level, content")
+      .eq("data_source_id", dataSourceId)
+      .in("level", ["full", "paragraph"]),
+    supabase.rpc("match_source_chunks", {
+      p_data_source_id: dataSourceId,
+      query_embedding: queryEmbedding,
+      match_count: CHUNK_LIMIT,
+    }),
+  ]);
+
+  if (chunksError) {
+    throw new Error(`Chunk retrieval failed: ${chunksError.message}`);
+  }
+
+  const summaryText = (summaries || [])
+    .map((summary) => `${summary.level === "full" ? "Overview" : "Summary"}: ${summary.content}`)
+    .join("\n\n");
+
+  const passages = ((chunks || []) as { content: string; page_start: number | null }[])
+    .map((chunk, index) => `[${index + 1}]${chunk.page_start ? ` (p. ${chunk.page_start})` : ""}\n${chunk.content}`)
+    .join("\n\n---\n\n");
+
+  return llm.chatJson("extraction", {
+    dataSourceId,
+    messages: [
+      { role: "system", content: SYSTEM_PROMPT },
+      {
+        role: "user",
+        content: `Field: ${describeParameter(parameter)}
+Expected type: ${parameter.type}
+
+Document: ${source?.name || "Untitled"} (${source?.type || "unknown"})
+
+${summaryText || "No summaries available."}
+
+Passages:
+
+${passages || "No passages available."}`,
+      },
+    ],
+    schema: extractedValueSchema,
+    temperature: 0.1,
+  });
+}
+
+function describeParameter(parameter: ParameterDefinition): string {
+  return parameter.description ? `${parameter.name} — ${parameter.description}` : parameter.name;
+}
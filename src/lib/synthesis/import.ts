@@ -0,0 +1,520 @@
+import ExcelJS from "exceljs";
+import { z } from "zod";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { isWebUrl } from "@/lib/storage";
+import { selectAllRows } from "@/lib/supabase/paging";
+import { PARAMETER_TYPES, type ParameterType } from "./schemas";
+import { normalizeParameterName } from "./suggest";
+
+// Sources created for spreadsheet rows that match nothing in the project.
+// They have no content, so synthesis runs and ingestion leave them alone.
+export const PLACEHOLDER_SOURCE_TYPE = "placeholder";
+
+export const MAX_IMPORT_FILE_SIZE = 5 * 1024 * 1024;
+export const MAX_IMPORT_ROWS = 5000;
+const MAX_IMPORT_COLUMNS = 100;
+
+export interface ParsedSheet {
+  headers: string[];
+  rows: string[][];
+}
+
+const columnTargetSchema = z.discriminatedUnion("kind", [
+  z.object({ kind: z.literal("skip") }),
+  z.object({ kind: z.literal("existing"), parameterId: z.string() }),
+  z.object({ kind: z.literal("new"), name: z.string(), type: z.enum(PARAMETER_TYPES) }),
+]);
+
+export type ColumnTarget = z.infer<typeof columnTargetSchema>;
+
+export const importMappingSchema = z.object({
+  // Columns identifying the source of each row; at least one is required
+  nameColumn: z.number().int().nullable(),
+  urlColumn: z.number().int().nullable(),
+  // One target per sheet column; the name and URL columns are never imported as values
+  columns: z.array(columnTargetSchema),
+  createMissingSources: z.boolean(),
+  // Replace verified values that differ from the sheet instead of keeping them
+  overwrite: z.boolean(),
+});
+
+export type ImportMapping = z.infer<typeof importMappingSchema>;
+
+export type RowMatch =
+  | { kind: "existing"; sourceId: string; sourceName: string; by: "url" | "name" }
+  | { kind: "placeholder"; name: string; url: string | null }
+  | { kind: "skip"; reason: string };
+
+export interface ImportRow {
+  row: number; // Spreadsheet row number, counting the header as row 1
+  label: string;
+  match: RowMatch;
+}
+
+export interface ImportConflict {
+  row: number;
+  sourceName: string;
+  parameterName: string;
+  current: string;
+  incoming: string;
+}
+
+interface PlannedCell {
+  row: number;
+  parameter: { kind: "existing"; id: string } | { kind: "new"; column: number };
+  value: string;
+}
+
+export interface ImportPlan {
+  rows: ImportRow[];
+  conflicts: ImportConflict[];
+  newParameters: { column: number; name: string; type: ParameterType }[];
+  counts: {
+    values: number; // Cells that will be written
+    unchanged: number;
+    conflicts: number;
+    matchedSources: number;
+    newSources: number;
+    skippedRows: number;
+  };
+  cells: PlannedCell[];
+}
+
+export class ImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ImportError";
+  }
+}
+
+/**
+ * Reads the first worksheet of an XLSX file, or a CSV file, into a header
+ * row and string cells. Empty rows are dropped.
+ */
+export async function parseSpreadsheet(filename: string, buffer: ArrayBuffer): Promise<ParsedSheet> {
+  if (buffer.byteLength > MAX_IMPORT_FILE_SIZE) {
+    throw new ImportError(`File is larger than ${MAX_IMPORT_FILE_SIZE / 1024 / 1024}MB`);
+  }
+
+  const extension = filename.toLowerCase().split(".").pop();
+  let table: string[][];
+  if (extension === "xlsx") {
+    table = await readXlsx(buffer);
+  } else if (extension === "csv" || extension === "tsv" || extension === "txt") {
+    table = readCsv(new TextDecoder().decode(buffer));
+  } else {
+    throw new ImportError("Upload a .csv or .xlsx file");
+  }
+
+  const nonEmpty = table.filter((row) => row.some((cell) => cell.trim()));
+  if (nonEmpty.length < 2) {
+    throw new ImportError("The sheet needs a header row and at least one row of data");
+  }
+  if (nonEmpty.length - 1 > MAX_IMPORT_ROWS) {
+    throw new ImportError(`The sheet has more than ${MAX_IMPORT_ROWS} rows`);
+  }
+
+  const width = Math.max(...nonEmpty.map((row) => row.length));
+  if (width > MAX_IMPORT_COLUMNS) {
+    throw new ImportError(`The sheet has more than ${MAX_IMPORT_COLUMNS} columns`);
+  }
+
+  const pad = (row: string[]) => Array.from({ length: width }, (_, index) => (row[index] ?? "").trim());
+  const [header, ...rows] = nonEmpty.map(pad);
+
+  return {
+    headers: header.map((name, index) => name || `Column ${index + 1}`),
+    rows,
+  };
+}
+
+async function readXlsx(buffer: ArrayBuffer): Promise<string[][]> {
+  const workbook = new ExcelJS.Workbook();
+  try {
+    await workbook.xlsx.load(buffer);
+  } catch {
+    throw new ImportError("Could not read the Excel file");
+  }
+
+  const sheet = workbook.worksheets[0];
+  if (!sheet) return [];
+
+  const table: string[][] = [];
+  sheet.eachRow({ includeEmpty: true }, (row) => {
+    const cells: string[] = [];
+    row.eachCell({ includeEmpty: true }, (cell, column) => {
+      // Dates as ISO days rather than JavaScript's long date strings
+      cells[column - 1] = cell.value instanceof Date ? cell.value.toISOString().slice(0, 10) : cell.text;
+    });
+    table.push(Array.from(cells, (cell) => cell ?? ""));
+  });
+  return table;
+}
+
+// RFC 4180, with the delimiter guessed from the header line
+function readCsv(text: string): string[][] {
+  const input = text.replace(/^\uFEFF/, "");
+  const firstLine = input.slice(0, input.search(/\r?\n|$/));
+  const delimiter = [",", ";", "\t"].reduce((best, candidate) =>
+    firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best
+  );
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === "") {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+}
+
+const NAME_HEADER = /^(source|name|title|document|paper|study|article|reference|citation)s?\b/i;
+const URL_HEADER = /\b(url|link|doi|website)\b/i;
+// Companion columns written by the synthesis export
+const COMPANION_HEADER = / \((confidence|verified|context)\)$/;
+
+/**
+ * A first guess at the mapping: the source columns by header name, and
+ * every other column as the existing parameter of the same name or a new
+ * parameter of the type its values suggest.
+ */
+export function suggestImportMapping(
+  sheet: ParsedSheet,
+  parameters: { id: string; name: string }[]
+): ImportMapping {
+  const urlColumn = sheet.headers.findIndex((header) => URL_HEADER.test(header));
+  let nameColumn = sheet.headers.findIndex((header, index) => index !== urlColumn && NAME_HEADER.test(header));
+  if (nameColumn === -1 && urlColumn !== 0) nameColumn = 0;
+
+  const byName = new Map(parameters.map((parameter) => [normalizeParameterName(parameter.name), parameter.id]));
+
+  return {
+    nameColumn: nameColumn === -1 ? null : nameColumn,
+    urlColumn: urlColumn === -1 ? null : urlColumn,
+    columns: sheet.headers.map((header, index): ColumnTarget => {
+      if (index === nameColumn || index === urlColumn || COMPANION_HEADER.test(header)) {
+        return { kind: "skip" };
+      }
+      const parameterId = byName.get(normalizeParameterName(header));
+      if (parameterId) return { kind: "existing", parameterId };
+
+      return { kind: "new", name: header, type: inferParameterType(sheet.rows.map((row) => row[index])) };
+    }),
+    createMissingSources: true,
+    overwrite: false,
+  };
+}
+
+function inferParameterType(cells: string[]): ParameterType {
+  const values = cells.filter(Boolean);
+  if (values.length === 0) return "text";
+
+  if (values.every((value) => /^[-+]?[$€£]?\s?\d[\d,]*(\.\d+)?\s?%?$/.test(value))) return "number";
+  if (values.every((value) => /^\d{4}(-\d{2}(-\d{2})?)?$|^\d{1,2}[/.-]\d{1,2}[/.-]\d{2,4}$/.test(value))) return "date";
+
+  const distinct = new Set(values.map((value) => value.toLowerCase()));
+  if (values.length >= 5 && distinct.size <= Math.max(3, values.length * 0.3) && values.every((value) => value.length <= 40)) {
+    return "category";
+  }
+  return "text";
+}
+
+function normalizeSourceName(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/\.(pdf|docx?|txt|md|html?)$/, "")
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+}
+
+function normalizeUrl(url: string): string {
+  return url
+    .trim()
+    .toLowerCase()
+    .replace(/^https?:\/\//, "")
+    .replace(/^www\./, "")
+    .replace(/#.*$/, "")
+    .replace(/\/+$/, "");
+}
+
+function validateMapping(sheet: ParsedSheet, mapping: ImportMapping, parameterIds: Set<string>) {
+  const inRange = (column: number | null) => column === null || (column >= 0 && column < sheet.headers.length);
+
+  if (mapping.nameColumn === null && mapping.urlColumn === null) {
+    throw new ImportError("Choose the column with source names or URLs");
+  }
+  if (!inRange(mapping.nameColumn) || !inRange(mapping.urlColumn) || mapping.columns.length !== sheet.headers.length) {
+    throw new ImportError("The column mapping does not match the sheet");
+  }
+
+  const newNames = new Set<string>();
+  for (const target of mapping.columns) {
+    if (target.kind === "existing" && !parameterIds.has(target.parameterId)) {
+      throw new ImportError("A mapped parameter no longer exists");
+    }
+    if (target.kind === "new") {
+      const key = normalizeParameterName(target.name);
+      if (!key) throw new ImportError("New parameters need a name");
+      if (newNames.has(key)) throw new ImportError(`Two columns would create a parameter named "${target.name}"`);
+      newNames.add(key);
+    }
+  }
+}
+
+/**
+ * Matches each row to a source (by URL first, then by name) and compares
+ * every mapped cell with what the matrix holds. Nothing is written; the
+ * plan is shown as a preview and passed to `commitImport`. A conflict is a
+ * verified value that the sheet would change; unverified AI values are
+ * simply superseded.
+ */
+export async function planImport(
+  supabase: SupabaseClient,
+  projectId: string,
+  sheet: ParsedSheet,
+  mapping: ImportMapping
+): Promise<ImportPlan> {
+  const [sources, { data: parameters, error: parametersError }] = await Promise.all([
+    selectAllRows<{ id: string; name: string; content_url: string | null }>("sources", () => supabase
+      .from("data_sources")
+      .select("id, name, content_url")
+      .eq("project_id", projectId)
+      .order("id", { ascending: true })),
+    supabase
+      .from("synthesis_parameters")
+      .select("id, name")
+      .eq("project_id", projectId),
+  ]);
+
+  if (parametersError) {
+    throw new Error(`Failed to load project: ${parametersError.message}`);
+  }
+
+  validateMapping(sheet, mapping, new Set((parameters || []).map((parameter) => parameter.id)));
+  const targets = mapping.columns.map((target, column): ColumnTarget =>
+    column === mapping.nameColumn || column === mapping.urlColumn ? { kind: "skip" } : target
+  );
+
+  const existingNames = new Set((parameters || []).map((parameter) => normalizeParameterName(parameter.name)));
+  const newParameters = targets.flatMap((target, column) => target.kind === "new" ? [{ column, name: target.name.trim(), type: target.type }] : []);
+  const clash = newParameters.find((parameter) => existingNames.has(normalizeParameterName(parameter.name)));
+  if (clash) {
+    throw new ImportError(`A parameter named "${clash.name}" already exists; map the column to it instead`);
+  }
+
+  const byUrl = new Map<string, { id: string; name: string }>();
+  const byName = new Map<string, { id: string; name: string }>();
+  for (const source of sources) {
+    if (isWebUrl(source.content_url)) byUrl.set(normalizeUrl(source.content_url), source);
+    byName.set(normalizeSourceName(source.name), source);
+  }
+
+  const mappedParameterIds = targets.flatMap((target) => target.kind === "existing" ? [target.parameterId] : []);
+  const current = new Map<string, { value: string | null; extracted_value: string | null; is_verified: boolean }>();
+  if (mappedParameterIds.length > 0) {
+    // A value missed here would be overwritten without showing as a conflict
+    const values = await selectAllRows<{ parameter_id: string; data_source_id: string; value: string | null; extracted_value: string | null; is_verified: boolean }>(
+      "synthesis values",
+      () => supabase
+        .from("synthesis_values")
+        .select("parameter_id, data_source_id, value, extracted_value, is_verified")
+        .in("parameter_id", mappedParameterIds)
+        .order("id", { ascending: true })
+    );
+
+    for (const value of values) {
+      current.set(`${value.data_source_id}-${value.parameter_id}`, value);
+    }
+  }
+
+  const parameterNames = new Map((parameters || []).map((parameter) => [parameter.id as string, parameter.name as string]));
+  const rows: ImportRow[] = [];
+  const conflicts: ImportConflict[] = [];
+  const cells: PlannedCell[] = [];
+  const seen = new Map<string, number>(); // Source or placeholder key -> first row
+  let unchanged = 0;
+
+  sheet.rows.forEach((cellsInRow, index) => {
+    const row = index + 2;
+    const name = mapping.nameColumn === null ? "" : cellsInRow[mapping.nameColumn];
+    const url = mapping.urlColumn === null ? "" : cellsInRow[mapping.urlColumn];
+    const label = name || url;
+
+    let match: RowMatch;
+    const byUrlMatch = url ? byUrl.get(normalizeUrl(url)) : undefined;
+    const byNameMatch = name ? byName.get(normalizeSourceName(name)) : undefined;
+    if (!label) {
+      match = { kind: "skip", reason: "No source name or URL" };
+    } else if (byUrlMatch) {
+      match = { kind: "existing", sourceId: byUrlMatch.id, sourceName: byUrlMatch.name, by: "url" };
+    } else if (byNameMatch) {
+      match = { kind: "existing", sourceId: byNameMatch.id, sourceName: byNameMatch.name, by: "name" };
+    } else if (mapping.createMissingSources) {
+      match = { kind: "placeholder", name: label, url: url || null };
+    } else {
+      match = { kind: "skip", reason: "No matching source" };
+    }
+
+    const key = match.kind === "existing" ? match.sourceId : match.kind === "placeholder" ? `new:${url ? normalizeUrl(url) : normalizeSourceName(name)}` : null;
+    if (key && seen.has(key)) {
+      match = { kind: "skip", reason: `Same source as row ${seen.get(key)}` };
+    } else if (key) {
+      seen.set(key, row);
+    }
+
+    rows.push({ row, label, match });
+    if (match.kind === "skip") return;
+
+    targets.forEach((target, column) => {
+      const incoming = cellsInRow[column];
+      if (target.kind === "skip" || !incoming) return;
+
+      if (target.kind === "new") {
+        cells.push({ row, parameter: { kind: "new", column }, value: incoming });
+        return;
+      }
+
+      const existing = match.kind === "existing" ? current.get(`${match.sourceId}-${target.parameterId}`) : undefined;
+      if (existing?.is_verified && existing.value === incoming) {
+        unchanged++;
+        return;
+      }
+      if (existing?.is_verified && existing.value) {
+        conflicts.push({
+          row,
+          sourceName: match.kind === "existing" ? match.sourceName : label,
+          parameterName: parameterNames.get(target.parameterId) || "",
+          current: existing.value,
+          incoming,
+        });
+        if (!mapping.overwrite) return;
+      }
+      cells.push({ row, parameter: { kind: "existing", id: target.parameterId }, value: incoming });
+    });
+  });
+
+  return {
+    rows,
+    conflicts,
+    newParameters,
+    counts: {
+      values: cells.length,
+      unchanged,
+      conflicts: conflicts.length,
+      matchedSources: rows.filter((row) => row.match.kind === "existing").length,
+      newSources: rows.filter((row) => row.match.kind === "placeholder").length,
+      skippedRows: rows.filter((row) => row.match.kind === "skip").length,
+    },
+    cells,
+  };
+}
+
+/**
+ * Writes a plan: new parameters, placeholder sources and the cells as
+ * verified human values, all in one transaction, so a failed import leaves
+ * nothing behind. The AI's extracted_value on each cell is kept, as with a
+ * manual edit in the table.
+ */
+export async function commitImport(
+  supabase: SupabaseClient,
+  projectId: string,
+  userId: string,
+  plan: ImportPlan,
+  { filename }: { filename: string }
+): Promise<void> {
+  const now = new Date().toISOString();
+
+  const { data: existing } = await supabase
+    .from("synthesis_parameters")
+    .select("display_order")
+    .eq("project_id", projectId);
+
+  const firstOrder = Math.max(-1, ...(existing || []).map((param) => param.display_order ?? 0)) + 1;
+
+  // Ids are assigned here so the values can refer to the rows created with them
+  const newParameterIds = new Map<number, string>();
+  const parameters = plan.newParameters.map((parameter, index) => {
+    const id = crypto.randomUUID();
+    newParameterIds.set(parameter.column, id);
+    return {
+      id,
+      project_id: projectId,
+      name: parameter.name,
+      type: parameter.type,
+      is_system: false,
+      display_order: firstOrder + index,
+    };
+  });
+
+  const sourceIds = new Map<number, string>();
+  const sources = [];
+  for (const { row, match } of plan.rows) {
+    if (match.kind === "existing") {
+      sourceIds.set(row, match.sourceId);
+    } else if (match.kind === "placeholder") {
+      const id = crypto.randomUUID();
+      sourceIds.set(row, id);
+      sources.push({
+        id,
+        project_id: projectId,
+        type: PLACEHOLDER_SOURCE_TYPE,
+        name: match.name,
+        content_url: match.url || "",
+        // Nothing to ingest. The type is what marks it: the project page,
+        // graph and synthesis runs skip placeholders.
+        status: "processed",
+        metadata: { placeholder: true, importedFrom: filename },
+      });
+    }
+  }
+
+  const values = plan.cells.map((cell) => ({
+    parameter_id: cell.parameter.kind === "existing" ? cell.parameter.id : newParameterIds.get(cell.parameter.column)!,
+    data_source_id: sourceIds.get(cell.row)!,
+    value: cell.value,
+    is_verified: true,
+    edited_by: userId,
+    edited_at: now,
+    updated_at: now,
+  }));
+
+  const { error } = await supabase.rpc("commit_synthesis_import", {
+    p_parameters: parameters,
+    p_sources: sources,
+    p_values: values,
+  });
+
+  if (error) {
+    throw new Error(`Failed to save the import: ${error.message}`);
+  }
+}
@@ -0,0 +1,130 @@
+// Sorting and filtering of the synthesis matrix, shared by the table and the
+// export route so a download matches what the user is looking at.
+
+export interface MatrixSource {
+  id: string;
+  name: string;
+  created_at: string;
+}
+
+export interface MatrixParameter {
+  id: string;
+  type: string;
+}
+
+export interface MatrixValue {
+  data_source_id: string;
+  parameter_id: string;
+  value?: string | null;
+  extracted_value?: string | null;
+  is_verified: boolean;
+}
+
+export type MatrixStatusFilter = "all" | "unverified" | "missing";
+
+export interface MatrixView {
+  query: string;
+  status: MatrixStatusFilter;
+  sortBy: string; // "name", "added" or a parameter ID
+  sortDirection: "asc" | "desc";
+}
+
+export const DEFAULT_MATRIX_VIEW: MatrixView = {
+  query: "",
+  status: "all",
+  sortBy: "added",
+  sortDirection: "desc",
+};
+
+// What a cell shows: the human value if there is one, else the extracted one
+export function cellDisplayValue(value: MatrixValue | undefined): string {
+  return value?.value || value?.extracted_value || "";
+}
+
+export function indexMatrixValues<V extends MatrixValue>(values: V[]): Map<string, V> {
+  return new Map(values.map((value) => [`${value.data_source_id}-${value.parameter_id}`, value]));
+}
+
+/**
+ * The sources to show, in order. `query` matches source names and cell
+ * values; empty cells always sort last whatever the direction.
+ */
+export function applyMatrixView<S extends MatrixSource>(
+  sources: S[],
+  parameters: MatrixParameter[],
+  values: Map<string, MatrixValue>,
+  view: MatrixView
+): S[] {
+  const cell = (sourceId: string, parameterId: string) => values.get(`${sourceId}-${parameterId}`);
+  const query = view.query.trim().toLowerCase();
+
+  const filtered = sources.filter((source) => {
+    if (query && !source.name.toLowerCase().includes(query)
+      && !parameters.some((parameter) => cellDisplayValue(cell(source.id, parameter.id)).toLowerCase().includes(query))) {
+      return false;
+    }
+
+    if (view.status === "unverified") {
+      return parameters.some((parameter) => {
+        const value = cell(source.id, parameter.id);
+        return !!value?.extracted_value && !value.is_verified;
+      });
+    }
+    if (view.status === "missing") {
+      return parameters.some((parameter) => !cellDisplayValue(cell(source.id, parameter.id)));
+    }
+    return true;
+  });
+
+  const direction = view.sortDirection === "asc" ? 1 : -1;
+  const parameter = parameters.find((p) => p.id === view.sortBy);
+
+  return [...filtered].sort((a, b) => {
+    if (view.sortBy === "name") {
+      return a.name.localeCompare(b.name, undefined, { numeric: true }) * direction;
+    }
+    if (!parameter) {
+      return (new Date(a.created_at).getTime() - new Date(b.created_at).getTime()) * direction;
+    }
+
+    const valueA = cellDisplayValue(cell(a.id, parameter.id));
+    const valueB = cellDisplayValue(cell(b.id, parameter.id));
+    if (!valueA || !valueB) return valueA ? -1 : valueB ? 1 : 0;
+
+    return compareValues(parameter.type, valueA, valueB) * direction;
+  });
+}
+
+// Numbers and dates compare by what they mean, when both sides parse
+function compareValues(type: string, a: string, b: string): number {
+  if (type === "number") {
+    const numberA = Number.parseFloat(a.replace(/[^\d.-]/g, ""));
+    const numberB = Number.parseFloat(b.replace(/[^\d.-]/g, ""));
+    if (Number.isFinite(numberA) && Number.isFinite(numberB)) return numberA - numberB;
+  }
+  if (type === "date") {
+    const dateA = Date.parse(a);
+    const dateB = Date.parse(b);
+    if (Number.isFinite(dateA) && Number.isFinite(dateB)) return dateA - dateB;
+  }
+  return a.localeCompare(b, undefined, { numeric: true, sensitivity: "base" });
+}
+
+export function matrixViewToSearchParams(view: MatrixView): URLSearchParams {
+  const params = new URLSearchParams();
+  if (view.query.trim()) params.set("q", view.query.trim());
+  if (view.status !== DEFAULT_MATRIX_VIEW.status) params.set("status", view.status);
+  params.set("sort", view.sortBy);
+  params.set("dir", view.sortDirection);
+  return params;
+}
+
+export function parseMatrixView(params: URLSearchParams): MatrixView {
+  const status = params.get("status");
+  return {
+    query: params.get("q") || "",
+    status: status === "unverified" || status === "missing" ? status : "all",
+    sortBy: params.get("sort") || DEFAULT_MATRIX_VIEW.sortBy,
+    sortDirection: params.get("dir") === "asc" ? "asc" : "desc",
+  };
+}
@@ -0,0 +1,441 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { mapWithConcurrency } from "@/lib/async";
+import { selectAllRows } from "@/lib/supabase/paging";
+import { getProjectLlmClient, type LlmClient } from "@/lib/llm";
+import { embedParameter, extractCellValue, type ParameterDefinition } from "./extract";
+import { PLACEHOLDER_SOURCE_TYPE } from "./import";
+import { reconcileSuggestions, suggestParameters } from "./suggest";
+
+export type SynthesisRunStatus = "pending" | "running" | "completed" | "failed";
+
+export interface SynthesisRun {
+  id: string;
+  project_id: string;
+  discover: boolean;
+  status: SynthesisRunStatus;
+  phase: "discovery" | "extraction" | null;
+  proposals_created: number;
+  error: string | null;
+  created_at: string;
+  updated_at: string;
+  finished_at: string | null;
+}
+
+export interface SynthesisCell {
+  parameterId: string;
+  dataSourceId: string;
+}
+
+// Sources whose summaries are shown to the model when suggesting parameters.
+// Extraction still covers every source; this only bounds the discovery prompt.
+export const DISCOVERY_SAMPLE_SIZE = 12;
+const EXTRACTION_CONCURRENCY = 4;
+// A run that has made no progress for this long was abandoned (e.g. the
+// function running it timed out) and no longer blocks a new one
+const RUN_STALE_AFTER_MS = 15 * 60 * 1000;
+// Runs execute in functions capped at 300s. After this long a run stops
+// starting new cells and waits to be resumed, so it isn't cut off mid-save
+const RUN_TIME_BUDGET_MS = 240 * 1000;
+// A running run with no progress for this long has outlived its function
+// and may be picked up again by resumeSynthesisRuns
+const RUN_RESUMABLE_AFTER_MS = 6 * 60 * 1000;
+
+/**
+ * Refused because the project already has a pending or running run. The
+ * database allows only one, so this also covers two requests racing past
+ * `getActiveRun`.
+ */
+export class RunInProgressError extends Error {
+  constructor() {
+    super("An analysis is already running for this project");
+    this.name = "RunInProgressError";
+  }
+}
+
+export function isRunActive(run: Pick<SynthesisRun, "status" | "updated_at">): boolean {
+  return (run.status === "pending" || run.status === "running")
+    && Date.now() - new Date(run.updated_at).getTime() < RUN_STALE_AFTER_MS;
+}
+
+export async function getActiveRun(supabase: SupabaseClient, projectId: string): Promise<SynthesisRun | null> {
+  const { data } = await supabase
+    .from("synthesis_runs")
+    .select("*")
+    .eq("project_id", projectId)
+    .in("status", ["pending", "running"])
+    .order("created_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  return data && isRunActive(data) ? data : null;
+}
+
+// Abandoned runs still hold the project's one active slot until failed
+async function expireStaleRuns(supabase: SupabaseClient, projectId: string): Promise<void> {
+  const now = new Date();
+  const { error } = await supabase
+    .from("synthesis_runs")
+    .update({
+      status: "failed",
+      phase: null,
+      error: "The run stopped making progress",
+      finished_at: now.toISOString(),
+      updated_at: now.toISOString(),
+    })
+    .eq("project_id", projectId)
+    .in("status", ["pending", "running"])
+    .lt("updated_at", new Date(now.getTime() - RUN_STALE_AFTER_MS).toISOString());
+
+  if (error) {
+    throw new Error(`Failed to expire stale synthesis runs: ${error.message}`);
+  }
+}
+
+/**
+ * Records a run and the cells it will extract. Nothing is processed until
+ * `executeSynthesisRun` is called. Throws RunInProgressError if the project
+ * already has an active run.
+ */
+export async function createSynthesisRun(
+  supabase: SupabaseClient,
+  { projectId, userId, discover, cells }: { projectId: string; userId: string; discover: boolean; cells: SynthesisCell[] }
+): Promise<SynthesisRun> {
+  await expireStaleRuns(supabase, projectId);
+
+  const { data: run, error } = await supabase
+    .from("synthesis_runs")
+    .insert({ project_id: projectId, user_id: userId, discover })
+    .select()
+    .single();
+
+  // unique_violation on synthesis_runs_project_id_active_idx
+  if (error?.code === "23505") {
+    throw new RunInProgressError();
+  }
+  if (error || !run) {
+    throw new Error(`Failed to create synthesis run: ${error?.message}`);
+  }
+
+  if (cells.length > 0) {
+    const { error: itemsError } = await supabase
+      .from("synthesis_run_items")
+      .insert(cells.map((cell) => ({
+        run_id: run.id,
+        parameter_id: cell.parameterId,
+        data_source_id: cell.dataSourceId,
+      })));
+
+    if (itemsError) {
+      await supabase.from("synthesis_runs").delete().eq("id", run.id);
+      throw new Error(`Failed to create synthesis run: ${itemsError.message}`);
+    }
+  }
+
+  return run;
+}
+
+/**
+ * Cells of `parameterIds` that have never been extracted for `dataSourceIds`.
+ * Existing rows, verified or not, are left alone.
+ */
+export async function findMissingCells(
+  supabase: SupabaseClient,
+  parameterIds: string[],
+  dataSourceIds: string[]
+): Promise<SynthesisCell[]> {
+  if (parameterIds.length === 0 || dataSourceIds.length === 0) return [];
+
+  // A cell missed here would be extracted, and paid for, a second time
+  const existingValues = await selectAllRows("synthesis values", () => supabase
+    .from("synthesis_values")
+    .select("parameter_id, data_source_id")
+    .in("parameter_id", parameterIds)
+    .order("parameter_id", { ascending: true })
+    .order("data_source_id", { ascending: true }));
+
+  const filled = new Set(existingValues.map((row) => `${row.parameter_id}-${row.data_source_id}`));
+
+  return parameterIds.flatMap((parameterId) =>
+    dataSourceIds
+      .filter((dataSourceId) => !filled.has(`${parameterId}-${dataSourceId}`))
+      .map((dataSourceId) => ({ parameterId, dataSourceId }))
+  );
+}
+
+/**
+ * Cells of one parameter that a human has not verified, i.e. every cell an
+ * extraction pass may (re)write.
+ */
+export async function findUnverifiedCells(
+  supabase: SupabaseClient,
+  parameterId: string,
+  dataSourceIds: string[]
+): Promise<SynthesisCell[]> {
+  // Missing one here would overwrite a human's value
+  const verified = await selectAllRows("verified synthesis values", () => supabase
+    .from("synthesis_values")
+    .select("data_source_id")
+    .eq("parameter_id", parameterId)
+    .eq("is_verified", true)
+    .order("data_source_id", { ascending: true }));
+
+  const verifiedIds = new Set(verified.map((row) => row.data_source_id as string));
+
+  return dataSourceIds
+    .filter((dataSourceId) => !verifiedIds.has(dataSourceId))
+    .map((dataSourceId) => ({ parameterId, dataSourceId }));
+}
+
+// Takes the run if it is waiting to be (re)started or its last worker died.
+// The conditional update means two workers can't both take it.
+async function claimRun(supabase: SupabaseClient, runId: string): Promise<SynthesisRun | null> {
+  const resumableBefore = new Date(Date.now() - RUN_RESUMABLE_AFTER_MS).toISOString();
+  const { data: run } = await supabase
+    .from("synthesis_runs")
+    .update({ status: "running", updated_at: new Date().toISOString() })
+    .eq("id", runId)
+    .or(`status.eq.pending,and(status.eq.running,updated_at.lt.${resumableBefore})`)
+    .select()
+    .maybeSingle();
+
+  return run;
+}
+
+/**
+ * Runs discovery (if requested) and then extracts every pending cell with a
+ * concurrency limit. Each cell is saved as soon as it is extracted and a
+ * failing cell is recorded on its item, so a partial failure keeps whatever
+ * the run already produced. Pass a service-role client: this usually runs
+ * after the response, once the user's token may have expired.
+ *
+ * A run with more cells than fit in one function's time limit is left
+ * pending with the rest of its cells, as is one whose function was killed;
+ * resumeSynthesisRuns picks both up.
+ */
+export async function executeSynthesisRun(supabase: SupabaseClient, runId: string): Promise<void> {
+  const deadline = Date.now() + RUN_TIME_BUDGET_MS;
+  const run = await claimRun(supabase, runId);
+  if (!run) return;
+
+  // Cells whose extraction was cut off by an earlier worker are redone
+  await supabase
+    .from("synthesis_run_items")
+    .update({ status: "pending", updated_at: new Date().toISOString() })
+    .eq("run_id", runId)
+    .eq("status", "running");
+
+  // Discovery finished in an earlier pass once the phase moved on
+  const discover = run.discover && run.phase !== "extraction";
+  await updateRun(supabase, runId, { phase: discover ? "discovery" : "extraction" });
+
+  try {
+    const llm = await getProjectLlmClient(supabase, run.project_id);
+
+    if (discover) {
+      try {
+        const proposalsCreated = await discoverParameters(supabase, llm, run.project_id);
+        await updateRun(supabase, runId, { proposals_created: proposalsCreated, phase: "extraction" });
+      } catch (error) {
+        // Suggestions are optional; still fill the cells that were planned
+        console.error(`Parameter discovery failed for run ${runId}:`, error);
+        await updateRun(supabase, runId, {
+          error: `Parameter discovery failed: ${error instanceof Error ? error.message : String(error)}`,
+          phase: "extraction",
+        });
+      }
+    }
+
+    if (!await extractRunItems(supabase, llm, runId, deadline)) {
+      // Out of time: hand the remaining cells to the next worker
+      await updateRun(supabase, runId, { status: "pending" });
+      return;
+    }
+
+    await updateRun(supabase, runId, { status: "completed", phase: null, finished_at: new Date().toISOString() });
+  } catch (error) {
+    console.error(`Synthesis run ${runId} failed:`, error);
+    await updateRun(supabase, runId, {
+      status: "failed",
+      phase: null,
+      error: error instanceof Error ? error.message : String(error),
+      finished_at: new Date().toISOString(),
+    });
+  }
+}
+
+async function discoverParameters(supabase: SupabaseClient, llm: LlmClient, projectId: string): Promise<number> {
+  const { data: dataSources, error: sourcesError } = await supabase
+    .from("data_sources")
+    .select("id, name, type, created_at")
+    .eq("project_id", projectId)
+    .eq("status", "processed")
+    .neq("type", PLACEHOLDER_SOURCE_TYPE)
+    .order("created_at", { ascending: true });
+
+  if (sourcesError) {
+    throw new Error(sourcesError.message);
+  }
+
+  const sample = sampleEvenly(dataSources || [], DISCOVERY_SAMPLE_SIZE);
+  if (sample.length === 0) return 0;
+
+  const [{ data: summaries }, { data: parameters }, { data: proposals }] = await Promise.all([
+    supabase
+      .from("summaries")
+      .select("data_source_id, level, content")
+      .in("data_source_id", sample.map((source) => source.id))
+      .in("level", ["full", "paragraph"]),
+    supabase
+      .from("synthesis_parameters")
+      .select("name, description")
+      .eq("project_id", projectId),
+    supabase
+      .from("parameter_proposals")
+      .select("name, description")
+      .eq("project_id", projectId),
+  ]);
+
+  // Rejected proposals count as known too, so they are not offered again
+  const known = [...(parameters || []), ...(proposals || [])];
+
+  const suggestions = await suggestParameters(
+    llm,
+    sample.map((source) => ({
+      name: source.name,
+      type: source.type,
+      content: (summaries || [])
+        .filter((summary) => summary.data_source_id === source.id)
+        .map((summary) => summary.content)
+        .join("\n\n"),
+    })),
+    known
+  );
+
+  const freshSuggestions = reconcileSuggestions(suggestions, known);
+  if (freshSuggestions.length === 0) return 0;
+
+  const { error } = await supabase
+    .from("parameter_proposals")
+    .insert(freshSuggestions.map((suggestion) => ({
+      project_id: projectId,
+      name: suggestion.name,
+      type: suggestion.type,
+      description: suggestion.description,
+      importance: suggestion.importance,
+    })));
+
+  if (error) {
+    throw new Error(`Failed to save suggestions: ${error.message}`);
+  }
+
+  return freshSuggestions.length;
+}
+
+// Extracts the run's pending cells until `deadline`. Returns whether every
+// cell was attempted.
+async function extractRunItems(supabase: SupabaseClient, llm: LlmClient, runId: string, deadline: number): Promise<boolean> {
+  // All pages are read before any item changes status, so none are skipped
+  const items = await selectAllRows("run items", () => supabase
+    .from("synthesis_run_items")
+    .select("id, data_source_id, parameter:synthesis_parameters(id, name, type, description)")
+    .eq("run_id", runId)
+    .eq("status", "pending")
+    .order("id", { ascending: true }));
+
+  // One embedding per parameter, shared by all of its cells
+  const embeddings = new Map<string, Promise<number[]>>();
+  const getEmbedding = (parameter: ParameterDefinition) => {
+    if (!embeddings.has(parameter.id)) {
+      embeddings.set(parameter.id, embedParameter(llm, parameter));
+    }
+    return embeddings.get(parameter.id)!;
+  };
+
+  let finished = true;
+
+  await mapWithConcurrency(items, EXTRACTION_CONCURRENCY, async (item) => {
+    // Left pending for the next pass
+    if (Date.now() > deadline) {
+      finished = false;
+      return;
+    }
+
+    const parameter = item.parameter as unknown as ParameterDefinition | null;
+
+    await updateItem(supabase, item.id, { status: "running" });
+
+    try {
+      if (!parameter) {
+        throw new Error("Parameter was deleted");
+      }
+
+      await extractCellValue(supabase, llm, parameter, item.data_source_id, await getEmbedding(parameter));
+      await updateItem(supabase, item.id, { status: "completed" });
+    } catch (error) {
+      console.error(`Extraction failed for run item ${item.id}:`, error);
+      await updateItem(supabase, item.id, {
+        status: "failed",
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+
+    await updateRun(supabase, runId, {});
+  });
+
+  return finished;
+}
+
+/**
+ * Continues the run that has waited longest: one left pending when it ran
+ * out of time, or one whose function died without finishing. Runs one pass,
+ * which fits in a single function; called on a schedule until none remain.
+ * Pass a service-role client. Returns the id of the run it continued.
+ */
+export async function resumeSynthesisRuns(supabase: SupabaseClient): Promise<string | null> {
+  const now = Date.now();
+  // Fresh runs are left to the request that created them
+  const waitingBefore = new Date(now - 60 * 1000).toISOString();
+  const resumableBefore = new Date(now - RUN_RESUMABLE_AFTER_MS).toISOString();
+  // Past this a run no longer counts as active and a new one may replace it
+  const staleBefore = new Date(now - RUN_STALE_AFTER_MS).toISOString();
+
+  const { data: run, error } = await supabase
+    .from("synthesis_runs")
+    .select("id")
+    .or(`and(status.eq.pending,updated_at.lt.${waitingBefore}),and(status.eq.running,updated_at.lt.${resumableBefore})`)
+    .gte("updated_at", staleBefore)
+    .order("updated_at", { ascending: true })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to find synthesis runs to resume: ${error.message}`);
+  }
+  if (!run) return null;
+
+  await executeSynthesisRun(supabase, run.id);
+  return run.id;
+}
+
+// Spreads the sample across the list (oldest to newest) instead of taking
+// only the first few sources
+function sampleEvenly<T>(items: T[], size: number): T[] {
+  if (items.length <= size) return items;
+
+  const step = items.length / size;
+  return Array.from({ length: size }, (_, i) => items[Math.floor(i * step)]);
+}
+
+async function updateRun(supabase: SupabaseClient, runId: string, fields: Record<string, unknown>) {
+  await supabase
+    .from("synthesis_runs")
+    .update({ ...fields, updated_at: new Date().toISOString() })
+    .eq("id", runId);
+}
+
+async function updateItem(supabase: SupabaseClient, itemId: string, fields: Record<string, unknown>) {
+  await supabase
+    .from("synthesis_run_items")
+    .update({ ...fields, updated_at: new Date().toISOString() })
+    .eq("id", itemId);
+}
@@ -0,0 +1,83 @@
+import { z } from "zod";
+
+export const PARAMETER_TYPES = ["text", "number", "date", "category"] as const;
+export type ParameterType = (typeof PARAMETER_TYPES)[number];
+
+// Names models commonly use for the four types we support
+const PARAMETER_TYPE_ALIASES: Record<string, ParameterType> = {
+  string: "text",
+  integer: "number",
+  int: "number",
+  float: "number",
+  numeric: "number",
+  decimal: "number",
+  datetime: "date",
+  year: "date",
+  enum: "category",
+  categorical: "category",
+  boolean: "category",
+};
+
+/**
+ * Any of the supported types, case-insensitively, or a known alias of one.
+ * Anything else falls back to "text" rather than failing the whole answer.
+ */
+export const parameterTypeSchema = z
+  .string()
+  .transform((type): ParameterType => {
+    const normalized = type.trim().toLowerCase();
+    if ((PARAMETER_TYPES as readonly string[]).includes(normalized)) {
+      return normalized as ParameterType;
+    }
+    return PARAMETER_TYPE_ALIASES[normalized] ?? "text";
+  })
+  .catch("text");
+
+/**
+ * A 0–1 score. Percentages (85, "85%") are scaled down and anything outside
+ * the range is clamped.
+ */
+export const scoreSchema = z
+  .union([z.number(), z.string()])
+  .transform((raw, ctx) => {
+    const value = typeof raw === "number" ? raw : Number.parseFloat(raw.replace("%", ""));
+    if (!Number.isFinite(value)) {
+      ctx.addIssue({ code: "custom", message: "Expected a number between 0 and 1" });
+      return z.NEVER;
+    }
+    const scaled = value > 1 && value <= 100 ? value / 100 : value;
+    return Math.min(Math.max(scaled, 0), 1);
+  });
+
+// Optional free text: blank strings become null
+export const optionalTextSchema = z
+  .string()
+  .nullish()
+  .transform((text) => text?.trim() || null);
+
+export const parameterSuggestionSchema = z.object({
+  name: z.string().trim().min(1).max(120),
+  type: parameterTypeSchema,
+  description: optionalTextSchema,
+  importance: scoreSchema.catch(0.5),
+  // Name of a known parameter this one duplicates, if any
+  matchesExisting: optionalTextSchema.catch(null),
+});
+
+export const parameterSuggestionsSchema = z.object({
+  suggestedParameters: z.array(parameterSuggestionSchema),
+});
+
+export type SuggestedParameter = z.output<typeof parameterSuggestionSchema>;
+
+export const extractedValueSchema = z.object({
+  // Numbers and booleans are stored as text like every other cell value
+  value: z
+    .union([z.string(), z.number(), z.boolean()])
+    .nullish()
+    .transform((value) => (value === null || value === undefined ? null : String(value).trim() || null)),
+  confidence: scoreSchema,
+  context: optionalTextSchema,
+});
+
+export type ExtractedValue = z.output<typeof extractedValueSchema>;
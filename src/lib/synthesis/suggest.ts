@@ -0,0 +1,110 @@
+import type { LlmClient } from "@/lib/llm";
+import { parameterSuggestionsSchema, type SuggestedParameter } from "./schemas";
+
+export interface SourceDigest {
+  name: string;
+  type: string;
+  content: string;
+}
+
+export interface KnownParameter {
+  name: string;
+  description?: string | null;
+}
+
+// Characters of each source's summary sent to the model
+const DIGEST_CHARS = 1500;
+
+/**
+ * Asks the model for parameters worth tracking across the sources, telling
+ * it what the project already tracks (or has already been offered) so it can
+ * flag suggestions that mean the same thing under a different name.
+ */
+export async function suggestParameters(
+  llm: LlmClient,
+  sources: SourceDigest[],
+  known: KnownParameter[]
+): Promise<SuggestedParameter[]> {
+  const knownList = known.length > 0
+    ? known.map((param) => `- ${param.name}${param.description ? `: ${param.description}` : ""}`).join("\n")
+    : "(none yet)";
+
+  const prompt = `
+You are analyzing a collection of research documents to identify key parameters that should be tracked in a synthesis matrix.
+
+Here are the documents:
+${sources.map((source, idx) => `
+Document ${idx + 1}: ${source.name} (${source.type})
+Content: ${source.content.substring(0, DIGEST_CHARS)}...
+`).join('\n')}
+
+Parameters the project already tracks or has already been offered:
+${knownList}
+
+Your task:
+1. Identify 5-8 key parameters that would be most valuable to track across these documents
+2. For each parameter, determine what type it is (text, number, date, category)
+3. Provide a brief description of why this parameter is important
+4. If a parameter means the same thing as one listed above (even under a different name), set "matchesExisting" to that exact name; otherwise null
+
+Focus on parameters that would help compare and contrast these sources, identify trends, or support decision-making.
+
+Please respond in this exact JSON format:
+{
+  "suggestedParameters": [
+    {
+      "name": "Parameter Name",
+      "type": "text|number|date|category",
+      "description": "Why this parameter matters",
+      "importance": 0.9,
+      "matchesExisting": null
+    }
+  ]
+}`;
+
+  const { suggestedParameters } = await llm.chatJson("discovery", {
+    messages: [
+      {
+        role: "system",
+        content: "You are a research synthesis expert who helps organize and analyze academic and technical documents. You MUST respond with valid JSON only. Do not include any text before or after the JSON."
+      },
+      {
+        role: "user",
+        content: prompt
+      }
+    ],
+    schema: parameterSuggestionsSchema,
+    temperature: 0.3,
+  });
+
+  return suggestedParameters;
+}
+
+/**
+ * Drops suggestions that duplicate a known parameter, by the model's own
+ * match or by normalized name, and duplicates within the batch itself.
+ */
+export function reconcileSuggestions(
+  suggestions: SuggestedParameter[],
+  known: KnownParameter[]
+): SuggestedParameter[] {
+  const seen = new Set(known.map((param) => normalizeParameterName(param.name)));
+  const fresh: SuggestedParameter[] = [];
+
+  for (const suggestion of suggestions) {
+    const key = normalizeParameterName(suggestion.name);
+    const matched = suggestion.matchesExisting && seen.has(normalizeParameterName(suggestion.matchesExisting));
+
+    if (matched || seen.has(key)) continue;
+
+    seen.add(key);
+    fresh.push(suggestion);
+  }
+
+  return fresh;
+}
+
+// "Publication Year", "publication-year" and "Publication year " compare equal
+export function normalizeParameterName(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, "");
+}
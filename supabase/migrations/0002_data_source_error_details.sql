@@ -0,0 +1 @@
+ALTER TABLE "data_sources" ADD COLUMN "error_details" jsonb;
@@ -0,0 +1,16 @@
+CREATE TABLE "source_chunks" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"data_source_id" uuid NOT NULL,
+	"chunk_index" integer NOT NULL,
+	"content" text NOT NULL,
+	"char_start" integer NOT NULL,
+	"char_end" integer NOT NULL,
+	"page_start" integer,
+	"page_end" integer,
+	"element_start" integer,
+	"element_end" integer,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "source_chunks" ADD CONSTRAINT "source_chunks_data_source_id_data_sources_id_fk" FOREIGN KEY ("data_source_id") REFERENCES "public"."data_sources"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "source_chunks_data_source_id_chunk_index_idx" ON "source_chunks" USING btree ("data_source_id","chunk_index");
@@ -0,0 +1,49 @@
+CREATE EXTENSION IF NOT EXISTS vector;--> statement-breakpoint
+ALTER TABLE "source_chunks" ADD COLUMN "embedding" vector(1536);--> statement-breakpoint
+ALTER TABLE "summaries" ADD COLUMN "embedding" vector(1536);--> statement-breakpoint
+CREATE INDEX "source_chunks_embedding_idx" ON "source_chunks" USING hnsw ("embedding" vector_cosine_ops);--> statement-breakpoint
+CREATE INDEX "summaries_embedding_idx" ON "summaries" USING hnsw ("embedding" vector_cosine_ops);--> statement-breakpoint
+-- Ranked chunks and summaries of one project by cosine similarity. Runs as
+-- the caller, so RLS on the underlying tables still applies.
+CREATE OR REPLACE FUNCTION "match_project_passages"(
+	"p_project_id" uuid,
+	"query_embedding" vector(1536),
+	"match_count" integer DEFAULT 10
+)
+RETURNS TABLE (
+	"kind" text,
+	"id" uuid,
+	"data_source_id" uuid,
+	"data_source_name" text,
+	"data_source_type" text,
+	"content" text,
+	"chunk_index" integer,
+	"page_start" integer,
+	"page_end" integer,
+	"summary_level" text,
+	"similarity" double precision
+)
+LANGUAGE sql STABLE
+AS $$
+	SELECT * FROM (
+		SELECT 'chunk', c.id, c.data_source_id, ds.name, ds.type, c.content, c.chunk_index, c.page_start, c.page_end, NULL::text,
+			1 - (c.embedding <=> query_embedding)
+		FROM source_chunks c
+		JOIN data_sources ds ON ds.id = c.data_source_id
+		WHERE ds.project_id = p_project_id AND c.embedding IS NOT NULL
+		ORDER BY c.embedding <=> query_embedding
+		LIMIT match_count
+	) AS chunk_matches
+	UNION ALL
+	SELECT * FROM (
+		SELECT 'summary', s.id, s.data_source_id, ds.name, ds.type, s.content, NULL::integer, NULL::integer, NULL::integer, s.level::text,
+			1 - (s.embedding <=> query_embedding)
+		FROM summaries s
+		JOIN data_sources ds ON ds.id = s.data_source_id
+		WHERE ds.project_id = p_project_id AND s.embedding IS NOT NULL
+		ORDER BY s.embedding <=> query_embedding
+		LIMIT match_count
+	) AS summary_matches
+	ORDER BY 11 DESC
+	LIMIT match_count;
+$$;
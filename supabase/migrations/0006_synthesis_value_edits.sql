@@ -0,0 +1,53 @@
+-- The synthesis tables were created outside the migration history; make sure
+-- they exist before altering them.
+CREATE TABLE IF NOT EXISTS "synthesis_parameters" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"project_id" uuid NOT NULL,
+	"name" text NOT NULL,
+	"type" text NOT NULL,
+	"description" text,
+	"is_system" boolean DEFAULT false,
+	"display_order" integer DEFAULT 0,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "synthesis_values" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"parameter_id" uuid NOT NULL,
+	"data_source_id" uuid NOT NULL,
+	"value" text,
+	"extracted_value" text,
+	"confidence" real,
+	"context" text,
+	"is_verified" boolean DEFAULT false,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "synthesis_parameters" ADD CONSTRAINT "synthesis_parameters_project_id_projects_id_fk" FOREIGN KEY ("project_id") REFERENCES "public"."projects"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "synthesis_values" ADD CONSTRAINT "synthesis_values_parameter_id_synthesis_parameters_id_fk" FOREIGN KEY ("parameter_id") REFERENCES "public"."synthesis_parameters"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "synthesis_values" ADD CONSTRAINT "synthesis_values_data_source_id_data_sources_id_fk" FOREIGN KEY ("data_source_id") REFERENCES "public"."data_sources"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+ALTER TABLE "synthesis_values" ADD COLUMN "edited_by" text;--> statement-breakpoint
+ALTER TABLE "synthesis_values" ADD COLUMN "edited_at" timestamp;--> statement-breakpoint
+-- Keep only the most recent value per cell so the unique index can be built
+DELETE FROM "synthesis_values" a
+USING "synthesis_values" b
+WHERE a.parameter_id = b.parameter_id
+	AND a.data_source_id = b.data_source_id
+	AND (a.updated_at, a.id) < (b.updated_at, b.id);--> statement-breakpoint
+CREATE UNIQUE INDEX "synthesis_values_parameter_id_data_source_id_idx" ON "synthesis_values" USING btree ("parameter_id","data_source_id");
@@ -0,0 +1,25 @@
+-- Ranked chunks of a single source by cosine similarity, used to find the
+-- passages that answer one synthesis parameter. Runs as the caller, so RLS
+-- on the underlying tables still applies.
+CREATE OR REPLACE FUNCTION "match_source_chunks"(
+	"p_data_source_id" uuid,
+	"query_embedding" vector(1536),
+	"match_count" integer DEFAULT 5
+)
+RETURNS TABLE (
+	"id" uuid,
+	"chunk_index" integer,
+	"content" text,
+	"page_start" integer,
+	"page_end" integer,
+	"similarity" double precision
+)
+LANGUAGE sql STABLE
+AS $$
+	SELECT c.id, c.chunk_index, c.content, c.page_start, c.page_end,
+		1 - (c.embedding <=> query_embedding)
+	FROM source_chunks c
+	WHERE c.data_source_id = p_data_source_id AND c.embedding IS NOT NULL
+	ORDER BY c.embedding <=> query_embedding
+	LIMIT match_count;
+$$;
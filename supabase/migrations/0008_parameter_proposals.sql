@@ -0,0 +1,17 @@
+CREATE TYPE "public"."parameter_proposal_status" AS ENUM('pending', 'accepted', 'rejected');--> statement-breakpoint
+CREATE TABLE "parameter_proposals" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"project_id" uuid NOT NULL,
+	"name" text NOT NULL,
+	"type" text NOT NULL,
+	"description" text,
+	"importance" real,
+	"status" "parameter_proposal_status" DEFAULT 'pending' NOT NULL,
+	"parameter_id" uuid,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "parameter_proposals" ADD CONSTRAINT "parameter_proposals_project_id_projects_id_fk" FOREIGN KEY ("project_id") REFERENCES "public"."projects"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "parameter_proposals" ADD CONSTRAINT "parameter_proposals_parameter_id_synthesis_parameters_id_fk" FOREIGN KEY ("parameter_id") REFERENCES "public"."synthesis_parameters"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "parameter_proposals_project_id_status_idx" ON "parameter_proposals" USING btree ("project_id","status");
@@ -0,0 +1,31 @@
+CREATE TYPE "public"."synthesis_run_status" AS ENUM('pending', 'running', 'completed', 'failed');--> statement-breakpoint
+CREATE TABLE "synthesis_runs" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"project_id" uuid NOT NULL,
+	"user_id" text NOT NULL,
+	"discover" boolean DEFAULT false NOT NULL,
+	"status" "synthesis_run_status" DEFAULT 'pending' NOT NULL,
+	"phase" text,
+	"proposals_created" integer DEFAULT 0 NOT NULL,
+	"error" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	"finished_at" timestamp
+);
+--> statement-breakpoint
+CREATE TABLE "synthesis_run_items" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"run_id" uuid NOT NULL,
+	"parameter_id" uuid NOT NULL,
+	"data_source_id" uuid NOT NULL,
+	"status" "synthesis_run_status" DEFAULT 'pending' NOT NULL,
+	"error" text,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "synthesis_runs" ADD CONSTRAINT "synthesis_runs_project_id_projects_id_fk" FOREIGN KEY ("project_id") REFERENCES "public"."projects"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "synthesis_run_items" ADD CONSTRAINT "synthesis_run_items_run_id_synthesis_runs_id_fk" FOREIGN KEY ("run_id") REFERENCES "public"."synthesis_runs"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "synthesis_run_items" ADD CONSTRAINT "synthesis_run_items_parameter_id_synthesis_parameters_id_fk" FOREIGN KEY ("parameter_id") REFERENCES "public"."synthesis_parameters"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "synthesis_run_items" ADD CONSTRAINT "synthesis_run_items_data_source_id_data_sources_id_fk" FOREIGN KEY ("data_source_id") REFERENCES "public"."data_sources"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "synthesis_runs_project_id_created_at_idx" ON "synthesis_runs" USING btree ("project_id","created_at");--> statement-breakpoint
+CREATE INDEX "synthesis_run_items_run_id_idx" ON "synthesis_run_items" USING btree ("run_id");
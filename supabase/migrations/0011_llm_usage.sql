@@ -0,0 +1,36 @@
+ALTER TABLE "projects" ADD COLUMN "spending_cap" real;--> statement-breakpoint
+CREATE TABLE "llm_usage" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"project_id" uuid NOT NULL,
+	"data_source_id" uuid,
+	"operation" text NOT NULL,
+	"provider" text NOT NULL,
+	"model" text NOT NULL,
+	"prompt_tokens" integer DEFAULT 0 NOT NULL,
+	"completion_tokens" integer DEFAULT 0 NOT NULL,
+	"audio_seconds" real,
+	"estimated_cost" real DEFAULT 0 NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "llm_usage" ADD CONSTRAINT "llm_usage_project_id_projects_id_fk" FOREIGN KEY ("project_id") REFERENCES "public"."projects"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "llm_usage" ADD CONSTRAINT "llm_usage_data_source_id_data_sources_id_fk" FOREIGN KEY ("data_source_id") REFERENCES "public"."data_sources"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "llm_usage_project_id_created_at_idx" ON "llm_usage" USING btree ("project_id","created_at");--> statement-breakpoint
+-- Usage totals per project and operation. Runs as the caller, so RLS on
+-- llm_usage limits it to projects the caller can see.
+CREATE OR REPLACE FUNCTION "project_usage_totals"("p_project_ids" uuid[])
+RETURNS TABLE (
+	"project_id" uuid,
+	"operation" text,
+	"calls" bigint,
+	"prompt_tokens" bigint,
+	"completion_tokens" bigint,
+	"estimated_cost" double precision
+)
+LANGUAGE sql STABLE
+AS $$
+	SELECT u.project_id, u.operation, count(*), sum(u.prompt_tokens), sum(u.completion_tokens), sum(u.estimated_cost)
+	FROM llm_usage u
+	WHERE u.project_id = ANY(p_project_ids)
+	GROUP BY u.project_id, u.operation;
+$$;
@@ -0,0 +1,8 @@
+ALTER TABLE "entities" ADD COLUMN "normalized_name" text;--> statement-breakpoint
+-- Rows written before entity extraction existed; ingestion normalizes more
+-- thoroughly (punctuation, accents), but nothing has written here until now
+UPDATE "entities" SET "normalized_name" = lower(trim("name"));--> statement-breakpoint
+ALTER TABLE "entities" ALTER COLUMN "normalized_name" SET NOT NULL;--> statement-breakpoint
+ALTER TABLE "data_source_entities" ALTER COLUMN "confidence" SET DATA TYPE real;--> statement-breakpoint
+CREATE UNIQUE INDEX "entities_project_id_type_normalized_name_idx" ON "entities" USING btree ("project_id","type","normalized_name");--> statement-breakpoint
+CREATE INDEX "data_source_entities_entity_id_idx" ON "data_source_entities" USING btree ("entity_id");
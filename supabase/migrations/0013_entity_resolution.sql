@@ -0,0 +1,92 @@
+ALTER TABLE "entities" ADD COLUMN "aliases" text[] DEFAULT '{}' NOT NULL;--> statement-breakpoint
+ALTER TABLE "entities" ADD COLUMN "embedding" vector(1536);--> statement-breakpoint
+-- Pairs of same-typed entities in a project whose embeddings are at least
+-- `p_min_similarity` alike, for duplicate detection. Runs as the caller, so
+-- RLS on entities still applies.
+CREATE OR REPLACE FUNCTION "entity_similarity_pairs"(
+	"p_project_id" uuid,
+	"p_min_similarity" double precision
+)
+RETURNS TABLE (
+	"entity_id" uuid,
+	"other_entity_id" uuid,
+	"similarity" double precision
+)
+LANGUAGE sql STABLE
+AS $$
+	SELECT a.id, b.id, 1 - (a.embedding <=> b.embedding)
+	FROM entities a
+	JOIN entities b ON b.project_id = a.project_id AND b.type = a.type AND b.id > a.id
+	WHERE a.project_id = p_project_id
+		AND a.embedding IS NOT NULL
+		AND b.embedding IS NOT NULL
+		AND 1 - (a.embedding <=> b.embedding) >= p_min_similarity;
+$$;
+--> statement-breakpoint
+-- Folds `p_merged_ids` into `p_target_id` in one transaction: their mentions
+-- are repointed (keeping the more confident one where a source mentions
+-- both), their names and aliases become aliases of the target, and the
+-- merged rows are deleted. Runs as the caller, so RLS still applies.
+CREATE OR REPLACE FUNCTION "merge_entities"(
+	"p_target_id" uuid,
+	"p_merged_ids" uuid[]
+)
+RETURNS void
+LANGUAGE plpgsql
+AS $$
+DECLARE
+	target entities%ROWTYPE;
+BEGIN
+	p_merged_ids := array_remove(p_merged_ids, p_target_id);
+
+	SELECT * INTO target FROM entities WHERE id = p_target_id;
+	IF NOT FOUND THEN
+		RAISE EXCEPTION 'Entity % not found', p_target_id;
+	END IF;
+
+	IF EXISTS (
+		SELECT 1 FROM entities
+		WHERE id = ANY(p_merged_ids) AND (project_id <> target.project_id OR type <> target.type)
+	) THEN
+		RAISE EXCEPTION 'Only entities of the same project and type can be merged';
+	END IF;
+
+	-- Sources that mention both: keep whichever mention is more confident
+	UPDATE data_source_entities t
+	SET value = m.value, confidence = m.confidence, context = m.context
+	FROM (
+		SELECT DISTINCT ON (data_source_id) data_source_id, value, confidence, context
+		FROM data_source_entities
+		WHERE entity_id = ANY(p_merged_ids)
+		ORDER BY data_source_id, confidence DESC NULLS LAST
+	) m
+	WHERE t.entity_id = p_target_id
+		AND t.data_source_id = m.data_source_id
+		AND coalesce(m.confidence, 0) > coalesce(t.confidence, 0);
+
+	INSERT INTO data_source_entities (data_source_id, entity_id, value, confidence, context)
+	SELECT DISTINCT ON (data_source_id) data_source_id, p_target_id, value, confidence, context
+	FROM data_source_entities
+	WHERE entity_id = ANY(p_merged_ids)
+	ORDER BY data_source_id, confidence DESC NULLS LAST
+	ON CONFLICT (data_source_id, entity_id) DO NOTHING;
+
+	UPDATE entities
+	SET aliases = ARRAY(
+		SELECT DISTINCT n
+		FROM unnest(
+			target.aliases
+			|| (SELECT coalesce(array_agg(name), '{}') FROM entities WHERE id = ANY(p_merged_ids))
+			|| (SELECT coalesce(array_agg(a), '{}') FROM entities, unnest(aliases) a WHERE id = ANY(p_merged_ids))
+		) n
+		WHERE n <> target.name
+	),
+	description = coalesce(target.description, (
+		SELECT description FROM entities WHERE id = ANY(p_merged_ids) AND description IS NOT NULL LIMIT 1
+	))
+	WHERE id = p_target_id;
+
+	-- Cascades to the merged entities' own data_source_entities rows
+	DELETE FROM entities WHERE id = ANY(p_merged_ids);
+END;
+$$;
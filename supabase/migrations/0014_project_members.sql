@@ -0,0 +1,118 @@
+CREATE TYPE "public"."project_role" AS ENUM('owner', 'editor', 'viewer');--> statement-breakpoint
+CREATE TABLE "project_members" (
+	"project_id" uuid NOT NULL,
+	"user_id" text NOT NULL,
+	"role" "project_role" NOT NULL,
+	"invited_by" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "project_members_project_id_user_id_pk" PRIMARY KEY("project_id","user_id")
+);
+--> statement-breakpoint
+CREATE TABLE "project_invitations" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"project_id" uuid NOT NULL,
+	"email" text NOT NULL,
+	"role" "project_role" NOT NULL,
+	"token" text NOT NULL,
+	"invited_by" text NOT NULL,
+	"expires_at" timestamp NOT NULL,
+	"accepted_by" text,
+	"accepted_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "project_members" ADD CONSTRAINT "project_members_project_id_projects_id_fk" FOREIGN KEY ("project_id") REFERENCES "public"."projects"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "project_invitations" ADD CONSTRAINT "project_invitations_project_id_projects_id_fk" FOREIGN KEY ("project_id") REFERENCES "public"."projects"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "project_members_user_id_idx" ON "project_members" USING btree ("user_id");--> statement-breakpoint
+CREATE UNIQUE INDEX "project_invitations_token_idx" ON "project_invitations" USING btree ("token");--> statement-breakpoint
+CREATE INDEX "project_invitations_project_id_idx" ON "project_invitations" USING btree ("project_id");--> statement-breakpoint
+-- Every existing project's creator becomes its owner
+INSERT INTO "project_members" ("project_id", "user_id", "role")
+SELECT "id", "user_id", 'owner' FROM "projects"
+ON CONFLICT DO NOTHING;--> statement-breakpoint
+-- Whether the caller has at least `p_role` on a project. The enum is
+-- declared most to least privileged, so "at least" is `<=`. Security
+-- definer so policies on project_members can call it without recursing.
+CREATE OR REPLACE FUNCTION "has_project_role"(
+	"p_project_id" uuid,
+	"p_role" "project_role"
+)
+RETURNS boolean
+LANGUAGE sql STABLE SECURITY DEFINER
+SET search_path = public
+AS $$
+	SELECT EXISTS (
+		SELECT 1 FROM project_members
+		WHERE project_id = p_project_id
+			AND user_id = (SELECT auth.jwt()->>'sub')
+			AND role <= p_role
+	);
+$$;
+--> statement-breakpoint
+-- Creators become owners of new projects. Security definer because the
+-- owner-only policies on project_members would refuse the first member.
+CREATE OR REPLACE FUNCTION "add_project_creator_as_owner"()
+RETURNS trigger
+LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+	INSERT INTO project_members (project_id, user_id, role)
+	VALUES (NEW.id, NEW.user_id, 'owner')
+	ON CONFLICT DO NOTHING;
+	RETURN NEW;
+END;
+$$;
+--> statement-breakpoint
+DROP TRIGGER IF EXISTS "projects_add_creator_as_owner" ON "projects";--> statement-breakpoint
+CREATE TRIGGER "projects_add_creator_as_owner"
+AFTER INSERT ON "projects"
+FOR EACH ROW EXECUTE FUNCTION "add_project_creator_as_owner"();--> statement-breakpoint
+-- projects: replaces the creator-only policies from scripts/setup-rls.ts.
+-- The creator check on SELECT lets INSERT ... RETURNING see the new row
+-- before the trigger above has added its owner.
+ALTER TABLE "projects" ENABLE ROW LEVEL SECURITY;--> statement-breakpoint
+DROP POLICY IF EXISTS "Users can view their own projects" ON "projects";--> statement-breakpoint
+DROP POLICY IF EXISTS "Users can insert their own projects" ON "projects";--> statement-breakpoint
+DROP POLICY IF EXISTS "Users can update their own projects" ON "projects";--> statement-breakpoint
+DROP POLICY IF EXISTS "Users can delete their own projects" ON "projects";--> statement-breakpoint
+DROP POLICY IF EXISTS "Members can view projects" ON "projects";--> statement-breakpoint
+CREATE POLICY "Members can view projects" ON "projects" FOR SELECT
+	USING ((SELECT auth.jwt()->>'sub') = user_id OR has_project_role(id, 'viewer'));--> statement-breakpoint
+DROP POLICY IF EXISTS "Users can create projects" ON "projects";--> statement-breakpoint
+CREATE POLICY "Users can create projects" ON "projects" FOR INSERT
+	WITH CHECK ((SELECT auth.jwt()->>'sub') = user_id);--> statement-breakpoint
+DROP POLICY IF EXISTS "Owners can update projects" ON "projects";--> statement-breakpoint
+CREATE POLICY "Owners can update projects" ON "projects" FOR UPDATE
+	USING (has_project_role(id, 'owner'))
+	WITH CHECK (has_project_role(id, 'owner'));--> statement-breakpoint
+DROP POLICY IF EXISTS "Owners can delete projects" ON "projects";--> statement-breakpoint
+CREATE POLICY "Owners can delete projects" ON "projects" FOR DELETE
+	USING (has_project_role(id, 'owner'));--> statement-breakpoint
+-- project_members: everyone on a project sees who else is; owners manage
+-- the list and anyone may leave. The creator always stays an owner.
+ALTER TABLE "project_members" ENABLE ROW LEVEL SECURITY;--> statement-breakpoint
+DROP POLICY IF EXISTS "Members can view members" ON "project_members";--> statement-breakpoint
+CREATE POLICY "Members can view members" ON "project_members" FOR SELECT
+	USING (has_project_role(project_id, 'viewer'));--> statement-breakpoint
+DROP POLICY IF EXISTS "Owners can add members" ON "project_members";--> statement-breakpoint
+CREATE POLICY "Owners can add members" ON "project_members" FOR INSERT
+	WITH CHECK (has_project_role(project_id, 'owner'));--> statement-breakpoint
+DROP POLICY IF EXISTS "Owners can change roles" ON "project_members";--> statement-breakpoint
+CREATE POLICY "Owners can change roles" ON "project_members" FOR UPDATE
+	USING (has_project_role(project_id, 'owner') AND user_id <> (SELECT p.user_id FROM projects p WHERE p.id = project_id))
+	WITH CHECK (has_project_role(project_id, 'owner'));--> statement-breakpoint
+DROP POLICY IF EXISTS "Owners can remove members and members can leave" ON "project_members";--> statement-breakpoint
+CREATE POLICY "Owners can remove members and members can leave" ON "project_members" FOR DELETE
+	USING (
+		(has_project_role(project_id, 'owner') OR user_id = (SELECT auth.jwt()->>'sub'))
+		AND user_id <> (SELECT p.user_id FROM projects p WHERE p.id = project_id)
+	);--> statement-breakpoint
+-- project_invitations: owners only. Accepting one happens server-side with
+-- the service role, after checking the invitee's email.
+ALTER TABLE "project_invitations" ENABLE ROW LEVEL SECURITY;--> statement-breakpoint
+DROP POLICY IF EXISTS "Owners can manage invitations" ON "project_invitations";--> statement-breakpoint
+CREATE POLICY "Owners can manage invitations" ON "project_invitations" FOR ALL
+	USING (has_project_role(project_id, 'owner'))
+	WITH CHECK (has_project_role(project_id, 'owner'));
@@ -0,0 +1,185 @@
+-- Row level security for every table the anon key can reach. Access follows
+-- project membership (see has_project_role in 0014): viewers read, editors
+-- write. Child tables reach their project through the parent row, whose own
+-- policy then applies. Background work uses the service role and bypasses
+-- all of this. Each policy is dropped first so the file can be re-run.
+--
+-- data_sources
+ALTER TABLE "data_sources" ENABLE ROW LEVEL SECURITY;--> statement-breakpoint
+DROP POLICY IF EXISTS "Members can view data sources" ON "data_sources";--> statement-breakpoint
+CREATE POLICY "Members can view data sources" ON "data_sources" FOR SELECT
+	USING (has_project_role(project_id, 'viewer'));--> statement-breakpoint
+DROP POLICY IF EXISTS "Editors can add data sources" ON "data_sources";--> statement-breakpoint
+CREATE POLICY "Editors can add data sources" ON "data_sources" FOR INSERT
+	WITH CHECK (has_project_role(project_id, 'editor'));--> statement-breakpoint
+DROP POLICY IF EXISTS "Editors can update data sources" ON "data_sources";--> statement-breakpoint
+CREATE POLICY "Editors can update data sources" ON "data_sources" FOR UPDATE
+	USING (has_project_role(project_id, 'editor'))
+	WITH CHECK (has_project_role(project_id, 'editor'));--> statement-breakpoint
+DROP POLICY IF EXISTS "Editors can delete data sources" ON "data_sources";--> statement-breakpoint
+CREATE POLICY "Editors can delete data sources" ON "data_sources" FOR DELETE
+	USING (has_project_role(project_id, 'editor'));--> statement-breakpoint
+-- source_chunks: written by the ingestion worker
+ALTER TABLE "source_chunks" ENABLE ROW LEVEL SECURITY;--> statement-breakpoint
+DROP POLICY IF EXISTS "Members can view source chunks" ON "source_chunks";--> statement-breakpoint
+CREATE POLICY "Members can view source chunks" ON "source_chunks" FOR SELECT
+	USING (EXISTS (
+		SELECT 1 FROM data_sources d
+		WHERE d.id = data_source_id AND has_project_role(d.project_id, 'viewer')
+	));--> statement-breakpoint
+DROP POLICY IF EXISTS "Editors can manage source chunks" ON "source_chunks";--> statement-breakpoint
+CREATE POLICY "Editors can manage source chunks" ON "source_chunks" FOR ALL
+	USING (EXISTS (
+		SELECT 1 FROM data_sources d
+		WHERE d.id = data_source_id AND has_project_role(d.project_id, 'editor')
+	))
+	WITH CHECK (EXISTS (
+		SELECT 1 FROM data_sources d
+		WHERE d.id = data_source_id AND has_project_role(d.project_id, 'editor')
+	));--> statement-breakpoint
+-- ingestion_jobs: members may see the queue; only the worker changes it
+ALTER TABLE "ingestion_jobs" ENABLE ROW LEVEL SECURITY;--> statement-breakpoint
+DROP POLICY IF EXISTS "Members can view ingestion jobs" ON "ingestion_jobs";--> statement-breakpoint
+CREATE POLICY "Members can view ingestion jobs" ON "ingestion_jobs" FOR SELECT
+	USING (EXISTS (
+		SELECT 1 FROM data_sources d
+		WHERE d.id = data_source_id AND has_project_role(d.project_id, 'viewer')
+	));--> statement-breakpoint
+-- summaries: written by the ingestion worker
+ALTER TABLE "summaries" ENABLE ROW LEVEL SECURITY;--> statement-breakpoint
+DROP POLICY IF EXISTS "Members can view summaries" ON "summaries";--> statement-breakpoint
+CREATE POLICY "Members can view summaries" ON "summaries" FOR SELECT
+	USING (EXISTS (
+		SELECT 1 FROM data_sources d
+		WHERE d.id = data_source_id AND has_project_role(d.project_id, 'viewer')
+	));--> statement-breakpoint
+DROP POLICY IF EXISTS "Editors can manage summaries" ON "summaries";--> statement-breakpoint
+CREATE POLICY "Editors can manage summaries" ON "summaries" FOR ALL
+	USING (EXISTS (
+		SELECT 1 FROM data_sources d
+		WHERE d.id = data_source_id AND has_project_role(d.project_id, 'editor')
+	))
+	WITH CHECK (EXISTS (
+		SELECT 1 FROM data_sources d
+		WHERE d.id = data_source_id AND has_project_role(d.project_id, 'editor')
+	));--> statement-breakpoint
+-- entities
+ALTER TABLE "entities" ENABLE ROW LEVEL SECURITY;--> statement-breakpoint
+DROP POLICY IF EXISTS "Members can view entities" ON "entities";--> statement-breakpoint
+CREATE POLICY "Members can view entities" ON "entities" FOR SELECT
+	USING (has_project_role(project_id, 'viewer'));--> statement-breakpoint
+DROP POLICY IF EXISTS "Editors can manage entities" ON "entities";--> statement-breakpoint
+CREATE POLICY "Editors can manage entities" ON "entities" FOR ALL
+	USING (has_project_role(project_id, 'editor'))
+	WITH CHECK (has_project_role(project_id, 'editor'));--> statement-breakpoint
+-- data_source_entities: the entity must be in the source's project too
+ALTER TABLE "data_source_entities" ENABLE ROW LEVEL SECURITY;--> statement-breakpoint
+DROP POLICY IF EXISTS "Members can view entity mentions" ON "data_source_entities";--> statement-breakpoint
+CREATE POLICY "Members can view entity mentions" ON "data_source_entities" FOR SELECT
+	USING (EXISTS (
+		SELECT 1 FROM data_sources d
+		WHERE d.id = data_source_id AND has_project_role(d.project_id, 'viewer')
+	));--> statement-breakpoint
+DROP POLICY IF EXISTS "Editors can manage entity mentions" ON "data_source_entities";--> statement-breakpoint
+CREATE POLICY "Editors can manage entity mentions" ON "data_source_entities" FOR ALL
+	USING (EXISTS (
+		SELECT 1 FROM data_sources d
+		WHERE d.id = data_source_id AND has_project_role(d.project_id, 'editor')
+	))
+	WITH CHECK (EXISTS (
+		SELECT 1 FROM data_sources d
+		JOIN entities e ON e.project_id = d.project_id
+		WHERE d.id = data_source_id AND e.id = entity_id AND has_project_role(d.project_id, 'editor')
+	));--> statement-breakpoint
+-- synthesis_parameters
+ALTER TABLE "synthesis_parameters" ENABLE ROW LEVEL SECURITY;--> statement-breakpoint
+DROP POLICY IF EXISTS "Members can view synthesis parameters" ON "synthesis_parameters";--> statement-breakpoint
+CREATE POLICY "Members can view synthesis parameters" ON "synthesis_parameters" FOR SELECT
+	USING (has_project_role(project_id, 'viewer'));--> statement-breakpoint
+DROP POLICY IF EXISTS "Editors can manage synthesis parameters" ON "synthesis_parameters";--> statement-breakpoint
+CREATE POLICY "Editors can manage synthesis parameters" ON "synthesis_parameters" FOR ALL
+	USING (has_project_role(project_id, 'editor'))
+	WITH CHECK (has_project_role(project_id, 'editor'));--> statement-breakpoint
+-- synthesis_values: the parameter and the source must share a project
+ALTER TABLE "synthesis_values" ENABLE ROW LEVEL SECURITY;--> statement-breakpoint
+DROP POLICY IF EXISTS "Members can view synthesis values" ON "synthesis_values";--> statement-breakpoint
+CREATE POLICY "Members can view synthesis values" ON "synthesis_values" FOR SELECT
+	USING (EXISTS (
+		SELECT 1 FROM synthesis_parameters p
+		WHERE p.id = parameter_id AND has_project_role(p.project_id, 'viewer')
+	));--> statement-breakpoint
+DROP POLICY IF EXISTS "Editors can manage synthesis values" ON "synthesis_values";--> statement-breakpoint
+CREATE POLICY "Editors can manage synthesis values" ON "synthesis_values" FOR ALL
+	USING (EXISTS (
+		SELECT 1 FROM synthesis_parameters p
+		WHERE p.id = parameter_id AND has_project_role(p.project_id, 'editor')
+	))
+	WITH CHECK (EXISTS (
+		SELECT 1 FROM synthesis_parameters p
+		JOIN data_sources d ON d.project_id = p.project_id
+		WHERE p.id = parameter_id AND d.id = data_source_id AND has_project_role(p.project_id, 'editor')
+	));--> statement-breakpoint
+-- parameter_proposals
+ALTER TABLE "parameter_proposals" ENABLE ROW LEVEL SECURITY;--> statement-breakpoint
+DROP POLICY IF EXISTS "Members can view parameter proposals" ON "parameter_proposals";--> statement-breakpoint
+CREATE POLICY "Members can view parameter proposals" ON "parameter_proposals" FOR SELECT
+	USING (has_project_role(project_id, 'viewer'));--> statement-breakpoint
+DROP POLICY IF EXISTS "Editors can manage parameter proposals" ON "parameter_proposals";--> statement-breakpoint
+CREATE POLICY "Editors can manage parameter proposals" ON "parameter_proposals" FOR ALL
+	USING (has_project_role(project_id, 'editor'))
+	WITH CHECK (has_project_role(project_id, 'editor'));--> statement-breakpoint
+-- synthesis_runs: started by an editor in their own name
+ALTER TABLE "synthesis_runs" ENABLE ROW LEVEL SECURITY;--> statement-breakpoint
+DROP POLICY IF EXISTS "Members can view synthesis runs" ON "synthesis_runs";--> statement-breakpoint
+CREATE POLICY "Members can view synthesis runs" ON "synthesis_runs" FOR SELECT
+	USING (has_project_role(project_id, 'viewer'));--> statement-breakpoint
+DROP POLICY IF EXISTS "Editors can start synthesis runs" ON "synthesis_runs";--> statement-breakpoint
+CREATE POLICY "Editors can start synthesis runs" ON "synthesis_runs" FOR INSERT
+	WITH CHECK (has_project_role(project_id, 'editor') AND user_id = (SELECT auth.jwt()->>'sub'));--> statement-breakpoint
+DROP POLICY IF EXISTS "Editors can update synthesis runs" ON "synthesis_runs";--> statement-breakpoint
+CREATE POLICY "Editors can update synthesis runs" ON "synthesis_runs" FOR UPDATE
+	USING (has_project_role(project_id, 'editor'))
+	WITH CHECK (has_project_role(project_id, 'editor'));--> statement-breakpoint
+DROP POLICY IF EXISTS "Editors can delete synthesis runs" ON "synthesis_runs";--> statement-breakpoint
+CREATE POLICY "Editors can delete synthesis runs" ON "synthesis_runs" FOR DELETE
+	USING (has_project_role(project_id, 'editor'));--> statement-breakpoint
+-- synthesis_run_items
+ALTER TABLE "synthesis_run_items" ENABLE ROW LEVEL SECURITY;--> statement-breakpoint
+DROP POLICY IF EXISTS "Members can view synthesis run items" ON "synthesis_run_items";--> statement-breakpoint
+CREATE POLICY "Members can view synthesis run items" ON "synthesis_run_items" FOR SELECT
+	USING (EXISTS (
+		SELECT 1 FROM synthesis_runs r
+		WHERE r.id = run_id AND has_project_role(r.project_id, 'viewer')
+	));--> statement-breakpoint
+DROP POLICY IF EXISTS "Editors can manage synthesis run items" ON "synthesis_run_items";--> statement-breakpoint
+CREATE POLICY "Editors can manage synthesis run items" ON "synthesis_run_items" FOR ALL
+	USING (EXISTS (
+		SELECT 1 FROM synthesis_runs r
+		WHERE r.id = run_id AND has_project_role(r.project_id, 'editor')
+	))
+	WITH CHECK (EXISTS (
+		SELECT 1 FROM synthesis_runs r
+		WHERE r.id = run_id AND has_project_role(r.project_id, 'editor')
+	));--> statement-breakpoint
+-- llm_usage: viewers spend too (search and chat), so any member records
+-- usage; nobody rewrites it
+ALTER TABLE "llm_usage" ENABLE ROW LEVEL SECURITY;--> statement-breakpoint
+DROP POLICY IF EXISTS "Members can view usage" ON "llm_usage";--> statement-breakpoint
+CREATE POLICY "Members can view usage" ON "llm_usage" FOR SELECT
+	USING (has_project_role(project_id, 'viewer'));--> statement-breakpoint
+DROP POLICY IF EXISTS "Members can record usage" ON "llm_usage";--> statement-breakpoint
+CREATE POLICY "Members can record usage" ON "llm_usage" FOR INSERT
+	WITH CHECK (has_project_role(project_id, 'viewer'));--> statement-breakpoint
+-- chat_conversations: private to whoever started them, while they remain
+-- on the project
+ALTER TABLE "chat_conversations" ENABLE ROW LEVEL SECURITY;--> statement-breakpoint
+DROP POLICY IF EXISTS "Members manage their own conversations" ON "chat_conversations";--> statement-breakpoint
+CREATE POLICY "Members manage their own conversations" ON "chat_conversations" FOR ALL
+	USING (user_id = (SELECT auth.jwt()->>'sub') AND has_project_role(project_id, 'viewer'))
+	WITH CHECK (user_id = (SELECT auth.jwt()->>'sub') AND has_project_role(project_id, 'viewer'));--> statement-breakpoint
+-- chat_messages: the conversation's own policy limits the lookup to its owner
+ALTER TABLE "chat_messages" ENABLE ROW LEVEL SECURITY;--> statement-breakpoint
+DROP POLICY IF EXISTS "Members manage messages in their conversations" ON "chat_messages";--> statement-breakpoint
+CREATE POLICY "Members manage messages in their conversations" ON "chat_messages" FOR ALL
+	USING (EXISTS (SELECT 1 FROM chat_conversations c WHERE c.id = conversation_id))
+	WITH CHECK (EXISTS (SELECT 1 FROM chat_conversations c WHERE c.id = conversation_id));
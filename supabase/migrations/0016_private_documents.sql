@@ -0,0 +1,18 @@
+-- Uploaded files are served through signed URLs, so content_url holds the
+-- object path in the documents bucket instead of a public URL. URL sources
+-- keep their web address.
+UPDATE "data_sources"
+SET "content_url" = "metadata"->>'storagePath'
+WHERE "metadata" ? 'storagePath'
+  AND "content_url" ~ '^https?://';--> statement-breakpoint
+-- Early uploads never recorded storagePath: take the path from the public URL
+-- and record it, since serving and re-ingesting a file both read it
+UPDATE "data_sources"
+SET "content_url" = regexp_replace("content_url", '^https?://[^/]+/storage/v1/object/public/documents/', ''),
+  "metadata" = jsonb_set(
+    CASE WHEN jsonb_typeof("metadata") = 'object' THEN "metadata" ELSE '{}'::jsonb END,
+    '{storagePath}',
+    to_jsonb(regexp_replace("content_url", '^https?://[^/]+/storage/v1/object/public/documents/', ''))
+  )
+WHERE "content_url" ~ '^https?://[^/]+/storage/v1/object/public/documents/';--> statement-breakpoint
+UPDATE storage.buckets SET public = false WHERE id = 'documents';
@@ -0,0 +1,24 @@
+-- A source's stored file is fixed when the source is created: by
+-- /api/upload, an archive import, or the ingestion worker under the service
+-- role. Editors may still update other columns through the API, but not
+-- point a source at a different object in the documents bucket, which
+-- server code reads with the service role.
+CREATE OR REPLACE FUNCTION "protect_data_source_storage_path"()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+	IF current_user IN ('authenticated', 'anon')
+		AND (NEW.content_url IS DISTINCT FROM OLD.content_url
+			OR NEW.metadata->'storagePath' IS DISTINCT FROM OLD.metadata->'storagePath') THEN
+		RAISE EXCEPTION 'content_url and metadata.storagePath cannot be changed'
+			USING ERRCODE = '42501';
+	END IF;
+	RETURN NEW;
+END;
+$$;
+--> statement-breakpoint
+DROP TRIGGER IF EXISTS "data_sources_protect_storage_path" ON "data_sources";--> statement-breakpoint
+CREATE TRIGGER "data_sources_protect_storage_path"
+BEFORE UPDATE ON "data_sources"
+FOR EACH ROW EXECUTE FUNCTION "protect_data_source_storage_path"();
@@ -0,0 +1,13 @@
+-- At most one pending or running synthesis run per project, so two requests
+-- that both found no active run can't each start one. Older duplicates from
+-- before this index are failed first.
+UPDATE "synthesis_runs" r
+SET "status" = 'failed', "phase" = NULL, "error" = 'Superseded by a newer run', "finished_at" = now()
+WHERE r."status" IN ('pending', 'running')
+	AND EXISTS (
+		SELECT 1 FROM "synthesis_runs" newer
+		WHERE newer."project_id" = r."project_id"
+			AND newer."status" IN ('pending', 'running')
+			AND (newer."created_at", newer."id") > (r."created_at", r."id")
+	);--> statement-breakpoint
+CREATE UNIQUE INDEX "synthesis_runs_project_id_active_idx" ON "synthesis_runs" USING btree ("project_id") WHERE "synthesis_runs"."status" in ('pending', 'running');
@@ -0,0 +1,34 @@
+-- Writes a spreadsheet import in one transaction: the new parameters, the
+-- placeholder sources and every value, so a failure part way leaves the
+-- matrix as it was. Rows arrive with their ids assigned, so values can refer
+-- to parameters and sources created in the same call. Runs as the caller,
+-- so RLS still applies.
+CREATE OR REPLACE FUNCTION "commit_synthesis_import"(
+	"p_parameters" jsonb,
+	"p_sources" jsonb,
+	"p_values" jsonb
+)
+RETURNS void
+LANGUAGE plpgsql
+AS $$
+BEGIN
+	INSERT INTO synthesis_parameters (id, project_id, name, type, is_system, display_order)
+	SELECT id, project_id, name, type, is_system, display_order
+	FROM jsonb_populate_recordset(NULL::synthesis_parameters, p_parameters);
+
+	INSERT INTO data_sources (id, project_id, type, name, content_url, status, metadata)
+	SELECT id, project_id, type, name, content_url, status, metadata
+	FROM jsonb_populate_recordset(NULL::data_sources, p_sources);
+
+	-- extracted_value is left alone, as with a manual edit in the table
+	INSERT INTO synthesis_values (parameter_id, data_source_id, value, is_verified, edited_by, edited_at, updated_at)
+	SELECT parameter_id, data_source_id, value, is_verified, edited_by, edited_at, updated_at
+	FROM jsonb_populate_recordset(NULL::synthesis_values, p_values)
+	ON CONFLICT (parameter_id, data_source_id) DO UPDATE
+	SET value = excluded.value,
+		is_verified = excluded.is_verified,
+		edited_by = excluded.edited_by,
+		edited_at = excluded.edited_at,
+		updated_at = excluded.updated_at;
+END;
+$$;